@@ -20,6 +20,11 @@ import { FlashDealModule } from './flash-deal/flash-deal.module';
 import { TagModule } from './tag/tag.module';
 import { FavoritesModule } from './favorites/favorites.module';
 import { PlatformModule } from './platform/platform.module';
+import { LedgerModule } from './ledger/ledger.module';
+import { DisputeModule } from './dispute/dispute.module';
+import { ReviewModule } from './review/review.module';
+import { BookingModule } from './booking/booking.module';
+import { MigrationModule } from './migration/migration.module';
 
 /**
  * Root application module
@@ -71,6 +76,11 @@ import { PlatformModule } from './platform/platform.module';
     TagModule,
     FavoritesModule,
     PlatformModule,
+    LedgerModule, // Escrow, commissions and influencer payouts
+    DisputeModule, // Order disputes and their resolution
+    ReviewModule, // Ratings and reviews of completed orders
+    BookingModule, // Time slot holds from the cart until payment
+    MigrationModule, // Data migrations run on start
   ],
   controllers: [AppController],
   providers: [AppService, JwtStrategy],
@@ -1,6 +1,6 @@
-import { Body, Controller, Post, Param, Res, Req, Get } from '@nestjs/common';
+import { Body, Controller, Post, Param, Res, Req, Get, Delete, Put, ParseEnumPipe } from '@nestjs/common';
 import { Request, Response } from 'express';
-import { ApiBearerAuth, ApiBody, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { ApiBearerAuth, ApiBody, ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
 
 import { AuthService } from './auth.service';
 import { SigninDto } from './dto/signin.dto';
@@ -13,11 +13,26 @@ import { UserRole } from 'src/user/schemas/user.schema';
 import { GoogleLoginDto } from './dto/google-login.dto';
 import { ResetPasswordWithOtpDto } from './dto/reset-password-with-otp.dto';
 import { ForgetPasswordDto } from './dto/forget-password.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { RevokeSessionsDto } from './dto/revoke-sessions.dto';
+import { TwoFactorService } from './two-factor/two-factor.service';
+import { LoginAttemptService } from './login-attempt/login-attempt.service';
+import { ChangeEmailDto, ChangePhoneDto, ContactOtpDto } from './dto/contact-verification.dto';
+import {
+  SetTwoFactorRequirementDto,
+  TwoFactorChallengeDto,
+  TwoFactorChallengeTokenDto,
+  TwoFactorCodeDto,
+} from './dto/two-factor.dto';
 
 @ApiTags('Authentication')
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly loginAttemptService: LoginAttemptService,
+  ) {}
 
   // ──────────────── Public Auth Endpoints ────────────────
 
@@ -38,9 +53,10 @@ export class AuthController {
     description: 'Allows a user or influencer to sign in using email or phone number and password.',
   })
   @ApiBody({ type: SigninDto })
+  @ApiResponse({ status: 429, description: 'Too many failed attempts or OTP requests, retry later' })
   async signIn(@Body() credentials: SigninDto, @Res({ passthrough: true }) res: Response, @Req() req: Request) {
     const userAgent = req.headers['user-agent'];
-    return this.authService.signIn(credentials, res, userAgent);
+    return this.authService.signIn(credentials, res, userAgent, req.ip);
   }
 
   @Post('signup')
@@ -62,9 +78,10 @@ export class AuthController {
     summary: 'Send OTP for password reset',
     description: "Sends an OTP to the user's registered phone number for password reset.",
   })
+  @ApiResponse({ status: 429, description: 'Too many failed attempts or OTP requests, retry later' })
   async forgetPasswordSendOtp(@Req() req: Request, @Body() reqData: ForgetPasswordDto) {
     const userAgent = req.headers['user-agent'];
-    return this.authService.forgetPasswordSendOtp({ ...reqData, userAgent: userAgent! });
+    return this.authService.forgetPasswordSendOtp({ ...reqData, userAgent: userAgent!, clientIp: req.ip });
   }
 
   @Post('reset-password-with-otp')
@@ -74,13 +91,14 @@ export class AuthController {
     summary: 'Reset password with OTP',
     description: 'Allows a user to reset their password using a valid OTP, new password, and userId.',
   })
+  @ApiResponse({ status: 429, description: 'Too many failed attempts or OTP requests, retry later' })
   async resetPasswordWithOtp(
     @Body() reqData: ResetPasswordWithOtpDto,
     @Res({ passthrough: true }) res: Response,
     @Req() req: Request,
   ) {
     const userAgent = req.headers['user-agent'];
-    return this.authService.resetPasswordWithOtp({ ...reqData, res, userAgent });
+    return this.authService.resetPasswordWithOtp({ ...reqData, res, userAgent, clientIp: req.ip });
   }
 
   @Post('verify-otp/:userId')
@@ -90,6 +108,7 @@ export class AuthController {
     summary: 'Verify OTP',
     description: 'Verifies OTP sent during registration.',
   })
+  @ApiResponse({ status: 429, description: 'Too many failed attempts or OTP requests, retry later' })
   async verifyOtp(
     @Param('userId') userId: string,
     @Body() reqData: VerifyOtpDto,
@@ -97,18 +116,72 @@ export class AuthController {
     @Req() req: Request,
   ) {
     const userAgent = req.headers['user-agent'];
-    return this.authService.verifyOtp(userId, reqData, res, userAgent);
+    return this.authService.verifyOtp(userId, reqData, res, userAgent, req.ip);
   }
 
   @Post('refresh-token')
   @Public()
   @ApiOperation({
     summary: 'Refresh Access Token',
-    description: 'Generates a new access token using a valid refresh token.',
+    description:
+      'Generates a new access token and a new refresh token; the used refresh token is revoked. Using a revoked refresh token again signs out the whole session.',
   })
-  async refreshAccessToken(@Req() req: Request, @Body() reqData: { refreshToken?: string }) {
+  @ApiBody({ type: RefreshTokenDto })
+  async refreshAccessToken(@Req() req: Request, @Body() reqData: RefreshTokenDto, @Res({ passthrough: true }) res: Response) {
     const refreshToken = req.cookies?.refresh_token || reqData?.refreshToken;
-    return this.authService.generateAccessTokenFromRefreshToken(refreshToken);
+    return this.authService.generateAccessTokenFromRefreshToken(refreshToken, res, {
+      userAgent: req.headers['user-agent'],
+      ipAddress: req.ip,
+    });
+  }
+
+  @Post('2fa/challenge')
+  @Public()
+  @ApiBody({ type: TwoFactorChallengeDto })
+  @ApiOperation({
+    summary: 'Complete sign in with two-factor authentication',
+    description:
+      'Exchanges the challenge token returned by sign in and a code of the authenticator app (or a backup code) for tokens.',
+  })
+  @ApiResponse({ status: 429, description: 'Too many failed attempts or OTP requests, retry later' })
+  async completeTwoFactorSignIn(
+    @Body() reqData: TwoFactorChallengeDto,
+    @Res({ passthrough: true }) res: Response,
+    @Req() req: Request,
+  ) {
+    return this.authService.completeTwoFactorSignIn(reqData.challengeToken, reqData.code, res, {
+      userAgent: req.headers['user-agent'],
+      ipAddress: req.ip,
+    });
+  }
+
+  @Post('2fa/challenge/setup')
+  @Public()
+  @ApiBody({ type: TwoFactorChallengeTokenDto })
+  @ApiOperation({
+    summary: 'Set up two-factor authentication during sign in',
+    description: 'For users whose role requires two-factor authentication and who are not enrolled yet.',
+  })
+  async setupTwoFactorWithChallenge(@Body() reqData: TwoFactorChallengeTokenDto) {
+    return this.authService.setupTwoFactorWithChallenge(reqData.challengeToken);
+  }
+
+  @Post('2fa/challenge/enable')
+  @Public()
+  @ApiBody({ type: TwoFactorChallengeDto })
+  @ApiOperation({
+    summary: 'Enable two-factor authentication during sign in',
+    description: 'Verifies the first code, signs the user in and returns the backup codes.',
+  })
+  async enableTwoFactorWithChallenge(
+    @Body() reqData: TwoFactorChallengeDto,
+    @Res({ passthrough: true }) res: Response,
+    @Req() req: Request,
+  ) {
+    return this.authService.enableTwoFactorWithChallenge(reqData.challengeToken, reqData.code, res, {
+      userAgent: req.headers['user-agent'],
+      ipAddress: req.ip,
+    });
   }
 
   // ──────────────── Protected Auth Endpoints ────────────────
@@ -117,21 +190,183 @@ export class AuthController {
   @ApiBearerAuth('access-token')
   @ApiOperation({
     summary: 'Get Active Sessions',
-    description: 'Retrieves all active sessions for the authenticated user.',
+    description:
+      'Retrieves all active sessions for the authenticated user, with device, IP and last use. `current` marks this session.',
   })
   async getActiveSessions(@Req() req: Request) {
-    return this.authService.getUserActiveSessions(req?.user?._id as string);
+    return this.authService.getUserActiveSessions(req?.user?.userId as string, req?.user?.sessionId);
+  }
+
+  @Delete('sessions/:id')
+  @ApiBearerAuth('access-token')
+  @ApiOperation({
+    summary: 'Revoke a session',
+    description: 'Signs the session out on its device. Its refresh and access tokens stop working immediately.',
+  })
+  @ApiParam({ name: 'id', description: 'Session ID from the session list' })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  async revokeSession(@Req() req: Request, @Param('id') id: string) {
+    return this.authService.revokeSession(req?.user?.userId as string, id);
+  }
+
+  @Post('sessions/revoke-all')
+  @ApiBearerAuth('access-token')
+  @ApiBody({ type: RevokeSessionsDto })
+  @ApiOperation({
+    summary: 'Sign out everywhere',
+    description: 'Revokes all sessions of the authenticated user, optionally keeping the current one.',
+  })
+  async revokeAllSessions(@Req() req: Request, @Body() body: RevokeSessionsDto) {
+    return this.authService.revokeAllSessions(req?.user?.userId as string, body?.keepCurrent ? req?.user?.sessionId : undefined);
+  }
+
+  @Post('2fa/setup')
+  @ApiBearerAuth('access-token')
+  @ApiOperation({
+    summary: 'Set up two-factor authentication',
+    description: 'Returns a new secret and its otpauth:// URI to show as a QR code. Enable it with a code from the app.',
+  })
+  async setupTwoFactor(@Req() req: Request) {
+    return this.twoFactorService.setup(req?.user?.userId as string);
+  }
+
+  @Post('2fa/enable')
+  @ApiBearerAuth('access-token')
+  @ApiBody({ type: TwoFactorCodeDto })
+  @ApiOperation({
+    summary: 'Enable two-factor authentication',
+    description: 'Verifies a code of the secret from setup and returns one-time backup codes, shown only once.',
+  })
+  async enableTwoFactor(@Req() req: Request, @Body() body: TwoFactorCodeDto) {
+    return this.twoFactorService.enable(req?.user?.userId as string, body.code);
+  }
+
+  @Post('2fa/disable')
+  @ApiBearerAuth('access-token')
+  @ApiBody({ type: TwoFactorCodeDto })
+  @ApiOperation({
+    summary: 'Disable two-factor authentication',
+    description: 'Requires a current code or a backup code. Not allowed when the role of the user requires it.',
+  })
+  async disableTwoFactor(@Req() req: Request, @Body() body: TwoFactorCodeDto) {
+    return this.twoFactorService.disable(req?.user?.userId as string, body.code);
+  }
+
+  @Post('2fa/backup-codes')
+  @ApiBearerAuth('access-token')
+  @ApiBody({ type: TwoFactorCodeDto })
+  @ApiOperation({
+    summary: 'Regenerate backup codes',
+    description: 'Replaces all backup codes. Requires a current code or a backup code.',
+  })
+  async regenerateBackupCodes(@Req() req: Request, @Body() body: TwoFactorCodeDto) {
+    return this.twoFactorService.regenerateBackupCodes(req?.user?.userId as string, body.code);
+  }
+
+  @Post('verify-email/send')
+  @ApiBearerAuth('access-token')
+  @ApiOperation({
+    summary: 'Send email verification OTP',
+    description: 'Sends an OTP to the current email address of the authenticated user.',
+  })
+  @ApiResponse({ status: 429, description: 'An OTP was sent recently, retry later' })
+  async sendEmailVerificationOtp(@Req() req: Request) {
+    return this.authService.sendContactVerificationOtp(req?.user?.userId as string, 'email', req.headers['user-agent']);
+  }
+
+  @Post('verify-email')
+  @ApiBearerAuth('access-token')
+  @ApiBody({ type: ContactOtpDto })
+  @ApiOperation({
+    summary: 'Verify email address',
+    description: 'Marks the current email address as verified with the OTP sent to it.',
+  })
+  async verifyEmail(@Req() req: Request, @Body() body: ContactOtpDto) {
+    return this.authService.verifyContact(req?.user?.userId as string, 'email', body.otp, req.ip);
+  }
+
+  @Post('change-email')
+  @ApiBearerAuth('access-token')
+  @ApiBody({ type: ChangeEmailDto })
+  @ApiOperation({
+    summary: 'Change email address',
+    description: 'Sends an OTP to the new email address. The current one stays in use until the change is confirmed.',
+  })
+  @ApiResponse({ status: 429, description: 'An OTP was sent recently, retry later' })
+  async changeEmail(@Req() req: Request, @Body() body: ChangeEmailDto) {
+    return this.authService.requestContactChange(req?.user?.userId as string, 'email', body.email, req.headers['user-agent']);
+  }
+
+  @Post('change-email/confirm')
+  @ApiBearerAuth('access-token')
+  @ApiBody({ type: ContactOtpDto })
+  @ApiOperation({
+    summary: 'Confirm email address change',
+    description: 'Replaces the email address with the new, now verified, one and notifies the previous email address.',
+  })
+  async confirmEmailChange(@Req() req: Request, @Body() body: ContactOtpDto) {
+    return this.authService.confirmContactChange(req?.user?.userId as string, 'email', body.otp, req.ip);
+  }
+
+  @Post('verify-phone/send')
+  @ApiBearerAuth('access-token')
+  @ApiOperation({
+    summary: 'Send phone verification OTP',
+    description: 'Sends an OTP to the current phone number of the authenticated user.',
+  })
+  @ApiResponse({ status: 429, description: 'An OTP was sent recently, retry later' })
+  async sendPhoneVerificationOtp(@Req() req: Request) {
+    return this.authService.sendContactVerificationOtp(req?.user?.userId as string, 'phone', req.headers['user-agent']);
+  }
+
+  @Post('verify-phone')
+  @ApiBearerAuth('access-token')
+  @ApiBody({ type: ContactOtpDto })
+  @ApiOperation({
+    summary: 'Verify phone number',
+    description: 'Marks the current phone number as verified with the OTP sent to it.',
+  })
+  async verifyPhone(@Req() req: Request, @Body() body: ContactOtpDto) {
+    return this.authService.verifyContact(req?.user?.userId as string, 'phone', body.otp, req.ip);
+  }
+
+  @Post('change-phone')
+  @ApiBearerAuth('access-token')
+  @ApiBody({ type: ChangePhoneDto })
+  @ApiOperation({
+    summary: 'Change phone number',
+    description: 'Sends an OTP to the new phone number. The current one stays in use until the change is confirmed.',
+  })
+  @ApiResponse({ status: 429, description: 'An OTP was sent recently, retry later' })
+  async changePhone(@Req() req: Request, @Body() body: ChangePhoneDto) {
+    return this.authService.requestContactChange(
+      req?.user?.userId as string,
+      'phone',
+      body.phoneNumber,
+      req.headers['user-agent'],
+    );
+  }
+
+  @Post('change-phone/confirm')
+  @ApiBearerAuth('access-token')
+  @ApiBody({ type: ContactOtpDto })
+  @ApiOperation({
+    summary: 'Confirm phone number change',
+    description: 'Replaces the phone number with the new, now verified, one and notifies the previous phone number.',
+  })
+  async confirmPhoneChange(@Req() req: Request, @Body() body: ContactOtpDto) {
+    return this.authService.confirmContactChange(req?.user?.userId as string, 'phone', body.otp, req.ip);
   }
 
   @Get('logout')
   @ApiBearerAuth('access-token')
   @ApiOperation({
     summary: 'Logout',
-    description: 'Revokes refresh token and logs the user out.',
+    description: 'Revokes the current session (refresh token cookie or access token) and logs the user out.',
   })
   async logout(@Req() req: Request) {
     const refreshToken = req.cookies?.refresh_token;
-    return this.authService.logout(refreshToken);
+    return this.authService.logout(refreshToken, req?.user?.sessionId);
   }
 
   // ──────────────── Admin-Specific Endpoints ────────────────
@@ -146,4 +381,43 @@ export class AuthController {
   async sendCredentialsToInfluencer(@Param('userId') userId: string) {
     return this.authService.sendCredentialsToInfluencer(userId);
   }
+
+  @Post('admin/users/:userId/unlock')
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth('access-token')
+  @ApiOperation({
+    summary: 'Unlock an account',
+    description: 'ADMIN ONLY: Clears the failed sign in and OTP attempts of a user and lifts a temporary lockout.',
+  })
+  async unlockAccount(@Param('userId') userId: string) {
+    return this.loginAttemptService.unlockAccount(userId);
+  }
+
+  @Get('admin/2fa-policy')
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth('access-token')
+  @ApiOperation({
+    summary: 'Get two-factor requirements',
+    description: 'ADMIN ONLY: Lists for every role whether two-factor authentication is required.',
+  })
+  async getTwoFactorRequirements() {
+    return this.twoFactorService.getRequirements();
+  }
+
+  @Put('admin/2fa-policy/:role')
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth('access-token')
+  @ApiParam({ name: 'role', enum: UserRole })
+  @ApiBody({ type: SetTwoFactorRequirementDto })
+  @ApiOperation({
+    summary: 'Require two-factor authentication for a role',
+    description: 'ADMIN ONLY: Users of the role without two-factor authentication have to enrol on their next sign in.',
+  })
+  async setTwoFactorRequirement(
+    @Req() req: Request,
+    @Param('role', new ParseEnumPipe(UserRole)) role: UserRole,
+    @Body() body: SetTwoFactorRequirementDto,
+  ) {
+    return this.twoFactorService.setRequirement(role, body.required, req?.user?.userId as string);
+  }
 }
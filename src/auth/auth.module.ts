@@ -10,6 +10,10 @@ import { UserService } from 'src/user/user.service';
 import { RefreshToken, RefreshTokenSchema } from './schemas/refresh-token.schema';
 import { OptSchema, Otp } from './schemas/otp.schema';
 import { GoogleAuthService } from './google-auth/google-auth.service';
+import { TwoFactorRequirement, TwoFactorRequirementSchema } from './schemas/two-factor-requirement.schema';
+import { TwoFactorService } from './two-factor/two-factor.service';
+import { LoginAttempt, LoginAttemptSchema } from './schemas/login-attempt.schema';
+import { LoginAttemptService } from './login-attempt/login-attempt.service';
 
 @Module({
   imports: [
@@ -17,6 +21,8 @@ import { GoogleAuthService } from './google-auth/google-auth.service';
     MongooseModule.forFeature([{ name: User.name, schema: UserSchema }]),
     MongooseModule.forFeature([{ name: RefreshToken.name, schema: RefreshTokenSchema }]),
     MongooseModule.forFeature([{ name: Otp.name, schema: OptSchema }]),
+    MongooseModule.forFeature([{ name: TwoFactorRequirement.name, schema: TwoFactorRequirementSchema }]),
+    MongooseModule.forFeature([{ name: LoginAttempt.name, schema: LoginAttemptSchema }]),
   ],
   controllers: [AuthController],
   providers: [
@@ -42,6 +48,8 @@ import { GoogleAuthService } from './google-auth/google-auth.service';
       },
     },
     GoogleAuthService,
+    TwoFactorService,
+    LoginAttemptService,
   ],
   exports: [AuthService],
 })
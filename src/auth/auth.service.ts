@@ -1,4 +1,14 @@
-import { BadRequestException, Inject, Injectable, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { createHash, randomInt, randomUUID } from 'crypto';
 import { User, UserRole } from 'src/user/schemas/user.schema';
 import * as bcrypt from 'bcryptjs';
 import { JwtService } from '@nestjs/jwt';
@@ -10,13 +20,65 @@ import { SmsService } from 'src/notification/sms/sms.service';
 import { EmailService } from 'src/notification/email/email.service';
 import { Response } from 'express';
 import { RefreshToken, RefreshTokenDocument } from './schemas/refresh-token.schema';
-import { Model, Types } from 'mongoose';
+import { isValidObjectId, Model, Types } from 'mongoose';
 import { InjectModel } from '@nestjs/mongoose';
 import { Otp, OtpDocument, OtpType } from './schemas/otp.schema';
 import { GoogleAuthService } from './google-auth/google-auth.service';
+import { parseUserAgent } from './user-agent.utils';
+import { TwoFactorService } from './two-factor/two-factor.service';
+import { LoginAttemptService } from './login-attempt/login-attempt.service';
+import { OTP_MAX_ATTEMPTS, otpResendCooldown } from './login-attempt/lockout.utils';
+
+const REFRESH_TOKEN_TTL_MS = 1000 * 60 * 60 * 24 * 365;
+
+const OTP_TTL_MS = 10 * 60 * 1000;
+
+// How often requests update the last use of their session
+const SESSION_TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+// Refresh tokens are stored as their SHA-256, like a password they are only compared
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+interface RefreshTokenOptions {
+  userAgent?: string;
+  ipAddress?: string;
+  deviceInfo?: string;
+}
+
+// Returned by sign in instead of tokens while the second factor is outstanding
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  // The user has to enrol first, with the challenge setup and enable endpoints
+  twoFactorSetupRequired: boolean;
+  challengeToken: string;
+  userId: string;
+}
+
+const TWO_FACTOR_CHALLENGE_AUDIENCE = 'two-factor';
+
+export type ContactChannel = 'email' | 'phone';
+
+const CONTACT_CHANNELS = {
+  email: {
+    field: 'email',
+    verifiedField: 'emailVerified',
+    verifyOtpType: OtpType.VERIFY_EMAIL,
+    changeOtpType: OtpType.CHANGE_EMAIL,
+    label: 'email address',
+  },
+  phone: {
+    field: 'phoneNumber',
+    verifiedField: 'phoneVerified',
+    verifyOtpType: OtpType.VERIFY_PHONE,
+    changeOtpType: OtpType.CHANGE_PHONE,
+    label: 'phone number',
+  },
+} as const;
 
 @Injectable()
 export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+
   constructor(
     @Inject('JWT_ACCESS_SERVICE') private readonly jwtAccessService: JwtService,
     @Inject('JWT_REFRESH_SERVICE') private readonly jwtRefreshService: JwtService,
@@ -24,6 +86,8 @@ export class AuthService {
     private readonly smsService: SmsService,
     private readonly emailService: EmailService,
     private readonly googleAuthService: GoogleAuthService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly loginAttemptService: LoginAttemptService,
     @InjectModel(RefreshToken.name) private readonly refreshTokenModel: Model<RefreshTokenDocument>,
     @InjectModel(Otp.name) private readonly otpModel: Model<OtpDocument>,
   ) {}
@@ -46,38 +110,153 @@ export class AuthService {
     return await bcrypt.hash(password, 10);
   }
 
-  async generateJwtAccessToken(user: User) {
-    return this.jwtAccessService.sign({ sub: user._id, role: user.role, email: user.email });
+  // The session id (the refresh token family) lets revoked sessions be rejected before the token expires
+  async generateJwtAccessToken(user: User, sessionId?: string) {
+    return this.jwtAccessService.sign({ sub: user._id, role: user.role, email: user.email, sid: sessionId });
+  }
+
+  /**
+   * Starts a session: a refresh token of a new family, an access token bound to it and the refresh token cookie
+   */
+  private async issueSessionTokens(user: User, res: Response, options?: RefreshTokenOptions) {
+    const { token: refreshToken, storedToken } = await this.issueRefreshToken(user, options);
+    const accessToken = await this.generateJwtAccessToken(user, storedToken.familyId);
+    this.setRefreshTokenCookie(res, refreshToken);
+    return { accessToken, refreshToken };
+  }
+
+  /**
+   * Starts a session unless the user has two-factor authentication on, or has to enrol in it:
+   * then a short-lived challenge token is returned instead, to be completed with a second factor.
+   */
+  private async startSession(
+    user: User,
+    res: Response,
+    options?: RefreshTokenOptions,
+  ): Promise<{ accessToken: string; refreshToken: string } | TwoFactorChallenge> {
+    const setupRequired = !user.twoFactorEnabled && (await this.twoFactorService.isRequiredFor(user.role));
+    if (!user.twoFactorEnabled && !setupRequired) return this.issueSessionTokens(user, res, options);
+
+    const challengeToken = await this.jwtRefreshService.signAsync(
+      { sub: user._id, purpose: 'two-factor' },
+      { expiresIn: '5m', audience: TWO_FACTOR_CHALLENGE_AUDIENCE },
+    );
+    return { twoFactorRequired: true, twoFactorSetupRequired: setupRequired, challengeToken, userId: String(user._id) };
   }
 
-  async generateJwtRefreshToken(user: User, options?: { userAgent?: string; ipAddress?: string; deviceInfo?: string }) {
-    const token = await this.jwtRefreshService.sign({ sub: user._id, role: user.role, email: user.email });
-    this.refreshTokenModel.create({
-      token,
-      expiresAt: new Date(Date.now() + 1000 * 60 * 60 * 24 * 365),
+  private async verifyTwoFactorChallenge(challengeToken: string) {
+    try {
+      const payload = await this.jwtRefreshService.verifyAsync<{ sub: string }>(challengeToken, {
+        audience: TWO_FACTOR_CHALLENGE_AUDIENCE,
+      });
+      const user = await this.userService.getUserByIdSudo(payload.sub);
+      if (!user) throw new Error('User not found');
+      return user;
+    } catch {
+      throw new UnauthorizedException('Invalid or expired two-factor challenge');
+    }
+  }
+
+  /**
+   * Issues a refresh token. Without a family it starts a new session, with one it continues a rotated session.
+   */
+  private async issueRefreshToken(user: User, options?: RefreshTokenOptions & { familyId?: string; sessionStartedAt?: Date }) {
+    // The unique id keeps tokens issued within the same second apart
+    const token = await this.jwtRefreshService.sign(
+      { sub: user._id, role: user.role, email: user.email },
+      { jwtid: randomUUID() },
+    );
+    const storedToken = await this.refreshTokenModel.create({
+      token: hashToken(token),
+      familyId: options?.familyId || randomUUID(),
+      sessionStartedAt: options?.sessionStartedAt || new Date(),
+      lastUsedAt: new Date(),
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
       userId: user._id,
-      deviceInfo: options?.userAgent,
+      deviceInfo: options?.deviceInfo || options?.userAgent,
       ipAddress: options?.ipAddress,
       userAgent: options?.userAgent,
     });
-    return token;
+    return { token, storedToken };
+  }
+
+  // Tokens issued before they were hashed are still found by their plain value until they are rotated
+  private async findRefreshToken(token: string) {
+    return this.refreshTokenModel.findOne({ token: { $in: [hashToken(token), token] } });
   }
 
-  async generateOtp(userId: string, options?: { userAgent?: string; ipAddress?: string; otpType: OtpType }): Promise<string> {
-    const otp = Math.floor(100000 + Math.random() * 900000).toString();
+  async generateOtp(
+    userId: string,
+    options?: { userAgent?: string; ipAddress?: string; otpType: OtpType; target?: string },
+  ): Promise<string> {
+    const otp = randomInt(100000, 1000000).toString();
     const otpHash = await bcrypt.hash(otp, 10);
-    const expiresAt = new Date(Date.now() + 10 * 60 * 1000);
-    this.otpModel.create({
+    const expiresAt = new Date(Date.now() + OTP_TTL_MS);
+    await this.otpModel.create({
       otp: otpHash,
       otpType: options?.otpType,
       expiresAt,
       userId: new Types.ObjectId(userId),
+      target: options?.target,
       userAgent: options?.userAgent,
       ipAddress: options?.ipAddress,
     });
     return otp;
   }
 
+  // Milliseconds until another OTP of the type may be sent, growing with every OTP sent while the earlier ones are still valid
+  private async getOtpResendDelay(userId: Types.ObjectId | string, otpType: OtpType): Promise<number> {
+    const recent = await this.otpModel
+      .find({ userId: new Types.ObjectId(userId), otpType, expiresAt: { $gt: new Date() } }, { createdAt: 1 })
+      .sort({ _id: -1 })
+      .lean<{ createdAt: Date }[]>();
+    if (!recent.length) return 0;
+    return Math.max(0, recent[0].createdAt.getTime() + otpResendCooldown(recent.length) - Date.now());
+  }
+
+  private async assertOtpResendAllowed(userId: Types.ObjectId | string, otpType: OtpType): Promise<void> {
+    const resendDelay = await this.getOtpResendDelay(userId, otpType);
+    if (!resendDelay) return;
+
+    const retryAfter = Math.ceil(resendDelay / 1000);
+    throw new HttpException(
+      { message: `An OTP was sent recently - request a new one in ${retryAfter} seconds`, retryAfter },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+
+  /**
+   * Checks a code against the latest OTP of the type. Every wrong code counts as a failed attempt of the
+   * account and the address, and an OTP is invalidated after too many wrong codes.
+   */
+  private async verifyOtpCode(
+    userId: Types.ObjectId | string,
+    otpType: OtpType,
+    code: string,
+    ipAddress?: string,
+  ): Promise<OtpDocument> {
+    const targets = this.loginAttemptService.targets(userId, ipAddress);
+    await this.loginAttemptService.assertNotLocked(targets);
+
+    const otpData = await this.otpModel.findOne({ userId: new Types.ObjectId(userId), otpType }).sort({ _id: -1 });
+    const valid =
+      !!otpData &&
+      otpData.expiresAt > new Date() &&
+      (otpData.attempts ?? 0) < OTP_MAX_ATTEMPTS &&
+      (await bcrypt.compare(code, otpData.otp));
+    if (valid) return otpData;
+
+    await this.loginAttemptService.recordFailure(targets);
+    if (otpData) {
+      const attempted = await this.otpModel.findByIdAndUpdate(otpData._id, { $inc: { attempts: 1 } }, { new: true });
+      if ((attempted?.attempts ?? 0) >= OTP_MAX_ATTEMPTS) {
+        await this.otpModel.deleteOne({ _id: otpData._id });
+        throw new UnauthorizedException('Too many wrong OTPs - request a new OTP');
+      }
+    }
+    throw new UnauthorizedException('Invalid OTP or OTP expired');
+  }
+
   async verifyJwtAccessToken(token: string) {
     try {
       const payload = await this.jwtAccessService.verify(token);
@@ -123,39 +302,41 @@ export class AuthService {
       await this.userService.updateUser(userInDb?._id as string, { googleId: userInDb?.googleId });
     }
 
-    const accessToken = await this.generateJwtAccessToken(userInDb);
-    const refreshToken = await this.generateJwtRefreshToken(userInDb, { userAgent });
-
-    this.setRefreshTokenCookie(res, refreshToken);
+    const session = await this.startSession(userInDb, res, { userAgent });
 
     delete userInDb.password;
     delete userInDb.meta;
 
-    return { ...userInDb, accessToken, refreshToken };
+    if ('challengeToken' in session) return session;
+
+    return { ...userInDb, ...session };
   }
 
-  async signIn(credentials: SigninDto, res: Response, userAgent?: string) {
+  async signIn(credentials: SigninDto, res: Response, userAgent?: string, clientIp?: string) {
     if (!credentials?.password || !credentials?.username) {
       throw new BadRequestException('Missing credentials');
     }
 
     const user = await this.userService.getUserByEmailOrPhoneSudo(credentials.username);
 
-    if (!user || !user.password) {
-      throw new UnauthorizedException('Invalid credentials');
-    }
+    const attemptTargets = this.loginAttemptService.targets(user?._id, clientIp);
+    await this.loginAttemptService.assertNotLocked(attemptTargets);
 
-    if (!(await this.comparePassword(credentials.password, user.password))) {
+    if (!user || !user.password || !(await this.comparePassword(credentials.password, user.password))) {
+      await this.loginAttemptService.recordFailure(attemptTargets);
       throw new UnauthorizedException('Invalid credentials');
     }
 
     if (user?.role == UserRole.USER && !user?.meta?.isVerified) {
-      const otp = await this.generateOtp(user?._id as string, { userAgent, otpType: OtpType.VERIFY_ACCOUNT });
+      // An OTP sent moments ago is still valid, signing in again must not send another one
+      if (!(await this.getOtpResendDelay(user._id!, OtpType.VERIFY_ACCOUNT))) {
+        const otp = await this.generateOtp(user?._id as string, { userAgent, otpType: OtpType.VERIFY_ACCOUNT });
 
-      await this.userService.updateUser(user?._id + '', { meta: { welcomeMailWithPasswordSent: true } });
+        await this.userService.updateUser(user?._id + '', { meta: { welcomeMailWithPasswordSent: true } });
 
-      if (user?.phoneNumber) await this.smsService.sendOtp(user.phoneNumber!, otp);
-      if (user?.email) await this.emailService.sendOtp(user?.email!, otp);
+        if (user?.phoneNumber) await this.smsService.sendOtp(user.phoneNumber!, otp);
+        if (user?.email) await this.emailService.sendOtp(user?.email!, otp);
+      }
 
       throw new UnauthorizedException({
         error: true,
@@ -171,16 +352,18 @@ export class AuthService {
       throw new Error('User ID is undefined');
     }
 
-    const accessToken = await this.generateJwtAccessToken(user);
-    const refreshToken = await this.generateJwtRefreshToken(user, {
+    const session = await this.startSession(user, res, {
       userAgent,
       ipAddress: credentials.ipAddress,
       deviceInfo: credentials.deviceInfo,
     });
 
-    this.setRefreshTokenCookie(res, refreshToken);
+    if ('challengeToken' in session) return session;
 
-    return { ...user, accessToken, refreshToken };
+    // Only a complete sign in resets the account, the password alone must not reset failed two-factor codes
+    await this.loginAttemptService.clearAccount(user._id);
+
+    return { ...user, ...session };
   }
 
   async signUp(reqData: SignupUserDto, res: Response, userAgent?: string) {
@@ -243,19 +426,18 @@ export class AuthService {
       throw new Error('User ID is undefined');
     }
 
-    const accessToken = await this.generateJwtAccessToken(newUser);
-    const refreshToken = await this.generateJwtRefreshToken(newUser, {
+    const session = await this.startSession(newUser, res, {
       userAgent,
       ipAddress: reqData?.ipAddress,
       deviceInfo: reqData?.deviceInfo,
     });
 
-    this.setRefreshTokenCookie(res, refreshToken);
+    if ('challengeToken' in session) return session;
 
-    return { ...newUser, accessToken, refreshToken };
+    return { ...newUser, ...session };
   }
 
-  async verifyOtp(userId: string, reqData: VerifyOtpDto, res: Response, userAgent?: string) {
+  async verifyOtp(userId: string, reqData: VerifyOtpDto, res: Response, userAgent?: string, clientIp?: string) {
     const otp = reqData?.otp;
 
     if (!otp) throw new BadRequestException('Otp is required');
@@ -266,41 +448,50 @@ export class AuthService {
 
     if (userData?.meta?.isVerified) throw new UnauthorizedException('User already verified');
 
-    const optData = await this.otpModel.findOne({ userId: userData?._id, otpType: OtpType.VERIFY_ACCOUNT })?.sort({ _id: -1 });
+    await this.verifyOtpCode(userData._id!, OtpType.VERIFY_ACCOUNT, otp, clientIp);
+    await this.loginAttemptService.clearAccount(userData._id!);
 
-    const otpMatched = await bcrypt.compare(otp, optData?.otp + '');
+    const verifiedUser = await this.userService.updateUser(userId, { meta: { isVerified: true } });
 
-    if (!otpMatched || new Date(optData?.expiresAt as Date) < new Date()) {
-      throw new UnauthorizedException('Invalid Otp or Otp expired');
+    // The OTP went to every address of the account, so it only proves which one was used when there is just one
+    if (!userData.email !== !userData.phoneNumber) {
+      await this.userService.updateUserSudo(userId, userData.email ? { emailVerified: true } : { phoneVerified: true });
     }
 
-    const verifiedUser = await this.userService.updateUser(userId, { meta: { isVerified: true } });
-
     if (!userData._id) {
       throw new Error('User ID is undefined');
     }
 
-    await this.otpModel.deleteOne({ userId: userData?._id, otp });
+    await this.otpModel.deleteMany({ userId: userData?._id, otpType: OtpType.VERIFY_ACCOUNT });
 
-    const accessToken = await this.generateJwtAccessToken(userData);
-    const refreshToken = await this.generateJwtRefreshToken(userData, {
+    const session = await this.startSession(userData, res, {
       userAgent,
       ipAddress: reqData?.ipAddress,
       deviceInfo: reqData?.deviceInfo,
     });
 
-    this.setRefreshTokenCookie(res, refreshToken);
+    if ('challengeToken' in session) return session;
 
-    return { ...verifiedUser, accessToken, refreshToken };
+    return { ...verifiedUser, ...session };
   }
 
-  async forgetPasswordSendOtp(data: { userAgent: string; username: string }) {
+  async forgetPasswordSendOtp(data: { userAgent: string; username: string; clientIp?: string }) {
+    const ipTargets = this.loginAttemptService.targets(undefined, data?.clientIp);
+    await this.loginAttemptService.assertNotLocked(ipTargets);
+
     const userData = await this.userService.getUserByEmailOrPhone(data?.username!);
 
-    if (!userData) throw new NotFoundException('User not found');
+    if (!userData) {
+      // Probing for accounts counts against the address
+      await this.loginAttemptService.recordFailure(ipTargets);
+      throw new NotFoundException('User not found');
+    }
+
+    await this.assertOtpResendAllowed(userData._id!, OtpType.RESET_PASSWORD);
 
     const otp = await this.generateOtp(userData?._id?.toString?.()!, {
       userAgent: data?.userAgent,
+      ipAddress: data?.clientIp,
       otpType: OtpType.RESET_PASSWORD,
     });
 
@@ -340,6 +531,7 @@ export class AuthService {
     userAgent?: string;
     ipAddress?: string;
     deviceInfo?: string;
+    clientIp?: string;
   }) {
     if (!data?.otp) throw new BadRequestException('OTP is required to reset password');
     if (!data?.newPassword) throw new BadRequestException('new Password is required to reset password');
@@ -347,29 +539,153 @@ export class AuthService {
     const userData = await this.userService.getUserById(data?.userId);
     if (!userData) throw new NotFoundException('User not found');
 
-    const optData = await this.otpModel.findOne({ userId: userData?._id, otpType: OtpType.RESET_PASSWORD })?.sort({ _id: -1 });
+    const optData = await this.otpModel.exists({ userId: userData?._id, otpType: OtpType.RESET_PASSWORD });
     if (!optData) throw new BadRequestException('Missing OTP - Invalid request');
 
-    const otpMatched = await bcrypt.compare(data?.otp, optData?.otp + '');
-    if (!otpMatched || new Date(optData?.expiresAt as Date) < new Date()) {
-      throw new UnauthorizedException('Invalid OTP or OTP expired');
-    }
+    await this.verifyOtpCode(userData._id!, OtpType.RESET_PASSWORD, data.otp, data?.clientIp);
+    await this.loginAttemptService.clearAccount(userData._id!);
 
     await this.otpModel.deleteMany({ userId: userData?._id, otpType: OtpType.RESET_PASSWORD });
 
     const newHashedPassword = await this.createPasswordHash(data?.newPassword);
     await this.userService.updateUserSudo(userData?._id + '', { password: newHashedPassword });
 
-    const accessToken = await this.generateJwtAccessToken(userData as User);
-    const refreshToken = await this.generateJwtRefreshToken(userData as User, {
+    const session = await this.startSession(userData as User, data?.res, {
       userAgent: data?.userAgent,
       ipAddress: data?.ipAddress,
       deviceInfo: data?.deviceInfo,
     });
 
-    this.setRefreshTokenCookie(data?.res, refreshToken);
+    if ('challengeToken' in session) return session;
+
+    return { ...userData, ...session };
+  }
+
+  // Second step of sign in for users with two-factor authentication on
+  async completeTwoFactorSignIn(challengeToken: string, code: string, res: Response, options?: RefreshTokenOptions) {
+    const user = await this.verifyTwoFactorChallenge(challengeToken);
+    if (!user.twoFactorEnabled) throw new BadRequestException('Two-factor authentication is not enabled');
+
+    const attemptTargets = this.loginAttemptService.targets(user._id, options?.ipAddress);
+    await this.loginAttemptService.assertNotLocked(attemptTargets);
+    try {
+      await this.twoFactorService.verifyCode(String(user._id), code);
+    } catch (error) {
+      if (error instanceof UnauthorizedException) await this.loginAttemptService.recordFailure(attemptTargets);
+      throw error;
+    }
+    await this.loginAttemptService.clearAccount(user._id!);
+
+    const { accessToken, refreshToken } = await this.issueSessionTokens(user, res, options);
 
-    return { ...userData, accessToken, refreshToken };
+    delete user.password;
+    delete user.meta;
+
+    return { ...user, accessToken, refreshToken };
+  }
+
+  // Enrolment during sign in, for users whose role requires two-factor authentication
+  async setupTwoFactorWithChallenge(challengeToken: string) {
+    const user = await this.verifyTwoFactorChallenge(challengeToken);
+    return this.twoFactorService.setup(String(user._id));
+  }
+
+  async enableTwoFactorWithChallenge(challengeToken: string, code: string, res: Response, options?: RefreshTokenOptions) {
+    const user = await this.verifyTwoFactorChallenge(challengeToken);
+    const { backupCodes } = await this.twoFactorService.enable(String(user._id), code);
+
+    const { accessToken, refreshToken } = await this.issueSessionTokens(user, res, options);
+
+    delete user.password;
+    delete user.meta;
+
+    return { ...user, twoFactorEnabled: true, backupCodes, accessToken, refreshToken };
+  }
+
+  // Contact verification
+
+  private async sendOtpToContact(channel: ContactChannel, address: string, otp: string) {
+    const sent = channel == 'email' ? await this.emailService.sendOtp(address, otp) : await this.smsService.sendOtp(address, otp);
+    if (!sent) throw new BadRequestException(channel == 'email' ? 'Failed to send EMAIL OTP' : 'Failed to send SMS OTP');
+  }
+
+  async sendContactVerificationOtp(userId: string, channel: ContactChannel, userAgent?: string) {
+    const { field, verifiedField, verifyOtpType, label } = CONTACT_CHANNELS[channel];
+    const user = await this.userService.getUserByIdSudo(userId);
+    if (!user) throw new NotFoundException('User not found');
+
+    const address = user[field];
+    if (!address) throw new BadRequestException(`No ${label} to verify`);
+    if (user[verifiedField]) throw new BadRequestException(`The ${label} is already verified`);
+
+    await this.assertOtpResendAllowed(user._id!, verifyOtpType);
+    const otp = await this.generateOtp(userId, { userAgent, otpType: verifyOtpType, target: address });
+    await this.sendOtpToContact(channel, address, otp);
+
+    return { success: true, message: `A OTP has been send to your ${label}` };
+  }
+
+  async verifyContact(userId: string, channel: ContactChannel, otp: string, clientIp?: string) {
+    const { field, verifiedField, verifyOtpType, label } = CONTACT_CHANNELS[channel];
+    const user = await this.userService.getUserByIdSudo(userId);
+    if (!user) throw new NotFoundException('User not found');
+
+    const otpData = await this.verifyOtpCode(user._id!, verifyOtpType, otp, clientIp);
+    // The address may have changed since the OTP was sent
+    if (!user[field] || otpData.target !== user[field]) throw new BadRequestException('Invalid OTP or OTP expired');
+
+    await this.otpModel.deleteMany({ userId: user._id, otpType: verifyOtpType });
+    await this.userService.updateUserSudo(userId, { [verifiedField]: true, meta: { ...user.meta, isVerified: true } });
+
+    return { success: true, message: `The ${label} is verified` };
+  }
+
+  /**
+   * Starts a change of the email address or phone number: the OTP goes to the new address,
+   * which only replaces the current one once the OTP is confirmed
+   */
+  async requestContactChange(userId: string, channel: ContactChannel, newAddress: string, userAgent?: string) {
+    const { field, changeOtpType, label } = CONTACT_CHANNELS[channel];
+    const address = channel == 'email' ? newAddress?.trim().toLowerCase() : newAddress?.trim();
+    if (!address) throw new BadRequestException(`New ${label} is required`);
+
+    const user = await this.userService.getUserByIdSudo(userId);
+    if (!user) throw new NotFoundException('User not found');
+    if (user[field] == address) throw new BadRequestException(`This is already your ${label}`);
+
+    const existingUser = await this.userService.getUserByEmailOrPhoneSudo(address);
+    if (existingUser) throw new BadRequestException(`Can't use this ${label}`);
+
+    await this.assertOtpResendAllowed(user._id!, changeOtpType);
+    const otp = await this.generateOtp(userId, { userAgent, otpType: changeOtpType, target: address });
+    await this.sendOtpToContact(channel, address, otp);
+
+    return { success: true, message: `A OTP has been send to the new ${label}` };
+  }
+
+  async confirmContactChange(userId: string, channel: ContactChannel, otp: string, clientIp?: string) {
+    const { field, verifiedField, changeOtpType, label } = CONTACT_CHANNELS[channel];
+    const user = await this.userService.getUserByIdSudo(userId);
+    if (!user) throw new NotFoundException('User not found');
+
+    const otpData = await this.verifyOtpCode(user._id!, changeOtpType, otp, clientIp);
+    const newAddress = otpData.target;
+    if (!newAddress) throw new BadRequestException('Invalid OTP or OTP expired');
+
+    // Another account may have taken the address while the OTP was pending
+    const existingUser = await this.userService.getUserByEmailOrPhoneSudo(newAddress);
+    if (existingUser && String(existingUser._id) != String(user._id)) throw new BadRequestException(`Can't use this ${label}`);
+
+    await this.otpModel.deleteMany({ userId: user._id, otpType: changeOtpType });
+    await this.userService.updateUserSudo(userId, { [field]: newAddress, [verifiedField]: true });
+
+    const previousAddress = user[field];
+    if (previousAddress) {
+      if (channel == 'email') await this.emailService.sendContactChangedEmail(previousAddress, label);
+      else await this.smsService.sendContactChangedSms(previousAddress, label);
+    }
+
+    return { success: true, data: { [field]: newAddress }, message: `The ${label} is changed` };
   }
 
   async sendCredentialsToInfluencer(userId: string) {
@@ -392,17 +708,26 @@ export class AuthService {
     return { success: true, message: 'Credentials sent successfully' };
   }
 
-  async generateAccessTokenFromRefreshToken(refreshToken: string) {
+  /**
+   * Exchanges a refresh token for a new access token and a new refresh token of the same family.
+   * The used token is revoked; presenting a revoked token again means it leaked, so the whole
+   * family is revoked and flagged as compromised.
+   */
+  async generateAccessTokenFromRefreshToken(refreshToken: string, res: Response, options?: RefreshTokenOptions) {
     if (!refreshToken) throw new UnauthorizedException('Refresh token is required');
 
     const decodedToken = await this.verifyJwtRefreshToken(refreshToken);
 
     if (!decodedToken) throw new UnauthorizedException('Invalid refresh token');
 
-    const storedToken = await this.refreshTokenModel.findOne({ token: refreshToken });
+    const storedToken = await this.findRefreshToken(refreshToken);
 
     if (!storedToken) throw new UnauthorizedException('Invalid refresh token');
-    if (storedToken.isRevoked) throw new UnauthorizedException('Refresh token has been revoked');
+    const familyId = storedToken.familyId || (storedToken._id as Types.ObjectId).toString();
+    if (storedToken.isRevoked) {
+      await this.revokeCompromisedFamily(storedToken.userId, familyId);
+      throw new UnauthorizedException('Refresh token has been revoked');
+    }
     if (storedToken.expiresAt < new Date()) throw new UnauthorizedException('Refresh token has expired');
 
     const user = await this.userService.getUserByIdSudo(decodedToken?.userId);
@@ -410,28 +735,118 @@ export class AuthService {
     if (!user) throw new UnauthorizedException('User not found');
     if (user?.disabled) throw new UnauthorizedException('Account has been disabled');
 
-    const newAccessToken = await this.generateJwtAccessToken(user);
+    // The new token exists before the used one is revoked, so the session never looks signed out
+    const { token: newRefreshToken, storedToken: replacement } = await this.issueRefreshToken(user, {
+      userAgent: options?.userAgent || storedToken.userAgent,
+      ipAddress: options?.ipAddress || storedToken.ipAddress,
+      deviceInfo: storedToken.deviceInfo,
+      familyId,
+      sessionStartedAt: storedToken.sessionStartedAt || (storedToken.get('createdAt') as Date),
+    });
+
+    // Only one request can rotate a token; a concurrent one is treated like a reuse
+    const rotated = await this.refreshTokenModel.findOneAndUpdate(
+      { _id: storedToken._id, isRevoked: false },
+      { isRevoked: true, revokedAt: new Date(), familyId, replacedBy: replacement._id },
+    );
+    if (!rotated) {
+      await this.revokeCompromisedFamily(storedToken.userId, familyId);
+      throw new UnauthorizedException('Refresh token has been revoked');
+    }
+
+    const newAccessToken = await this.generateJwtAccessToken(user, familyId);
+    this.setRefreshTokenCookie(res, newRefreshToken);
 
     return {
       accessToken: newAccessToken,
+      refreshToken: newRefreshToken,
     };
   }
 
+  private async revokeCompromisedFamily(userId: Types.ObjectId, familyId: string) {
+    const now = new Date();
+    await this.refreshTokenModel.updateMany({ familyId, isRevoked: false }, { isRevoked: true, revokedAt: now });
+    await this.refreshTokenModel.updateMany({ familyId }, { compromisedAt: now });
+    this.logger.warn(`Refresh token reuse detected for user ${userId.toString()}, session ${familyId} revoked`);
+  }
+
+  /**
+   * Whether the session of an access token is still signed in. Also records when and from where
+   * it was last used, at most every few minutes.
+   */
+  async touchSession(sessionId: string, ipAddress?: string): Promise<boolean> {
+    const now = new Date();
+    const active = { familyId: sessionId, isRevoked: false, expiresAt: { $gt: now } };
+    const touched = await this.refreshTokenModel.updateOne(
+      { ...active, lastUsedAt: { $lt: new Date(now.getTime() - SESSION_TOUCH_INTERVAL_MS) } },
+      { lastUsedAt: now, ...(ipAddress ? { ipAddress } : {}) },
+    );
+    return touched.matchedCount > 0 || !!(await this.refreshTokenModel.exists(active));
+  }
+
   // Add method to logout
-  async logout(refreshToken: string) {
-    await this.refreshTokenModel.updateOne({ token: refreshToken }, { isRevoked: true, revokedAt: new Date() });
+  async logout(refreshToken?: string, sessionId?: string) {
+    const storedToken = refreshToken ? await this.findRefreshToken(refreshToken) : null;
+    const familyId = storedToken?.familyId || sessionId;
+    if (familyId) {
+      await this.refreshTokenModel.updateMany({ familyId, isRevoked: false }, { isRevoked: true, revokedAt: new Date() });
+    } else if (storedToken && !storedToken.isRevoked) {
+      await this.refreshTokenModel.updateOne({ _id: storedToken._id }, { isRevoked: true, revokedAt: new Date() });
+    }
     return { success: true, message: 'Logged out successfully' };
   }
 
   // Add method to get user's active sessions
-  async getUserActiveSessions(userId: string) {
-    return await this.refreshTokenModel.find(
+  async getUserActiveSessions(userId: string, currentSessionId?: string) {
+    const tokens = await this.refreshTokenModel
+      .find(
+        {
+          userId: new Types.ObjectId(userId),
+          isRevoked: false,
+          expiresAt: { $gt: new Date() },
+        },
+        { token: 0 },
+      )
+      .sort({ lastUsedAt: -1, createdAt: -1 });
+
+    return tokens.map((token) => ({
+      id: token.familyId || (token._id as Types.ObjectId).toString(),
+      current: !!currentSessionId && token.familyId === currentSessionId,
+      ...parseUserAgent(token.userAgent),
+      userAgent: token.userAgent,
+      deviceInfo: token.deviceInfo,
+      ipAddress: token.ipAddress,
+      signedInAt: token.sessionStartedAt || (token.get('createdAt') as Date),
+      lastUsedAt: token.lastUsedAt || (token.get('createdAt') as Date),
+      expiresAt: token.expiresAt,
+    }));
+  }
+
+  /**
+   * Signs a session out. Its refresh token stops working at once and so do its access tokens.
+   */
+  async revokeSession(userId: string, sessionId: string) {
+    const filter = isValidObjectId(sessionId) ? { $or: [{ familyId: sessionId }, { _id: sessionId }] } : { familyId: sessionId };
+    const result = await this.refreshTokenModel.updateMany(
+      { ...filter, userId: new Types.ObjectId(userId), isRevoked: false },
+      { isRevoked: true, revokedAt: new Date() },
+    );
+    if (!result.modifiedCount) throw new NotFoundException('Session not found');
+    return { success: true, message: 'Session revoked' };
+  }
+
+  /**
+   * Signs out every session of the user, optionally except the one making the request
+   */
+  async revokeAllSessions(userId: string, keepSessionId?: string) {
+    const result = await this.refreshTokenModel.updateMany(
       {
         userId: new Types.ObjectId(userId),
         isRevoked: false,
-        expiresAt: { $gt: new Date() },
+        ...(keepSessionId ? { familyId: { $ne: keepSessionId } } : {}),
       },
-      { token: 0 },
+      { isRevoked: true, revokedAt: new Date() },
     );
+    return { success: true, revokedCount: result.modifiedCount, message: 'Sessions revoked' };
   }
 }
@@ -0,0 +1,22 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEmail, IsNotEmpty, IsString } from 'class-validator';
+
+export class ContactOtpDto {
+  @ApiProperty({ description: 'One-time password (OTP) sent to the address', example: '123456' })
+  @IsString()
+  @IsNotEmpty()
+  otp: string;
+}
+
+export class ChangeEmailDto {
+  @ApiProperty({ description: 'New email address', example: 'new@example.com' })
+  @IsEmail()
+  email: string;
+}
+
+export class ChangePhoneDto {
+  @ApiProperty({ description: 'New phone number with country code', example: '+919999999999' })
+  @IsString()
+  @IsNotEmpty()
+  phoneNumber: string;
+}
@@ -0,0 +1,13 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsOptional } from 'class-validator';
+
+export class RevokeSessionsDto {
+  @ApiPropertyOptional({
+    description: 'Keep the session making this request signed in',
+    example: true,
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  keepCurrent?: boolean;
+}
@@ -0,0 +1,29 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean, IsNotEmpty, IsString } from 'class-validator';
+
+export class TwoFactorCodeDto {
+  @ApiProperty({ description: '6-digit code of the authenticator app, or a backup code', example: '123456' })
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+}
+
+export class TwoFactorChallengeTokenDto {
+  @ApiProperty({ description: 'Challenge token returned by sign in' })
+  @IsString()
+  @IsNotEmpty()
+  challengeToken: string;
+}
+
+export class TwoFactorChallengeDto extends TwoFactorChallengeTokenDto {
+  @ApiProperty({ description: '6-digit code of the authenticator app, or a backup code', example: '123456' })
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+}
+
+export class SetTwoFactorRequirementDto {
+  @ApiProperty({ description: 'Whether users of the role must use two-factor authentication', example: true })
+  @IsBoolean()
+  required: boolean;
+}
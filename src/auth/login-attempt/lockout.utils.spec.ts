@@ -0,0 +1,20 @@
+import { ACCOUNT_LOCKOUT_POLICY, lockoutDuration, otpResendCooldown } from './lockout.utils';
+
+const MINUTE_MS = 60 * 1000;
+
+describe('lockout utils', () => {
+  it('should lock out exponentially after the free attempts', () => {
+    expect(lockoutDuration(4, ACCOUNT_LOCKOUT_POLICY)).toBe(0);
+    expect(lockoutDuration(5, ACCOUNT_LOCKOUT_POLICY)).toBe(MINUTE_MS);
+    expect(lockoutDuration(6, ACCOUNT_LOCKOUT_POLICY)).toBe(2 * MINUTE_MS);
+    expect(lockoutDuration(8, ACCOUNT_LOCKOUT_POLICY)).toBe(8 * MINUTE_MS);
+    expect(lockoutDuration(30, ACCOUNT_LOCKOUT_POLICY)).toBe(60 * MINUTE_MS);
+  });
+
+  it('should double the OTP resend cooldown for every OTP still valid', () => {
+    expect(otpResendCooldown(0)).toBe(0);
+    expect(otpResendCooldown(1)).toBe(MINUTE_MS);
+    expect(otpResendCooldown(3)).toBe(4 * MINUTE_MS);
+    expect(otpResendCooldown(10)).toBe(30 * MINUTE_MS);
+  });
+});
@@ -0,0 +1,34 @@
+export interface LockoutPolicy {
+  // Failures allowed before the first lockout
+  freeAttempts: number;
+  baseLockoutMs: number;
+  maxLockoutMs: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+export const ACCOUNT_LOCKOUT_POLICY: LockoutPolicy = { freeAttempts: 5, baseLockoutMs: MINUTE_MS, maxLockoutMs: 60 * MINUTE_MS };
+
+// Shared networks (offices, mobile carriers) have many users behind one address
+export const IP_LOCKOUT_POLICY: LockoutPolicy = { freeAttempts: 20, baseLockoutMs: MINUTE_MS, maxLockoutMs: 60 * MINUTE_MS };
+
+// Wrong codes a single OTP accepts before it is invalidated
+export const OTP_MAX_ATTEMPTS = 5;
+
+const OTP_RESEND_BASE_COOLDOWN_MS = MINUTE_MS;
+const OTP_RESEND_MAX_COOLDOWN_MS = 30 * MINUTE_MS;
+
+/**
+ * Lockout after the given number of consecutive failures: none within the free attempts,
+ * then doubling with every further failure up to the maximum
+ */
+export function lockoutDuration(failures: number, policy: LockoutPolicy): number {
+  if (failures < policy.freeAttempts) return 0;
+  return Math.min(policy.baseLockoutMs * 2 ** (failures - policy.freeAttempts), policy.maxLockoutMs);
+}
+
+// Wait before another OTP is sent, doubling with every OTP that is still valid
+export function otpResendCooldown(recentlySent: number): number {
+  if (recentlySent <= 0) return 0;
+  return Math.min(OTP_RESEND_BASE_COOLDOWN_MS * 2 ** (recentlySent - 1), OTP_RESEND_MAX_COOLDOWN_MS);
+}
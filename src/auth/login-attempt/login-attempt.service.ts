@@ -0,0 +1,68 @@
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { LoginAttempt, LoginAttemptScope } from '../schemas/login-attempt.schema';
+import { ACCOUNT_LOCKOUT_POLICY, IP_LOCKOUT_POLICY, lockoutDuration } from './lockout.utils';
+
+const FAILURE_MEMORY_MS = 24 * 60 * 60 * 1000;
+
+export interface LoginAttemptTarget {
+  scope: LoginAttemptScope;
+  subject: string;
+}
+
+@Injectable()
+export class LoginAttemptService {
+  private readonly logger = new Logger(LoginAttemptService.name);
+
+  constructor(@InjectModel(LoginAttempt.name) private readonly loginAttemptModel: Model<LoginAttempt>) {}
+
+  // The account and the address a credential check is made for; either may be unknown
+  targets(userId?: Types.ObjectId | string, ipAddress?: string): LoginAttemptTarget[] {
+    const targets: LoginAttemptTarget[] = [];
+    if (userId) targets.push({ scope: LoginAttemptScope.ACCOUNT, subject: String(userId) });
+    if (ipAddress) targets.push({ scope: LoginAttemptScope.IP, subject: ipAddress });
+    return targets;
+  }
+
+  async assertNotLocked(targets: LoginAttemptTarget[]): Promise<void> {
+    if (!targets.length) return;
+    const locked = await this.loginAttemptModel
+      .findOne({ $or: targets, lockedUntil: { $gt: new Date() } })
+      .sort({ lockedUntil: -1 })
+      .lean();
+    if (!locked?.lockedUntil) return;
+
+    const retryAfter = Math.ceil((locked.lockedUntil.getTime() - Date.now()) / 1000);
+    throw new HttpException(
+      { message: `Too many failed attempts - try again in ${retryAfter} seconds`, retryAfter },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+
+  async recordFailure(targets: LoginAttemptTarget[]): Promise<void> {
+    for (const target of targets) {
+      const attempt = await this.loginAttemptModel.findOneAndUpdate(
+        target,
+        { $inc: { failures: 1 }, $set: { expiresAt: new Date(Date.now() + FAILURE_MEMORY_MS) } },
+        { upsert: true, new: true },
+      );
+      const policy = target.scope === LoginAttemptScope.ACCOUNT ? ACCOUNT_LOCKOUT_POLICY : IP_LOCKOUT_POLICY;
+      const duration = lockoutDuration(attempt.failures, policy);
+      if (!duration) continue;
+
+      await this.loginAttemptModel.updateOne({ _id: attempt._id }, { lockedUntil: new Date(Date.now() + duration) });
+      this.logger.warn(`Locked ${target.scope} ${target.subject} for ${duration / 1000}s after ${attempt.failures} failures`);
+    }
+  }
+
+  // A successful sign in resets the account only, one valid account must not unlock an address
+  async clearAccount(userId: Types.ObjectId | string): Promise<void> {
+    await this.loginAttemptModel.deleteOne({ scope: LoginAttemptScope.ACCOUNT, subject: String(userId) });
+  }
+
+  async unlockAccount(userId: string) {
+    const { deletedCount } = await this.loginAttemptModel.deleteOne({ scope: LoginAttemptScope.ACCOUNT, subject: userId });
+    return { success: true, unlocked: deletedCount > 0 };
+  }
+}
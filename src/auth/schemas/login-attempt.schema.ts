@@ -0,0 +1,35 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export enum LoginAttemptScope {
+  ACCOUNT = 'account',
+  IP = 'ip',
+}
+
+/**
+ * Consecutive failed credential checks (password, OTP, two-factor code) of an account or an IP address
+ */
+@Schema({ timestamps: true })
+export class LoginAttempt extends Document {
+  @Prop({ type: String, enum: LoginAttemptScope, required: true })
+  scope: LoginAttemptScope;
+
+  // User id or IP address
+  @Prop({ type: String, required: true })
+  subject: string;
+
+  @Prop({ type: Number, default: 0 })
+  failures: number;
+
+  @Prop({ type: Date })
+  lockedUntil?: Date;
+
+  // Failures are forgotten a day after the last one
+  @Prop({ type: Date, required: true })
+  expiresAt: Date;
+}
+
+export const LoginAttemptSchema = SchemaFactory.createForClass(LoginAttempt);
+
+LoginAttemptSchema.index({ scope: 1, subject: 1 }, { unique: true });
+LoginAttemptSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -6,6 +6,10 @@ export type OtpDocument = Otp & Document;
 export enum OtpType {
   VERIFY_ACCOUNT = 'verify_account',
   RESET_PASSWORD = 'reset_password',
+  VERIFY_EMAIL = 'verify_email',
+  VERIFY_PHONE = 'verify_phone',
+  CHANGE_EMAIL = 'change_email',
+  CHANGE_PHONE = 'change_phone',
 }
 
 @Schema({ timestamps: true })
@@ -16,12 +20,21 @@ export class Otp extends Document {
   @Prop({ enum: OtpType, required: true, default: OtpType.VERIFY_ACCOUNT })
   otpType: OtpType;
 
+  // bcrypt hash of the code, the code itself is only sent to the user
   @Prop({ required: true })
   otp: string;
 
+  // Wrong codes entered for this OTP
+  @Prop({ type: Number, default: 0 })
+  attempts: number;
+
   @Prop({ required: true })
   expiresAt: Date;
 
+  // Email address or phone number the OTP was sent to; for a change, the new one
+  @Prop()
+  target?: string;
+
   @Prop()
   ipAddress?: string;
 
@@ -8,9 +8,22 @@ export class RefreshToken extends Document {
   @Prop({ type: Types.ObjectId, ref: 'User', required: true })
   userId: Types.ObjectId;
 
+  // SHA-256 of the token, never the token itself
   @Prop({ required: true })
   token: string;
 
+  // Shared by every token rotated from the same sign-in
+  @Prop({ required: true })
+  familyId: string;
+
+  // The token issued when this one was used
+  @Prop({ type: Types.ObjectId, ref: 'RefreshToken' })
+  replacedBy?: Types.ObjectId;
+
+  // Set on the whole family when a revoked token was used again, i.e. it was probably stolen
+  @Prop()
+  compromisedAt?: Date;
+
   @Prop({ required: true })
   expiresAt: Date;
 
@@ -20,6 +33,13 @@ export class RefreshToken extends Document {
   @Prop()
   revokedAt?: Date;
 
+  // When the user signed in, kept across rotations
+  @Prop()
+  sessionStartedAt?: Date;
+
+  @Prop()
+  lastUsedAt?: Date;
+
   @Prop()
   deviceInfo?: string;
 
@@ -35,6 +55,7 @@ export const RefreshTokenSchema = SchemaFactory.createForClass(RefreshToken);
 // Index for faster queries
 RefreshTokenSchema.index({ token: 1 });
 RefreshTokenSchema.index({ userId: 1 });
+RefreshTokenSchema.index({ familyId: 1 });
 
 // Adding TTL index to the expiresAt field
 RefreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
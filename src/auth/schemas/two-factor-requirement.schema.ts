@@ -0,0 +1,20 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { UserRole } from 'src/user/schemas/user.schema';
+
+/**
+ * Admin policy: users of the role must enrol in two-factor authentication before they can sign in.
+ */
+@Schema({ timestamps: true })
+export class TwoFactorRequirement extends Document {
+  @Prop({ type: String, enum: UserRole, required: true, unique: true })
+  role: UserRole;
+
+  @Prop({ type: Boolean, required: true })
+  required: boolean;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  updatedBy?: Types.ObjectId;
+}
+
+export const TwoFactorRequirementSchema = SchemaFactory.createForClass(TwoFactorRequirement);
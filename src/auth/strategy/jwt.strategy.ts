@@ -1,25 +1,38 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { ConfigService } from '@nestjs/config';
-import { AuthenticatedUser } from '../types/jwt-payload.interface';
+import { Request } from 'express';
+import { AuthenticatedUser, JwtPayload } from '../types/jwt-payload.interface';
+import { AuthService } from '../auth.service';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
-  constructor(configService: ConfigService) {
+  constructor(
+    configService: ConfigService,
+    private readonly authService: AuthService,
+  ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(), // Bearer <token>
       ignoreExpiration: false,
       secretOrKey: configService.get<string>('ACCESS_TOKEN_SECRET') || '',
+      passReqToCallback: true,
     });
   }
 
-  async validate(payload: any): Promise<AuthenticatedUser> {
+  async validate(req: Request, payload: any): Promise<AuthenticatedUser> {
+    // Tokens issued before sessions were tracked carry no session id
+    const { sid } = payload as JwtPayload;
+    if (sid && !(await this.authService.touchSession(sid, req.ip))) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
     return {
       userId: payload.sub,
       _id: payload.sub,
       role: payload.role,
       email: payload.email,
+      sessionId: sid,
       databaseFetched: false,
     };
   }
@@ -0,0 +1,31 @@
+import { base32Decode, base32Encode, buildOtpauthUri, totpCode, totpStep, verifyTotp } from './totp.utils';
+
+// RFC 6238 appendix B, SHA-1 seed
+const SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('totp utils', () => {
+  it('should encode and decode base32', () => {
+    expect(SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode(SECRET).toString()).toBe('12345678901234567890');
+  });
+
+  it('should compute the RFC 6238 test vectors', () => {
+    expect(totpCode(SECRET, totpStep(new Date(59 * 1000)))).toBe('287082');
+    expect(totpCode(SECRET, totpStep(new Date(1111111109 * 1000)))).toBe('081804');
+    expect(totpCode(SECRET, totpStep(new Date(2000000000 * 1000)))).toBe('279037');
+  });
+
+  it('should accept one step of clock drift only', () => {
+    const now = new Date(1111111109 * 1000);
+    const step = totpStep(now);
+    expect(verifyTotp(SECRET, totpCode(SECRET, step - 1), now)).toBe(step - 1);
+    expect(verifyTotp(SECRET, totpCode(SECRET, step + 1), now)).toBe(step + 1);
+    expect(verifyTotp(SECRET, totpCode(SECRET, step - 2), now)).toBeNull();
+  });
+
+  it('should build a key URI for authenticator apps', () => {
+    expect(buildOtpauthUri(SECRET, 'jane@example.com', 'Acme')).toBe(
+      `otpauth://totp/Acme%3Ajane%40example.com?secret=${SECRET}&issuer=Acme&algorithm=SHA1&digits=6&period=30`,
+    );
+  });
+});
@@ -0,0 +1,150 @@
+import { BadRequestException, Injectable, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { Model, Types } from 'mongoose';
+import { User, UserRole } from 'src/user/schemas/user.schema';
+import { TwoFactorRequirement } from '../schemas/two-factor-requirement.schema';
+import { buildOtpauthUri, generateBackupCodes, generateTotpSecret, verifyTotp } from './totp.utils';
+
+const SECRET_FIELDS = '+twoFactorSecret +twoFactorPendingSecret +twoFactorBackupCodes +twoFactorLastStep';
+
+const hashBackupCode = (code: string) => createHash('sha256').update(code.trim().toLowerCase()).digest('hex');
+
+@Injectable()
+export class TwoFactorService {
+  constructor(
+    @InjectModel(User.name) private readonly userModel: Model<User>,
+    @InjectModel(TwoFactorRequirement.name) private readonly requirementModel: Model<TwoFactorRequirement>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Starts enrolment with a new secret. Two-factor authentication is only turned on once a code from it is verified.
+   */
+  async setup(userId: string) {
+    const user = await this.getUser(userId);
+    if (user.twoFactorEnabled) throw new BadRequestException('Two-factor authentication is already enabled');
+
+    const secret = generateTotpSecret();
+    await this.userModel.updateOne({ _id: user._id }, { twoFactorPendingSecret: secret });
+
+    const issuer = this.configService.get<string>('TWO_FACTOR_ISSUER') || 'Influencer Platform';
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email || user.phoneNumber || String(user._id), issuer),
+    };
+  }
+
+  /**
+   * Turns two-factor authentication on with a code of the pending secret. Returns the backup codes, shown only once.
+   */
+  async enable(userId: string, code: string) {
+    const user = await this.getUser(userId);
+    if (user.twoFactorEnabled) throw new BadRequestException('Two-factor authentication is already enabled');
+    if (!user.twoFactorPendingSecret) throw new BadRequestException('Set up two-factor authentication first');
+
+    const step = verifyTotp(user.twoFactorPendingSecret, code.trim());
+    if (step === null) throw new UnauthorizedException('Invalid two-factor code');
+
+    const backupCodes = generateBackupCodes();
+    await this.userModel.updateOne(
+      { _id: user._id },
+      {
+        $set: {
+          twoFactorEnabled: true,
+          twoFactorSecret: user.twoFactorPendingSecret,
+          twoFactorBackupCodes: backupCodes.map(hashBackupCode),
+          twoFactorLastStep: step,
+        },
+        $unset: { twoFactorPendingSecret: 1 },
+      },
+    );
+    return { success: true, backupCodes };
+  }
+
+  async disable(userId: string, code: string) {
+    const user = await this.getUser(userId);
+    if (!user.twoFactorEnabled) throw new BadRequestException('Two-factor authentication is not enabled');
+    if (await this.isRequiredFor(user.role)) {
+      throw new BadRequestException('Two-factor authentication is required for your account');
+    }
+    await this.assertValidCode(user, code);
+
+    await this.userModel.updateOne(
+      { _id: user._id },
+      {
+        $set: { twoFactorEnabled: false },
+        $unset: { twoFactorSecret: 1, twoFactorPendingSecret: 1, twoFactorBackupCodes: 1, twoFactorLastStep: 1 },
+      },
+    );
+    return { success: true, message: 'Two-factor authentication disabled' };
+  }
+
+  // Replaces all backup codes, e.g. when they are used up or were exposed
+  async regenerateBackupCodes(userId: string, code: string) {
+    const user = await this.getUser(userId);
+    if (!user.twoFactorEnabled) throw new BadRequestException('Two-factor authentication is not enabled');
+    await this.assertValidCode(user, code);
+
+    const backupCodes = generateBackupCodes();
+    await this.userModel.updateOne({ _id: user._id }, { twoFactorBackupCodes: backupCodes.map(hashBackupCode) });
+    return { success: true, backupCodes };
+  }
+
+  /**
+   * Checks a code of the authenticator app or a backup code of a user with two-factor authentication on.
+   * Accepted codes are used up.
+   */
+  async verifyCode(userId: string, code: string): Promise<void> {
+    await this.assertValidCode(await this.getUser(userId), code);
+  }
+
+  async isRequiredFor(role: UserRole): Promise<boolean> {
+    return !!(await this.requirementModel.exists({ role, required: true }));
+  }
+
+  async getRequirements() {
+    const stored = await this.requirementModel.find().lean();
+    return Object.values(UserRole).map((role) => ({
+      role,
+      required: stored.some((requirement) => requirement.role === role && requirement.required),
+    }));
+  }
+
+  async setRequirement(role: UserRole, required: boolean, adminId: string) {
+    return this.requirementModel.findOneAndUpdate(
+      { role },
+      { required, updatedBy: new Types.ObjectId(adminId) },
+      { upsert: true, new: true, runValidators: true },
+    );
+  }
+
+  private async getUser(userId: string) {
+    const user = await this.userModel.findOne({ _id: userId, deleted: false }).select(SECRET_FIELDS).lean();
+    if (!user) throw new NotFoundException('User not found');
+    return user;
+  }
+
+  private async assertValidCode(user: User, code: string): Promise<void> {
+    const value = code.trim();
+    if (/^\d{6}$/.test(value)) {
+      const step = user.twoFactorSecret ? verifyTotp(user.twoFactorSecret, value) : null;
+      // The step only moves forward, so a code cannot be replayed while it is still valid
+      const accepted =
+        step !== null &&
+        (await this.userModel.updateOne(
+          { _id: user._id, $or: [{ twoFactorLastStep: { $exists: false } }, { twoFactorLastStep: { $lt: step } }] },
+          { twoFactorLastStep: step },
+        ));
+      if (accepted && accepted.modifiedCount) return;
+    } else {
+      const used = await this.userModel.updateOne(
+        { _id: user._id, twoFactorBackupCodes: hashBackupCode(value) },
+        { $pull: { twoFactorBackupCodes: hashBackupCode(value) } },
+      );
+      if (used.modifiedCount) return;
+    }
+    throw new UnauthorizedException('Invalid two-factor code');
+  }
+}
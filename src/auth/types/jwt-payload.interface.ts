@@ -4,11 +4,14 @@ export interface JwtPayload {
   sub: string;
   email: string;
   role: string;
+  // Refresh token family the access token was issued for
+  sid?: string;
 }
 
 export interface AuthenticatedUser extends Partial<User> {
   userId: string;
   email: string;
   role: UserRole;
+  sessionId?: string;
   databaseFetched: boolean;
 }
@@ -0,0 +1,34 @@
+import { parseUserAgent } from './user-agent.utils';
+
+describe('parseUserAgent', () => {
+  it('should tell browsers apart that claim to be each other', () => {
+    expect(
+      parseUserAgent(
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.2210.91',
+      ),
+    ).toEqual({ browser: 'Edge 120', os: 'Windows', device: 'desktop' });
+    expect(
+      parseUserAgent(
+        'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Safari/605.1.15',
+      ),
+    ).toEqual({ browser: 'Safari 17', os: 'macOS', device: 'desktop' });
+  });
+
+  it('should recognise phones and tablets', () => {
+    expect(
+      parseUserAgent(
+        'Mozilla/5.0 (iPhone; CPU iPhone OS 17_2 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) CriOS/120.0.6099.119 Mobile/15E148 Safari/604.1',
+      ),
+    ).toEqual({ browser: 'Chrome 120', os: 'iOS', device: 'mobile' });
+    expect(
+      parseUserAgent(
+        'Mozilla/5.0 (Linux; Android 13; SM-X700) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+      ),
+    ).toEqual({
+      browser: 'Chrome 120',
+      os: 'Android',
+      device: 'tablet',
+    });
+    expect(parseUserAgent(undefined)).toEqual({ device: 'unknown' });
+  });
+});
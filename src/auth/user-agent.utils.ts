@@ -0,0 +1,47 @@
+export interface DeviceInfo {
+  browser?: string;
+  os?: string;
+  // desktop, mobile or tablet
+  device: string;
+}
+
+// Order matters: Edge and Opera also claim to be Chrome, Chrome also claims to be Safari
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(?:e|A|iOS)?\/([\d.]+)/, 'Edge'],
+  [/(?:OPR|Opera)\/([\d.]+)/, 'Opera'],
+  [/SamsungBrowser\/([\d.]+)/, 'Samsung Internet'],
+  [/(?:Firefox|FxiOS)\/([\d.]+)/, 'Firefox'],
+  [/(?:Chrome|CriOS)\/([\d.]+)/, 'Chrome'],
+  [/Version\/([\d.]+).*Safari\//, 'Safari'],
+  [/(?:okhttp|Dart|PostmanRuntime|curl)\/([\d.]+)/i, 'App'],
+];
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+/**
+ * Browser, operating system and kind of device of a User-Agent header, good enough to tell sessions apart
+ */
+export function parseUserAgent(userAgent?: string): DeviceInfo {
+  if (!userAgent) return { device: 'unknown' };
+
+  const browser = BROWSERS.map(([pattern, name]) => {
+    const match = pattern.exec(userAgent);
+    return match && `${name} ${match[1].split('.')[0]}`;
+  }).find(Boolean);
+  const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const device =
+    /iPad|Tablet/.test(userAgent) || (/Android/.test(userAgent) && !/Mobile/.test(userAgent))
+      ? 'tablet'
+      : /Mobi|iPhone|iPod/.test(userAgent)
+        ? 'mobile'
+        : 'desktop';
+
+  return { browser: browser || undefined, os, device };
+}
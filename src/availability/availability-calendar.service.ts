@@ -0,0 +1,127 @@
+import { Injectable, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { createHash, randomBytes } from 'crypto';
+import { isValidObjectId, Model, Types } from 'mongoose';
+import { Order, OrderStatus } from 'src/order/schemas/order.schema';
+import { InfluencerServices } from 'src/influencer-service/schemas/influencer-service.schema';
+import { User, UserRole } from 'src/user/schemas/user.schema';
+import { AvailabilityService } from './availability.service';
+import { Availability, TimeSlotStatus } from './schemas/availability.schema';
+import { addUtcDays } from './availability-template.utils';
+import { buildCalendar, CalendarEvent, parseBusyPeriods } from './ics.utils';
+import { DEFAULT_TIME_ZONE, utcToZonedTime, zonedTimeToUtc } from './time-zone.utils';
+import { CalendarFeedTokenResponseDto, ImportCalendarResponseDto } from './dto/calendar.dto';
+
+// Past days still exported so calendar apps keep recent events
+const FEED_PAST_DAYS = 30;
+
+// Imported events further ahead are ignored
+const IMPORT_HORIZON_DAYS = 365;
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+@Injectable()
+export class AvailabilityCalendarService {
+  constructor(
+    @InjectModel(Availability.name) private availabilityModel: Model<Availability>,
+    @InjectModel(Order.name) private orderModel: Model<Order>,
+    @InjectModel(User.name) private userModel: Model<User>,
+    private readonly availabilityService: AvailabilityService,
+  ) {}
+
+  /**
+   * Creates the secret token of the influencer's calendar feed. Only its hash is stored, so a lost
+   * token cannot be shown again and creating a new one revokes the previous feed URL.
+   */
+  async createFeedToken(influencerId: string): Promise<CalendarFeedTokenResponseDto> {
+    const token = randomBytes(24).toString('hex');
+    await this.userModel.updateOne({ _id: influencerId }, { calendarFeedTokenHash: hashToken(token) });
+    return { token, feedPath: `/availability/influencer/${influencerId}/calendar.ics?token=${token}` };
+  }
+
+  /**
+   * Booked slots and delivery dates of open orders of an influencer as an iCalendar feed
+   */
+  async getCalendarFeed(influencerId: string, token: string): Promise<string> {
+    const influencer = isValidObjectId(influencerId)
+      ? await this.userModel
+          .findOne({ _id: influencerId, role: UserRole.INFLUENCER })
+          .select('+calendarFeedTokenHash name timeZone')
+      : null;
+    if (!influencer) {
+      throw new NotFoundException('Influencer not found');
+    }
+    if (!token || !influencer.calendarFeedTokenHash || hashToken(token) !== influencer.calendarFeedTokenHash) {
+      throw new UnauthorizedException('Invalid calendar token');
+    }
+
+    const timeZone = influencer.timeZone || DEFAULT_TIME_ZONE;
+    const from = addUtcDays(utcToZonedTime(new Date(), timeZone).date, -FEED_PAST_DAYS);
+    const [availabilities, orders] = await Promise.all([
+      this.availabilityModel
+        .find({ influencerId: new Types.ObjectId(influencerId), date: { $gte: from }, 'timeSlots.status': TimeSlotStatus.BOOKED })
+        .sort({ date: 1 })
+        .lean(),
+      this.orderModel
+        .find({
+          'item.influencerIds': new Types.ObjectId(influencerId),
+          'item.status': { $nin: [OrderStatus.REJECTED, OrderStatus.CANCELLED] },
+          'item.deliveryDate': { $gte: from },
+        })
+        .sort({ 'item.deliveryDate': 1 })
+        .populate({ path: 'item.serviceId', select: 'title' }),
+    ]);
+
+    const events: CalendarEvent[] = [];
+    for (const availability of availabilities) {
+      const slotTimeZone = availability.timeZone || DEFAULT_TIME_ZONE;
+      for (const slot of availability.timeSlots.filter((slot) => slot.status === TimeSlotStatus.BOOKED)) {
+        events.push({
+          uid: `slot-${availability._id.toString()}-${slot.startTime.replace(':', '')}`,
+          summary: 'Booked',
+          description: slot.bookingId ? `Booking ${slot.bookingId.toString()}` : undefined,
+          start: zonedTimeToUtc(availability.date, slot.startTime, slotTimeZone),
+          end: zonedTimeToUtc(availability.date, slot.endTime, slotTimeZone),
+        });
+      }
+    }
+    for (const order of orders) {
+      const title = (order.item.serviceId as unknown as InfluencerServices)?.title || 'Influencer service';
+      events.push({
+        uid: `order-${(order._id as Types.ObjectId).toString()}`,
+        summary: `Delivery: ${title}`,
+        description: `Order ${(order._id as Types.ObjectId).toString()} (${order.item.status})`,
+        start: order.item.deliveryDate,
+        end: addUtcDays(order.item.deliveryDate, 1),
+        allDay: true,
+      });
+    }
+    return buildCalendar(`${influencer.name || 'Influencer'} bookings`, events);
+  }
+
+  /**
+   * Marks the busy events of an external calendar as unavailable, so they can't be booked.
+   * Only upcoming events are imported; importing the same calendar again changes nothing.
+   */
+  async importCalendar(influencerId: string, ics: string): Promise<ImportCalendarResponseDto> {
+    const timeZone = (await this.availabilityService.findTimeZone(influencerId)) || DEFAULT_TIME_ZONE;
+    const periods = parseBusyPeriods(ics, timeZone);
+
+    // Whole days in the influencer's time zone, starting today
+    const today = utcToZonedTime(new Date(), timeZone).date;
+    const from = zonedTimeToUtc(today, '00:00', timeZone);
+    const horizon = zonedTimeToUtc(addUtcDays(today, IMPORT_HORIZON_DAYS), '00:00', timeZone);
+    let skipped = 0;
+    let markedSlots = 0;
+    for (const period of periods) {
+      if (period.end <= from || period.start >= horizon) {
+        skipped++;
+        continue;
+      }
+      const startsAt = period.start < from ? from : period.start;
+      const endsAt = period.end > horizon ? horizon : period.end;
+      markedSlots += await this.availabilityService.markPeriodUnavailable(influencerId, startsAt, endsAt);
+    }
+    return { events: periods.length, skipped, markedSlots };
+  }
+}
@@ -0,0 +1,104 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { isValidObjectId, Model, Types } from 'mongoose';
+import { AvailabilityService } from './availability.service';
+import { AvailabilityBlackout, AvailabilityTemplate } from './schemas/availability-template.schema';
+import {
+  CreateAvailabilityBlackoutDto,
+  CreateAvailabilityTemplateDto,
+  UpdateAvailabilityTemplateDto,
+} from './dto/availability-template.dto';
+import { startOfUtcDay } from './availability-template.utils';
+
+@Injectable()
+export class AvailabilityTemplateService {
+  constructor(
+    @InjectModel(AvailabilityTemplate.name) private templateModel: Model<AvailabilityTemplate>,
+    @InjectModel(AvailabilityBlackout.name) private blackoutModel: Model<AvailabilityBlackout>,
+    private readonly availabilityService: AvailabilityService,
+  ) {}
+
+  async createTemplate(influencerId: string, createTemplateDto: CreateAvailabilityTemplateDto): Promise<AvailabilityTemplate> {
+    const template = new this.templateModel({
+      ...createTemplateDto,
+      influencerId: new Types.ObjectId(influencerId),
+    });
+    this.assertValidTemplate(template);
+    return await template.save();
+  }
+
+  async getTemplates(influencerId: string): Promise<AvailabilityTemplate[]> {
+    return this.templateModel.find({ influencerId: new Types.ObjectId(influencerId) }).sort({ validFrom: 1 });
+  }
+
+  // Stored bookings are kept: days are recomputed from the templates around them
+  async updateTemplate(
+    influencerId: string,
+    templateId: string,
+    updateTemplateDto: UpdateAvailabilityTemplateDto,
+  ): Promise<AvailabilityTemplate> {
+    const template = await this.getOwnTemplate(influencerId, templateId);
+    template.set(updateTemplateDto);
+    this.assertValidTemplate(template);
+    return await template.save();
+  }
+
+  async deleteTemplate(influencerId: string, templateId: string): Promise<AvailabilityTemplate> {
+    const template = await this.getOwnTemplate(influencerId, templateId);
+    await template.deleteOne();
+    return template;
+  }
+
+  async createBlackout(influencerId: string, createBlackoutDto: CreateAvailabilityBlackoutDto): Promise<AvailabilityBlackout> {
+    const startDate = startOfUtcDay(createBlackoutDto.startDate);
+    const endDate = startOfUtcDay(createBlackoutDto.endDate);
+    if (endDate < startDate) {
+      throw new BadRequestException('endDate must not be before startDate');
+    }
+    return this.blackoutModel.create({
+      influencerId: new Types.ObjectId(influencerId),
+      startDate,
+      endDate,
+      reason: createBlackoutDto.reason,
+    });
+  }
+
+  async getBlackouts(influencerId: string): Promise<AvailabilityBlackout[]> {
+    return this.blackoutModel
+      .find({ influencerId: new Types.ObjectId(influencerId), endDate: { $gte: startOfUtcDay(new Date()) } })
+      .sort({ startDate: 1 });
+  }
+
+  async deleteBlackout(influencerId: string, blackoutId: string): Promise<AvailabilityBlackout> {
+    const blackout = isValidObjectId(blackoutId)
+      ? await this.blackoutModel.findOne({ _id: blackoutId, influencerId: new Types.ObjectId(influencerId) })
+      : null;
+    if (!blackout) {
+      throw new NotFoundException('Blackout not found');
+    }
+    await blackout.deleteOne();
+    return blackout;
+  }
+
+  private async getOwnTemplate(influencerId: string, templateId: string): Promise<AvailabilityTemplate> {
+    const template = isValidObjectId(templateId)
+      ? await this.templateModel.findOne({ _id: templateId, influencerId: new Types.ObjectId(influencerId) })
+      : null;
+    if (!template) {
+      throw new NotFoundException('Availability template not found');
+    }
+    return template;
+  }
+
+  private assertValidTemplate(template: AvailabilityTemplate): void {
+    this.availabilityService.validateTimeSlots(template.timeSlots);
+    this.availabilityService.validateNoOverlappingSlots(template.timeSlots);
+    template.validFrom = startOfUtcDay(template.validFrom);
+    if (template.validUntil) {
+      template.validUntil = startOfUtcDay(template.validUntil);
+      if (template.validUntil < template.validFrom) {
+        throw new BadRequestException('validUntil must not be before validFrom');
+      }
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { mergeWithStoredSlots, templateSlotsForDate } from './availability-template.utils';
+import { TimeSlotStatus } from './schemas/availability.schema';
+
+describe('templateSlotsForDate', () => {
+  const weekdays = {
+    weekdays: [1, 2, 3, 4, 5],
+    timeSlots: [{ startTime: '09:00', endTime: '17:00' }],
+    validFrom: new Date('2025-01-01'),
+    validUntil: new Date('2025-06-30'),
+  };
+
+  it('should apply templates on their weekdays within their validity and join overlapping slots', () => {
+    const mondayEvening = {
+      weekdays: [1],
+      timeSlots: [{ startTime: '16:00', endTime: '19:00' }],
+      validFrom: new Date('2025-01-01'),
+    };
+    // Monday
+    expect(templateSlotsForDate(new Date('2025-03-03'), [weekdays, mondayEvening], [])).toEqual([
+      { startTime: '09:00', endTime: '19:00' },
+    ]);
+    // Saturday, then a Monday after validUntil
+    expect(templateSlotsForDate(new Date('2025-03-08'), [weekdays], [])).toEqual([]);
+    expect(templateSlotsForDate(new Date('2025-07-07'), [weekdays], [])).toEqual([]);
+  });
+
+  it('should produce nothing on blackout days', () => {
+    const holiday = { startDate: new Date('2025-03-03'), endDate: new Date('2025-03-04') };
+    expect(templateSlotsForDate(new Date('2025-03-04'), [weekdays], [holiday])).toEqual([]);
+    expect(templateSlotsForDate(new Date('2025-03-05'), [weekdays], [holiday])).toHaveLength(1);
+  });
+});
+
+describe('mergeWithStoredSlots', () => {
+  it('should keep booked slots and fill the rest of the template around them', () => {
+    const booked = { startTime: '10:00', endTime: '11:00', status: TimeSlotStatus.BOOKED };
+    const stale = { startTime: '08:00', endTime: '09:00', status: TimeSlotStatus.AVAILABLE };
+    expect(mergeWithStoredSlots([{ startTime: '09:00', endTime: '12:00' }], [stale, booked])).toEqual([
+      { startTime: '09:00', endTime: '10:00', status: TimeSlotStatus.AVAILABLE },
+      booked,
+      { startTime: '11:00', endTime: '12:00', status: TimeSlotStatus.AVAILABLE },
+    ]);
+  });
+});
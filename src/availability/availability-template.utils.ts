@@ -0,0 +1,101 @@
+import { TimeSlot, TimeSlotStatus } from './schemas/availability.schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SlotRange {
+  startTime: string;
+  endTime: string;
+}
+
+export interface RecurringTemplate {
+  weekdays: number[];
+  timeSlots: SlotRange[];
+  validFrom: Date;
+  validUntil?: Date;
+}
+
+export interface BlackoutRange {
+  startDate: Date;
+  endDate: Date;
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const toTime = (minutes: number) =>
+  `${Math.floor(minutes / 60)
+    .toString()
+    .padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+
+// Availability dates are whole days at midnight UTC
+export function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+export function addUtcDays(date: Date, days: number): Date {
+  return new Date(startOfUtcDay(date).getTime() + days * DAY_MS);
+}
+
+/**
+ * Slots the templates produce on a day, overlapping slots of different templates joined.
+ */
+export function templateSlotsForDate(date: Date, templates: RecurringTemplate[], blackouts: BlackoutRange[]): SlotRange[] {
+  const day = startOfUtcDay(date).getTime();
+  if (
+    blackouts.some(
+      (blackout) => startOfUtcDay(blackout.startDate).getTime() <= day && day <= startOfUtcDay(blackout.endDate).getTime(),
+    )
+  ) {
+    return [];
+  }
+
+  const ranges = templates
+    .filter(
+      (template) =>
+        template.weekdays.includes(new Date(day).getUTCDay()) &&
+        startOfUtcDay(template.validFrom).getTime() <= day &&
+        (!template.validUntil || day <= startOfUtcDay(template.validUntil).getTime()),
+    )
+    .flatMap((template) => template.timeSlots.map((slot) => [toMinutes(slot.startTime), toMinutes(slot.endTime)]))
+    .sort((a, b) => a[0] - b[0]);
+
+  const joined: number[][] = [];
+  for (const [start, end] of ranges) {
+    const last = joined[joined.length - 1];
+    if (last && start < last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      joined.push([start, end]);
+    }
+  }
+  return joined.map(([start, end]) => ({ startTime: toTime(start), endTime: toTime(end) }));
+}
+
+/**
+ * Lays the template slots of a day under the slots already stored for it. Stored slots that are
+ * not available (booked, held or blocked) always win, the template fills the remaining time.
+ */
+export function mergeWithStoredSlots(templateSlots: SlotRange[], storedSlots: TimeSlot[]): TimeSlot[] {
+  const reserved = storedSlots.filter((slot) => slot.status !== TimeSlotStatus.AVAILABLE);
+  const merged: TimeSlot[] = [...reserved];
+
+  for (const slot of templateSlots) {
+    let pieces = [[toMinutes(slot.startTime), toMinutes(slot.endTime)]];
+    for (const taken of reserved) {
+      const [takenStart, takenEnd] = [toMinutes(taken.startTime), toMinutes(taken.endTime)];
+      pieces = pieces.flatMap(([start, end]) =>
+        [
+          [start, Math.min(end, takenStart)],
+          [Math.max(start, takenEnd), end],
+        ].filter(([pieceStart, pieceEnd]) => pieceStart < pieceEnd),
+      );
+    }
+    merged.push(
+      ...pieces.map(([start, end]) => ({ startTime: toTime(start), endTime: toTime(end), status: TimeSlotStatus.AVAILABLE })),
+    );
+  }
+
+  return merged.sort((a, b) => toMinutes(a.startTime) - toMinutes(b.startTime));
+}
@@ -1,4 +1,4 @@
-import { BadRequestException, Body, Controller, Delete, Get, Param, Post, Put, Query, Req } from '@nestjs/common';
+import { BadRequestException, Body, Controller, Delete, Get, Param, Post, Put, Query, Req, Res } from '@nestjs/common';
 import {
   ApiBearerAuth,
   ApiOperation,
@@ -8,26 +8,47 @@ import {
   ApiBody,
   ApiBadRequestResponse,
   ApiNotFoundResponse,
+  ApiProduces,
+  ApiQuery,
 } from '@nestjs/swagger';
-import { Request } from 'express';
+import { Request, Response } from 'express';
 import { AvailabilityService } from './availability.service';
 import { CreateAvailabilityDto } from './dto/create-availability.dto';
 import { UpdateTimeSlotPortionDto } from './dto/update-portion-availability.dto';
 import { Roles } from '../common/decorators/role.decorator';
+import { Public } from '../common/decorators/public.decorator';
 import { UserRole } from '../user/schemas/user.schema';
 import { DeleteTimeSlotsDto, DeleteTimeSlotsResponseDto } from './dto/delete-availability.dto';
-import { GetAvailabilityQueryDto, PaginatedAvailabilityResponseDto } from './dto/get-availability.dto';
+import {
+  GetAvailabilityQueryDto,
+  GetJointAvailabilityQueryDto,
+  JointAvailabilityResponseDto,
+  PaginatedAvailabilityResponseDto,
+} from './dto/get-availability.dto';
+import { AvailabilityTemplateService } from './availability-template.service';
+import {
+  CreateAvailabilityBlackoutDto,
+  CreateAvailabilityTemplateDto,
+  UpdateAvailabilityTemplateDto,
+} from './dto/availability-template.dto';
+import { AvailabilityCalendarService } from './availability-calendar.service';
+import { CalendarFeedTokenResponseDto, ImportCalendarDto, ImportCalendarResponseDto } from './dto/calendar.dto';
+import { CompactAvailabilityResponseDto } from './dto/compact-availability.dto';
 
 @ApiTags('Availability (Beta)')
 @ApiBearerAuth('access-token')
 @Controller('availability')
 export class AvailabilityController {
-  constructor(private readonly availabilityService: AvailabilityService) {}
+  constructor(
+    private readonly availabilityService: AvailabilityService,
+    private readonly availabilityTemplateService: AvailabilityTemplateService,
+    private readonly availabilityCalendarService: AvailabilityCalendarService,
+  ) {}
 
   @Post()
   @ApiOperation({
     summary: 'Create availability for a date',
-    description: 'Create availability slots for a specific date',
+    description: 'Create availability slots for a specific date. Times are in the time zone of your profile (UTC when unset)',
   })
   @ApiBody({ type: CreateAvailabilityDto })
   @Roles(UserRole.INFLUENCER)
@@ -36,6 +57,125 @@ export class AvailabilityController {
     return this.availabilityService.createOptimizedAvailability(createAvailabilityDto, influencerId);
   }
 
+  @Post('templates')
+  @ApiOperation({
+    summary: 'Create a recurring availability template',
+    description:
+      'Weekly slots (e.g. Mon–Fri 09:00–17:00) within a validity range. Dates are computed from templates when read; availability created for a single date overrides them.',
+  })
+  @ApiResponse({ status: 201, description: 'Template created' })
+  @ApiResponse({ status: 400, description: 'Invalid or overlapping time slots, or invalid validity range' })
+  @Roles(UserRole.INFLUENCER)
+  async createTemplate(@Req() req: Request, @Body() body: CreateAvailabilityTemplateDto) {
+    return this.availabilityTemplateService.createTemplate(req?.user?.userId!, body);
+  }
+
+  @Get('templates')
+  @ApiOperation({ summary: 'List your recurring availability templates' })
+  @Roles(UserRole.INFLUENCER)
+  async getTemplates(@Req() req: Request) {
+    return this.availabilityTemplateService.getTemplates(req?.user?.userId!);
+  }
+
+  @Put('templates/:id')
+  @ApiOperation({
+    summary: 'Update a recurring availability template',
+    description: 'Booked and held slots are kept, the template only changes the remaining time of a day',
+  })
+  @ApiParam({ name: 'id', description: 'Template ID' })
+  @ApiResponse({ status: 404, description: 'Template not found' })
+  @Roles(UserRole.INFLUENCER)
+  async updateTemplate(@Req() req: Request, @Param('id') id: string, @Body() body: UpdateAvailabilityTemplateDto) {
+    return this.availabilityTemplateService.updateTemplate(req?.user?.userId!, id, body);
+  }
+
+  @Delete('templates/:id')
+  @ApiOperation({ summary: 'Delete a recurring availability template' })
+  @ApiParam({ name: 'id', description: 'Template ID' })
+  @ApiResponse({ status: 404, description: 'Template not found' })
+  @Roles(UserRole.INFLUENCER)
+  async deleteTemplate(@Req() req: Request, @Param('id') id: string) {
+    return this.availabilityTemplateService.deleteTemplate(req?.user?.userId!, id);
+  }
+
+  @Post('blackouts')
+  @ApiOperation({
+    summary: 'Add blackout days',
+    description: 'Holidays or days off on which templates produce no slots',
+  })
+  @ApiResponse({ status: 201, description: 'Blackout created' })
+  @Roles(UserRole.INFLUENCER)
+  async createBlackout(@Req() req: Request, @Body() body: CreateAvailabilityBlackoutDto) {
+    return this.availabilityTemplateService.createBlackout(req?.user?.userId!, body);
+  }
+
+  @Get('blackouts')
+  @ApiOperation({ summary: 'List your current and upcoming blackout days' })
+  @Roles(UserRole.INFLUENCER)
+  async getBlackouts(@Req() req: Request) {
+    return this.availabilityTemplateService.getBlackouts(req?.user?.userId!);
+  }
+
+  @Delete('blackouts/:id')
+  @ApiOperation({ summary: 'Remove blackout days' })
+  @ApiParam({ name: 'id', description: 'Blackout ID' })
+  @ApiResponse({ status: 404, description: 'Blackout not found' })
+  @Roles(UserRole.INFLUENCER)
+  async deleteBlackout(@Req() req: Request, @Param('id') id: string) {
+    return this.availabilityTemplateService.deleteBlackout(req?.user?.userId!, id);
+  }
+
+  @Post('calendar/token')
+  @ApiOperation({
+    summary: 'Create the secret link of your calendar feed',
+    description:
+      'Subscribe to the feed from a calendar app to see booked slots and delivery dates. A new token revokes the previous link.',
+  })
+  @ApiResponse({ status: 201, type: CalendarFeedTokenResponseDto })
+  @Roles(UserRole.INFLUENCER)
+  async createCalendarFeedToken(@Req() req: Request): Promise<CalendarFeedTokenResponseDto> {
+    return this.availabilityCalendarService.createFeedToken(req?.user?.userId!);
+  }
+
+  @Post('calendar/import')
+  @ApiOperation({
+    summary: 'Import busy times from an external calendar',
+    description:
+      'Available time overlapping busy events of the uploaded .ics calendar is marked unavailable, in your time zone. Booked and held slots are not changed.',
+  })
+  @ApiResponse({ status: 201, type: ImportCalendarResponseDto })
+  @Roles(UserRole.INFLUENCER)
+  async importCalendar(@Req() req: Request, @Body() body: ImportCalendarDto): Promise<ImportCalendarResponseDto> {
+    return this.availabilityCalendarService.importCalendar(req?.user?.userId!, body.ics);
+  }
+
+  @Get('influencer/:influencerId/calendar.ics')
+  @Public()
+  @ApiOperation({
+    summary: 'Calendar feed of an influencer',
+    description: 'iCalendar feed of booked slots and order delivery dates, authenticated by the secret feed token',
+  })
+  @ApiParam({ name: 'influencerId', description: 'Influencer ID' })
+  @ApiQuery({ name: 'token', description: 'Secret feed token' })
+  @ApiProduces('text/calendar')
+  @ApiResponse({ status: 401, description: 'Invalid calendar token' })
+  @ApiResponse({ status: 404, description: 'Influencer not found' })
+  async getCalendarFeed(@Param('influencerId') influencerId: string, @Query('token') token: string, @Res() res: Response) {
+    const calendar = await this.availabilityCalendarService.getCalendarFeed(influencerId, token);
+    res.type('text/calendar; charset=utf-8').send(calendar);
+  }
+
+  @Post('maintenance/compact')
+  @ApiOperation({
+    summary: 'Merge adjacent time slots of all stored days (admin)',
+    description: 'Joins touching slots with the same status and no booking. Slots are merged on every change already.',
+  })
+  @ApiResponse({ status: 201, type: CompactAvailabilityResponseDto })
+  @Roles(UserRole.ADMIN)
+  async compactAvailability(): Promise<CompactAvailabilityResponseDto> {
+    return this.availabilityService.compactAllAvailability();
+  }
+
   @Put('/date/:date/split-slot')
   @ApiOperation({
     summary: 'Update portion of a time slot',
@@ -166,7 +306,8 @@ export class AvailabilityController {
   @Get('influencer/:influencerId')
   @ApiOperation({
     summary: 'Get availability for an influencer',
-    description: 'Retrieve paginated availability records for a specific influencer with optional filtering',
+    description:
+      'Retrieve paginated availability records for a specific influencer with optional filtering. Days computed from recurring templates have no _id',
   })
   @ApiParam({
     name: 'influencerId',
@@ -180,9 +321,28 @@ export class AvailabilityController {
   })
   @ApiResponse({ status: 400, description: 'Invalid request parameters' })
   async getInfluencerAvailability(
+    @Req() req: Request,
     @Param('influencerId') influencerId: string,
     @Query() query: GetAvailabilityQueryDto,
   ): Promise<PaginatedAvailabilityResponseDto> {
-    return this.availabilityService.getInfluencerAvailability(influencerId, query);
+    return this.availabilityService.getInfluencerAvailability(influencerId, query, req?.user?.userId);
+  }
+
+  @Get('service/:serviceId')
+  @ApiOperation({
+    summary: 'Get the common availability of the influencers of a service',
+    description:
+      'Periods of at least minDuration minutes in which every influencer of the service is available, e.g. to book a collaboration',
+  })
+  @ApiParam({ name: 'serviceId', description: 'Service ID' })
+  @ApiResponse({ status: 200, type: JointAvailabilityResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid date range' })
+  @ApiResponse({ status: 404, description: 'Service not found' })
+  async getJointAvailability(
+    @Req() req: Request,
+    @Param('serviceId') serviceId: string,
+    @Query() query: GetJointAvailabilityQueryDto,
+  ): Promise<JointAvailabilityResponseDto> {
+    return this.availabilityService.getJointAvailability(serviceId, query, req?.user?.userId);
   }
 }
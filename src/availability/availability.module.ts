@@ -9,19 +9,39 @@ import { Availability, AvailabilitySchema } from './schemas/availability.schema'
 import { InfluencerServiceService } from 'src/influencer-service/influencer-service.service';
 import { InfluencerServices, InfluencerServicesSchema } from 'src/influencer-service/schemas/influencer-service.schema';
 import { Contract, ContractSchema } from 'src/influencer-service/schemas/contract-schema';
+import { TagModule } from 'src/tag/tag.module';
+import {
+  AvailabilityBlackout,
+  AvailabilityBlackoutSchema,
+  AvailabilityTemplate,
+  AvailabilityTemplateSchema,
+} from './schemas/availability-template.schema';
+import { AvailabilityTemplateService } from './availability-template.service';
+import { AvailabilityCalendarService } from './availability-calendar.service';
+import { Order, OrderSchema } from 'src/order/schemas/order.schema';
 
 @Module({
   imports: [
     UserModule,
+    TagModule,
     MongooseModule.forFeature([
       { name: User.name, schema: UserSchema },
       { name: Availability.name, schema: AvailabilitySchema },
+      { name: AvailabilityTemplate.name, schema: AvailabilityTemplateSchema },
+      { name: AvailabilityBlackout.name, schema: AvailabilityBlackoutSchema },
       { name: InfluencerServices.name, schema: InfluencerServicesSchema },
       { name: Contract.name, schema: ContractSchema },
+      { name: Order.name, schema: OrderSchema },
     ]),
   ],
   controllers: [AvailabilityController],
-  providers: [AvailabilityService, UserService, InfluencerServiceService],
+  providers: [
+    AvailabilityService,
+    AvailabilityTemplateService,
+    AvailabilityCalendarService,
+    UserService,
+    InfluencerServiceService,
+  ],
   exports: [AvailabilityService],
 })
 export class AvailabilityModule {}
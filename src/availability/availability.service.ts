@@ -3,13 +3,37 @@ import { InjectModel } from '@nestjs/mongoose';
 import { isValidObjectId, Model, Types } from 'mongoose';
 import { Availability, AvailabilityDocument, TimeSlot, TimeSlotStatus } from './schemas/availability.schema';
 import { CreateAvailabilityDto } from './dto/create-availability.dto';
-import { GetAvailabilityQueryDto, PaginatedAvailabilityResponseDto } from './dto/get-availability.dto';
+import {
+  AvailabilityResponseDto,
+  GetAvailabilityQueryDto,
+  GetJointAvailabilityQueryDto,
+  JointAvailabilityResponseDto,
+  PaginatedAvailabilityResponseDto,
+} from './dto/get-availability.dto';
+import { AvailabilityBlackout, AvailabilityTemplate } from './schemas/availability-template.schema';
+import { addUtcDays, mergeWithStoredSlots, startOfUtcDay, templateSlotsForDate } from './availability-template.utils';
+import { DEFAULT_TIME_ZONE, formatInTimeZone, utcToZonedTime, zonedTimeToUtc } from './time-zone.utils';
+import { intersectWindows, mergeAdjacentSlots, TimeWindow } from './time-slot.utils';
+import { CompactAvailabilityResponseDto } from './dto/compact-availability.dto';
+import { User } from 'src/user/schemas/user.schema';
+import { InfluencerServices } from 'src/influencer-service/schemas/influencer-service.schema';
 
 export interface DeleteTimeSlotRequest {
   startTime: string;
   endTime: string;
 }
 
+// Slots that belong to a booking and cannot be deleted or reserved again
+const RESERVED_SLOT_STATUSES = [TimeSlotStatus.BOOKED, TimeSlotStatus.HELD];
+
+// Days computed from templates when no end date is requested, and at most when one is
+const TEMPLATE_HORIZON_DAYS = 90;
+const TEMPLATE_MAX_DAYS = 366;
+
+// Days searched for common slots of a service's influencers
+const JOINT_SEARCH_DEFAULT_DAYS = 14;
+const JOINT_SEARCH_MAX_DAYS = 62;
+
 export interface DeleteResult {
   success: boolean;
   message: string;
@@ -20,8 +44,86 @@ export interface DeleteResult {
 
 @Injectable()
 export class AvailabilityService {
-  // TODO: Merge time consecutive time slots with available status for better simplicity.
-  constructor(@InjectModel(Availability.name) private availabilityModel: Model<AvailabilityDocument>) {}
+  constructor(
+    @InjectModel(Availability.name) private availabilityModel: Model<AvailabilityDocument>,
+    @InjectModel(AvailabilityTemplate.name) private templateModel: Model<AvailabilityTemplate>,
+    @InjectModel(AvailabilityBlackout.name) private blackoutModel: Model<AvailabilityBlackout>,
+    @InjectModel(User.name) private userModel: Model<User>,
+    @InjectModel(InfluencerServices.name) private influencerServiceModel: Model<InfluencerServices>,
+  ) {}
+
+  /**
+   * Time zone set on the user's profile
+   */
+  async findTimeZone(userId: string): Promise<string | undefined> {
+    const user = await this.userModel.findById(userId).select('timeZone').lean();
+    return user?.timeZone;
+  }
+
+  /**
+   * Day and wall-clock times of an influencer for a period given as instants
+   */
+  async toInfluencerSlot(influencerId: string, startsAt: Date, endsAt: Date) {
+    const timeZone = (await this.findTimeZone(influencerId)) || DEFAULT_TIME_ZONE;
+    const start = utcToZonedTime(startsAt, timeZone);
+    const end = utcToZonedTime(endsAt, timeZone);
+    if (start.date.getTime() !== end.date.getTime() || start.time >= end.time) {
+      throw new BadRequestException(
+        `The time slot must start and end on the same day in the influencer's time zone (${timeZone})`,
+      );
+    }
+    return { date: start.date, startTime: start.time, endTime: end.time, timeZone };
+  }
+
+  /**
+   * Templates and blackouts of an influencer that may apply between two days
+   */
+  private async getTemplateRules(influencerId: string, from: Date, to: Date) {
+    const [templates, blackouts] = await Promise.all([
+      this.templateModel
+        .find({
+          influencerId: new Types.ObjectId(influencerId),
+          isActive: true,
+          validFrom: { $lte: to },
+          $or: [{ validUntil: null }, { validUntil: { $gte: startOfUtcDay(from) } }],
+        })
+        .lean(),
+      this.blackoutModel
+        .find({ influencerId: new Types.ObjectId(influencerId), startDate: { $lte: to }, endDate: { $gte: startOfUtcDay(from) } })
+        .lean(),
+    ]);
+    return { templates, blackouts };
+  }
+
+  /**
+   * The availability of a day as clients see it. A stored document overrides the templates, unless it
+   * was only stored to keep bookings of a template day; then the current templates fill the rest of it.
+   * Template days without a stored document are returned unsaved.
+   */
+  private async findOrMaterializeDay(influencerId: string, date: Date): Promise<AvailabilityDocument | null> {
+    const availability = await this.availabilityModel.findOne({
+      influencerId: new Types.ObjectId(influencerId),
+      date: new Date(date),
+    });
+    if (availability && !availability.fromTemplate) return availability;
+
+    const { templates, blackouts } = await this.getTemplateRules(influencerId, date, date);
+    const templateSlots = templateSlotsForDate(date, templates, blackouts);
+    if (availability) {
+      availability.timeSlots = mergeWithStoredSlots(templateSlots, availability.timeSlots);
+      return availability;
+    }
+    if (!templateSlots.length) return null;
+
+    return new this.availabilityModel({
+      influencerId: new Types.ObjectId(influencerId),
+      date: new Date(date),
+      timeZone: (await this.findTimeZone(influencerId)) || DEFAULT_TIME_ZONE,
+      timeSlots: mergeWithStoredSlots(templateSlots, []),
+      isActive: true,
+      fromTemplate: true,
+    });
+  }
 
   /**
    * Validates individual time slots for correct format and duration
@@ -166,10 +268,7 @@ export class AvailabilityService {
       }
 
       // Find availability for the given date
-      const availability = await this.availabilityModel.findOne({
-        influencerId: new Types.ObjectId(influencerId),
-        date: new Date(date),
-      });
+      const availability = await this.findOrMaterializeDay(influencerId, date);
 
       if (!availability) {
         return { isAvailable: false, availableSlots: [] };
@@ -220,21 +319,24 @@ export class AvailabilityService {
 
       // Step 3: Check if availability already exists for this date
       const targetDate = new Date(date);
+      const timeZone = (await this.findTimeZone(influencerId)) || DEFAULT_TIME_ZONE;
 
-      if (targetDate < new Date()) throw new BadRequestException('You cannot create time slot in past');
+      // Compared with the influencer's own calendar day
+      if (targetDate < utcToZonedTime(new Date(), timeZone).date)
+        throw new BadRequestException('You cannot create time slot in past');
 
-      const existingAvailability = await this.availabilityModel.findOne({
-        influencerId: new Types.ObjectId(influencerId),
-        date: targetDate,
-      });
+      const existingAvailability = await this.findOrMaterializeDay(influencerId, targetDate);
 
       if (existingAvailability) {
+        // Edited by hand, the day no longer follows the templates
+        existingAvailability.fromTemplate = false;
+
         // Step 4: Validate new slots don't overlap with existing slots
         this.validateNoOverlapWithExisting(timeSlots, existingAvailability.timeSlots);
 
         // Merge and sort time slots
         const mergedSlots = this.mergeAndSortTimeSlots(existingAvailability.timeSlots, timeSlots);
-        existingAvailability.timeSlots = mergedSlots;
+        existingAvailability.timeSlots = mergeAdjacentSlots(mergedSlots);
 
         return await existingAvailability.save();
       }
@@ -243,7 +345,8 @@ export class AvailabilityService {
       const newAvailability = new this.availabilityModel({
         influencerId: new Types.ObjectId(influencerId),
         date: targetDate,
-        timeSlots: this.sortTimeSlots(timeSlots),
+        timeZone,
+        timeSlots: mergeAdjacentSlots(timeSlots),
         isActive: true,
       });
 
@@ -287,10 +390,7 @@ export class AvailabilityService {
 
       // Find existing availability for the date
       const targetDate = new Date(date);
-      const existingAvailability = await this.availabilityModel.findOne({
-        influencerId: new Types.ObjectId(influencerId),
-        date: targetDate,
-      });
+      const existingAvailability = await this.findOrMaterializeDay(influencerId, targetDate);
 
       if (!existingAvailability) {
         throw new NotFoundException(`No availability found for date ${targetDate.toISOString().split('T')[0]}`);
@@ -307,9 +407,14 @@ export class AvailabilityService {
 
       const containingSlot = existingAvailability.timeSlots[containingSlotIndex];
 
-      // Check if the containing slot is already booked (and we're trying to book part of it)
-      if (containingSlot.status === TimeSlotStatus.BOOKED && updates.status === TimeSlotStatus.BOOKED) {
-        throw new BadRequestException(`Time slot ${targetStartTime}-${targetEndTime} is already booked`);
+      // Check if the containing slot is already reserved by another booking (and we're trying to reserve part of it)
+      if (
+        RESERVED_SLOT_STATUSES.includes(containingSlot.status) &&
+        updates.status &&
+        RESERVED_SLOT_STATUSES.includes(updates.status) &&
+        containingSlot.bookingId?.toString() !== updates.bookingId
+      ) {
+        throw new BadRequestException(`Time slot ${targetStartTime}-${targetEndTime} is already ${containingSlot.status}`);
       }
 
       // Remove the original slot
@@ -353,8 +458,8 @@ export class AvailabilityService {
       // Add new slots to the availability
       existingAvailability.timeSlots.push(...newSlots);
 
-      // Sort slots
-      existingAvailability.timeSlots = this.sortTimeSlots(existingAvailability.timeSlots);
+      // Sort slots and join the pieces again where possible
+      existingAvailability.timeSlots = mergeAdjacentSlots(existingAvailability.timeSlots);
 
       return await existingAvailability.save();
     } catch (error) {
@@ -371,6 +476,71 @@ export class AvailabilityService {
     }
   }
 
+  /**
+   * Makes a booked or held time slot available again, unless it no longer belongs to the booking
+   */
+  async releaseTimeSlot(influencerId: string, date: Date, startTime: string, endTime: string, bookingId: string): Promise<void> {
+    const availability = await this.availabilityModel.findOne({
+      influencerId: new Types.ObjectId(influencerId),
+      date: new Date(date),
+    });
+    const slot = availability?.timeSlots.find(
+      (slot) => slot.startTime === startTime && slot.endTime === endTime && slot.bookingId?.toString() === bookingId,
+    );
+    if (!slot) return;
+
+    await this.updateTimeSlotPortion(influencerId, date, startTime, endTime, { status: TimeSlotStatus.AVAILABLE, bookingId: '' });
+  }
+
+  /**
+   * Marks the available time within a period as unavailable, day by day in the influencer's time zone.
+   * Booked and held slots are left alone. Returns the number of slots that were (partly) marked.
+   */
+  async markPeriodUnavailable(influencerId: string, startsAt: Date, endsAt: Date): Promise<number> {
+    const timeZone = (await this.findTimeZone(influencerId)) || DEFAULT_TIME_ZONE;
+    const first = utcToZonedTime(startsAt, timeZone);
+    const last = utcToZonedTime(endsAt, timeZone);
+
+    let marked = 0;
+    for (let date = first.date; date <= last.date; date = addUtcDays(date, 1)) {
+      const from = date.getTime() === first.date.getTime() ? this.timeToMinutes(first.time) : 0;
+      const to = date.getTime() === last.date.getTime() ? this.timeToMinutes(last.time) : 24 * 60;
+      if (from >= to) continue;
+
+      const availability = await this.findOrMaterializeDay(influencerId, date);
+      const overlapping = (availability?.timeSlots ?? []).filter(
+        (slot) =>
+          slot.status === TimeSlotStatus.AVAILABLE &&
+          this.timeToMinutes(slot.startTime) < to &&
+          this.timeToMinutes(slot.endTime) > from,
+      );
+      for (const slot of overlapping) {
+        const startTime = this.minutesToTime(Math.max(from, this.timeToMinutes(slot.startTime)));
+        const endTime = this.minutesToTime(Math.min(to, this.timeToMinutes(slot.endTime)));
+        await this.updateTimeSlotPortion(influencerId, date, startTime, endTime, { status: TimeSlotStatus.UNAVAILABLE });
+        marked++;
+      }
+    }
+    return marked;
+  }
+
+  /**
+   * Joins the adjacent slots of every stored day, for documents written before slots were merged on save
+   */
+  async compactAllAvailability(): Promise<CompactAvailabilityResponseDto> {
+    const result: CompactAvailabilityResponseDto = { scannedDays: 0, compactedDays: 0, mergedSlots: 0 };
+    for await (const availability of this.availabilityModel.find().select('timeSlots').cursor()) {
+      result.scannedDays++;
+      const timeSlots = mergeAdjacentSlots(availability.timeSlots);
+      if (timeSlots.length === availability.timeSlots.length) continue;
+
+      await this.availabilityModel.updateOne({ _id: availability._id }, { timeSlots });
+      result.compactedDays++;
+      result.mergedSlots += availability.timeSlots.length - timeSlots.length;
+    }
+    return result;
+  }
+
   /**
    * Main delete method handling all deletion scenarios
    */
@@ -390,24 +560,23 @@ export class AvailabilityService {
 
       // Find existing availability
       const targetDate = new Date(date);
-      const availability = await this.availabilityModel.findOne({
-        influencerId: new Types.ObjectId(influencerId),
-        date: targetDate,
-      });
+      const availability = await this.findOrMaterializeDay(influencerId, targetDate);
 
       if (!availability) {
         throw new NotFoundException(`No availability found for date ${targetDate.toISOString().split('T')[0]}`);
       }
+      // Edited by hand, the day no longer follows the templates
+      availability.fromTemplate = false;
 
       let deletedCount = 0;
       let modifiedCount = 0;
 
       // Handle delete all
       if (deleteAll) {
-        const bookedSlots = availability.timeSlots.filter((slot) => slot.status === TimeSlotStatus.BOOKED);
+        const bookedSlots = availability.timeSlots.filter((slot) => RESERVED_SLOT_STATUSES.includes(slot.status));
         if (bookedSlots.length > 0) {
           throw new BadRequestException(
-            `Cannot delete all slots. Found booked slots: ${bookedSlots.map((s) => `${s.startTime}-${s.endTime}`).join(', ')}`,
+            `Cannot delete all slots. Found booked or held slots: ${bookedSlots.map((s) => `${s.startTime}-${s.endTime}`).join(', ')}`,
           );
         }
         deletedCount = availability.timeSlots.length;
@@ -439,8 +608,8 @@ export class AvailabilityService {
         };
       }
 
-      // Sort and save
-      availability.timeSlots = this.sortTimeSlots(availability.timeSlots);
+      // Sort, join what touches and save
+      availability.timeSlots = mergeAdjacentSlots(availability.timeSlots);
       await availability.save();
 
       return {
@@ -473,8 +642,8 @@ export class AvailabilityService {
 
     if (exactIndex !== -1) {
       const slot = availability.timeSlots[exactIndex];
-      if (slot.status === TimeSlotStatus.BOOKED) {
-        throw new BadRequestException(`Cannot delete booked slot ${startTime}-${endTime}`);
+      if (RESERVED_SLOT_STATUSES.includes(slot.status)) {
+        throw new BadRequestException(`Cannot delete ${slot.status} slot ${startTime}-${endTime}`);
       }
       availability.timeSlots.splice(exactIndex, 1);
       return { deleted: 1, modified: 0 };
@@ -506,10 +675,10 @@ export class AvailabilityService {
     }
 
     // Check for booked slots
-    const bookedSlots = overlappingSlots.filter((slot) => slot.status === TimeSlotStatus.BOOKED);
+    const bookedSlots = overlappingSlots.filter((slot) => RESERVED_SLOT_STATUSES.includes(slot.status));
     if (bookedSlots.length) {
       throw new BadRequestException(
-        `Cannot delete range ${startTime}-${endTime}. Contains booked slots: ${bookedSlots
+        `Cannot delete range ${startTime}-${endTime}. Contains booked or held slots: ${bookedSlots
           .map((s) => `${s.startTime}-${s.endTime}`)
           .join(', ')}`,
       );
@@ -576,6 +745,7 @@ export class AvailabilityService {
   async getInfluencerAvailability(
     influencerId: string,
     query: GetAvailabilityQueryDto,
+    viewerId?: string,
   ): Promise<PaginatedAvailabilityResponseDto> {
     if (!isValidObjectId(influencerId)) {
       throw new BadRequestException('Invalid influencer ID');
@@ -584,13 +754,18 @@ export class AvailabilityService {
     const page = Math.max(1, query.page || 1);
     const limit = Math.max(1, Math.min(100, query.limit || 10));
 
+    const influencerTimeZone = (await this.findTimeZone(influencerId)) || DEFAULT_TIME_ZONE;
+    // Times are returned in the zone asked for, else the viewer's, else the influencer's
+    const viewerTimeZone = query.timeZone || (viewerId && (await this.findTimeZone(viewerId))) || influencerTimeZone;
+
     // Build match query
     const matchQuery: any = {
       influencerId: new Types.ObjectId(influencerId),
       isActive: query.includeInactive ? { $in: [true, false] } : true,
     };
 
-    query.startDate = query.startDate || new Date().toISOString();
+    // From the influencer's today
+    query.startDate = query.startDate || utcToZonedTime(new Date(), influencerTimeZone).date.toISOString();
 
     // Add date range filters
     if (query.startDate || query.endDate) {
@@ -603,6 +778,58 @@ export class AvailabilityService {
       }
     }
 
+    // Template days are computed on the fly, so they are merged and paginated here
+    let from = startOfUtcDay(new Date(query.startDate));
+    if (from < new Date(query.startDate)) from = addUtcDays(from, 1);
+    const to = query.endDate ? new Date(query.endDate) : addUtcDays(from, TEMPLATE_HORIZON_DAYS);
+    if (to > addUtcDays(from, TEMPLATE_MAX_DAYS)) {
+      throw new BadRequestException(`The date range can cover at most ${TEMPLATE_MAX_DAYS} days`);
+    }
+    const { templates, blackouts } = await this.getTemplateRules(influencerId, from, to);
+    if (templates.length) {
+      matchQuery.date.$lte = to;
+      const stored = await this.availabilityModel.find(matchQuery as object).lean<Availability[]>();
+      const days = new Map<number, Availability>(stored.map((availability) => [availability.date.getTime(), availability]));
+
+      for (let day = from; day <= to; day = addUtcDays(day, 1)) {
+        const availability = days.get(day.getTime());
+        if (availability && !availability.fromTemplate) continue;
+
+        const templateSlots = templateSlotsForDate(day, templates, blackouts);
+        if (availability) {
+          availability.timeSlots = mergeWithStoredSlots(templateSlots, availability.timeSlots);
+        } else if (templateSlots.length) {
+          days.set(day.getTime(), {
+            influencerId: new Types.ObjectId(influencerId),
+            date: day,
+            timeZone: influencerTimeZone,
+            timeSlots: mergeWithStoredSlots(templateSlots, []),
+            isActive: true,
+            fromTemplate: true,
+          });
+        }
+      }
+
+      let docs = [...days.values()].sort((a, b) => a.date.getTime() - b.date.getTime());
+      if (query.status) {
+        docs = docs
+          .filter((e) => e.timeSlots.some((s) => s.status === query.status))
+          .map((e) => ({ ...e, timeSlots: e.timeSlots.filter((s) => s.status === query.status) }));
+      }
+      const totalPages = Math.ceil(docs.length / limit);
+
+      return {
+        docs: this.withSlotInstants(docs.slice((page - 1) * limit, page * limit), viewerTimeZone, influencerTimeZone),
+        timeZone: viewerTimeZone,
+        totalDocs: docs.length,
+        page,
+        limit,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1,
+      };
+    }
+
     const pipeline: any[] = [
       { $match: matchQuery },
       { $sort: { date: 1 } },
@@ -633,7 +860,8 @@ export class AvailabilityService {
     }
 
     return {
-      docs: data,
+      docs: this.withSlotInstants(data as Availability[], viewerTimeZone, influencerTimeZone),
+      timeZone: viewerTimeZone,
       totalDocs,
       page,
       limit,
@@ -643,6 +871,121 @@ export class AvailabilityService {
     };
   }
 
+  /**
+   * Common free time of all influencers of a service, e.g. the members of a collaboration, so it is only
+   * booked when everyone is available. Days are searched in the requested zone, each influencer's slots in their own.
+   */
+  async getJointAvailability(
+    serviceId: string,
+    query: GetJointAvailabilityQueryDto,
+    viewerId?: string,
+  ): Promise<JointAvailabilityResponseDto> {
+    const service = isValidObjectId(serviceId) ? await this.influencerServiceModel.findById(serviceId).lean() : null;
+    if (!service) {
+      throw new NotFoundException('Service not found');
+    }
+    const members: (Types.ObjectId | string)[] = service.users ?? [];
+    const influencerIds = members.map((user) => user.toString());
+    if (!influencerIds.length) {
+      throw new BadRequestException('The service has no influencers');
+    }
+
+    const timeZone = query.timeZone || (viewerId && (await this.findTimeZone(viewerId))) || DEFAULT_TIME_ZONE;
+    const today = utcToZonedTime(new Date(), timeZone).date;
+    const startDate = query.startDate ? startOfUtcDay(new Date(query.startDate)) : today;
+    const endDate = query.endDate ? startOfUtcDay(new Date(query.endDate)) : addUtcDays(startDate, JOINT_SEARCH_DEFAULT_DAYS);
+    if (endDate < startDate) {
+      throw new BadRequestException('endDate must not be before startDate');
+    }
+    if (endDate > addUtcDays(startDate, JOINT_SEARCH_MAX_DAYS)) {
+      throw new BadRequestException(`The date range can cover at most ${JOINT_SEARCH_MAX_DAYS} days`);
+    }
+
+    // Slots that already started cannot be booked anymore
+    const now = new Date();
+    const rangeStart = zonedTimeToUtc(startDate, '00:00', timeZone);
+    const from = rangeStart < now ? now : rangeStart;
+    const to = zonedTimeToUtc(addUtcDays(endDate, 1), '00:00', timeZone);
+
+    const minDuration = query.minDuration || 60;
+    const windows =
+      from < to
+        ? intersectWindows(
+            await Promise.all(influencerIds.map((influencerId) => this.getAvailableWindows(influencerId, from, to))),
+            minDuration,
+          )
+        : [];
+
+    return {
+      serviceId,
+      serviceTitle: service.title,
+      serviceType: service.type,
+      influencerIds,
+      timeZone,
+      minDuration,
+      windows: windows.map((window) => ({
+        startsAt: formatInTimeZone(window.start, timeZone),
+        endsAt: formatInTimeZone(window.end, timeZone),
+        durationMinutes: Math.floor((window.end.getTime() - window.start.getTime()) / 60000),
+      })),
+    };
+  }
+
+  /**
+   * Available slots of an influencer between two instants, stored days and template days alike
+   */
+  private async getAvailableWindows(influencerId: string, from: Date, to: Date): Promise<TimeWindow[]> {
+    const timeZone = (await this.findTimeZone(influencerId)) || DEFAULT_TIME_ZONE;
+    const firstDay = utcToZonedTime(from, timeZone).date;
+    const lastDay = utcToZonedTime(to, timeZone).date;
+
+    const [stored, { templates, blackouts }] = await Promise.all([
+      this.availabilityModel
+        .find({ influencerId: new Types.ObjectId(influencerId), isActive: true, date: { $gte: firstDay, $lte: lastDay } })
+        .lean<Availability[]>(),
+      this.getTemplateRules(influencerId, firstDay, lastDay),
+    ]);
+    const days = new Map(stored.map((availability) => [availability.date.getTime(), availability]));
+
+    const windows: TimeWindow[] = [];
+    for (let day = firstDay; day <= lastDay; day = addUtcDays(day, 1)) {
+      const availability = days.get(day.getTime());
+      const timeSlots =
+        availability && !availability.fromTemplate
+          ? availability.timeSlots
+          : mergeWithStoredSlots(templateSlotsForDate(day, templates, blackouts), availability?.timeSlots ?? []);
+      const slotTimeZone = availability?.timeZone || timeZone;
+
+      for (const slot of mergeAdjacentSlots(timeSlots)) {
+        if (slot.status !== TimeSlotStatus.AVAILABLE) continue;
+        const start = zonedTimeToUtc(day, slot.startTime, slotTimeZone);
+        const end = zonedTimeToUtc(day, slot.endTime, slotTimeZone);
+        if (end <= from || start >= to) continue;
+        windows.push({ start: start < from ? from : start, end: end > to ? to : end });
+      }
+    }
+    return windows;
+  }
+
+  /**
+   * Adds the start and end of every slot as ISO 8601 with the offset of the viewer's zone
+   */
+  private withSlotInstants(docs: Availability[], viewerTimeZone: string, influencerTimeZone: string): AvailabilityResponseDto[] {
+    return docs.map((availability) => {
+      const timeZone = availability.timeZone || influencerTimeZone;
+      const instant = (time: string) => formatInTimeZone(zonedTimeToUtc(availability.date, time, timeZone), viewerTimeZone);
+      return {
+        ...availability,
+        timeZone,
+        timeSlots: availability.timeSlots.map((slot) => ({
+          ...slot,
+          startsAt: instant(slot.startTime),
+          endsAt: instant(slot.endTime),
+        })),
+      };
+    }) as unknown as AvailabilityResponseDto[];
+  }
+
   // ----------------------------------------------------------------------------------------------------------------------------------
   // ----------------------------------------------------------------------------------------------------------------------------------
   // ----------------------------------------------------------------------------------------------------------------------------------
@@ -0,0 +1,84 @@
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsDate,
+  IsInt,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+export class TemplateTimeSlotDto {
+  @ApiProperty({ description: 'Start time in 24-hour format (HH:mm)', example: '09:00' })
+  @Matches(/^([01][0-9]|2[0-3]):[0-5][0-9]$/, { message: 'startTime must be in HH:mm format' })
+  startTime: string;
+
+  @ApiProperty({ description: 'End time in 24-hour format (HH:mm)', example: '17:00' })
+  @Matches(/^([01][0-9]|2[0-3]):[0-5][0-9]$/, { message: 'endTime must be in HH:mm format' })
+  endTime: string;
+}
+
+export class CreateAvailabilityTemplateDto {
+  @ApiPropertyOptional({ description: 'Label of the template', example: 'Office hours' })
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @ApiProperty({ description: 'Days of the week, 0 = Sunday … 6 = Saturday', example: [1, 2, 3, 4, 5] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  weekdays: number[];
+
+  @ApiProperty({ description: 'Time slots of each of these days, in the time zone of your profile', type: [TemplateTimeSlotDto] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => TemplateTimeSlotDto)
+  timeSlots: TemplateTimeSlotDto[];
+
+  @ApiProperty({ description: 'First day the template applies to', example: '2025-07-01' })
+  @IsDate()
+  @Type(() => Date)
+  validFrom: Date;
+
+  @ApiPropertyOptional({ description: 'Last day the template applies to, open-ended if omitted', example: '2025-12-31' })
+  @IsOptional()
+  @IsDate()
+  @Type(() => Date)
+  validUntil?: Date;
+
+  @ApiPropertyOptional({ description: 'Inactive templates produce no slots', default: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class UpdateAvailabilityTemplateDto extends PartialType(CreateAvailabilityTemplateDto) {}
+
+export class CreateAvailabilityBlackoutDto {
+  @ApiProperty({ description: 'First day off', example: '2025-12-24' })
+  @IsDate()
+  @Type(() => Date)
+  startDate: Date;
+
+  @ApiProperty({ description: 'Last day off, same as startDate for a single day', example: '2025-12-26' })
+  @IsDate()
+  @Type(() => Date)
+  endDate: Date;
+
+  @ApiPropertyOptional({ description: 'Reason, e.g. a holiday', example: 'Christmas' })
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
@@ -0,0 +1,35 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class ImportCalendarDto {
+  @ApiProperty({
+    description: 'Contents of an iCalendar (.ics) file, e.g. exported from Google Calendar or Outlook',
+    example:
+      'BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\nDTSTART:20250303T090000Z\r\nDTEND:20250303T100000Z\r\nEND:VEVENT\r\nEND:VCALENDAR',
+  })
+  @IsString()
+  @IsNotEmpty()
+  ics: string;
+}
+
+export class CalendarFeedTokenResponseDto {
+  @ApiProperty({ description: 'Secret token of the feed; creating a new one revokes the previous one' })
+  token: string;
+
+  @ApiProperty({
+    description: 'Path of the feed below the API base URL, to subscribe to from a calendar app',
+    example: '/availability/influencer/507f1f77bcf86cd799439011/calendar.ics?token=…',
+  })
+  feedPath: string;
+}
+
+export class ImportCalendarResponseDto {
+  @ApiProperty({ description: 'Busy events found in the calendar', example: 12 })
+  events: number;
+
+  @ApiProperty({ description: 'Events skipped because they are over or too far ahead', example: 4 })
+  skipped: number;
+
+  @ApiProperty({ description: 'Available slots (partly) marked as unavailable', example: 5 })
+  markedSlots: number;
+}
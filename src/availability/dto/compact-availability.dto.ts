@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CompactAvailabilityResponseDto {
+  @ApiProperty({ description: 'Stored availability days checked', example: 1200 })
+  scannedDays: number;
+
+  @ApiProperty({ description: 'Days that had adjacent slots to merge', example: 85 })
+  compactedDays: number;
+
+  @ApiProperty({ description: 'Slots removed by merging them into their neighbours', example: 240 })
+  mergedSlots: number;
+}
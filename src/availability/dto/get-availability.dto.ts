@@ -1,5 +1,5 @@
 // src/availability/dto/get-availability.dto.ts
-import { IsOptional, IsDateString, IsEnum, IsBoolean } from 'class-validator';
+import { IsOptional, IsDateString, IsEnum, IsBoolean, IsTimeZone, IsInt, Min, Max } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { TimeSlotStatus } from '../schemas/availability.schema';
 import { Transform } from 'class-transformer';
@@ -10,7 +10,7 @@ export class GetAvailabilityQueryDto {
   @IsDateString()
   startDate?: string;
 
-  @ApiPropertyOptional({ description: 'End date for filtering (YYYY-MM-DD)' })
+  @ApiPropertyOptional({ description: 'End date for filtering (YYYY-MM-DD), at most 366 days after startDate' })
   @IsOptional()
   @IsDateString()
   endDate?: string;
@@ -23,6 +23,14 @@ export class GetAvailabilityQueryDto {
   @IsEnum(TimeSlotStatus)
   status?: TimeSlotStatus;
 
+  @ApiPropertyOptional({
+    description: "IANA time zone to return slot times in. Defaults to the viewer's, then the influencer's",
+    example: 'America/New_York',
+  })
+  @IsOptional()
+  @IsTimeZone()
+  timeZone?: string;
+
   @ApiPropertyOptional({ description: 'Include inactive availability records' })
   @IsOptional()
   @Transform(({ value }) => value === 'true')
@@ -47,6 +55,34 @@ export class GetServiceAvailabilityQueryDto extends GetAvailabilityQueryDto {
   date?: string;
 }
 
+export class GetJointAvailabilityQueryDto {
+  @ApiPropertyOptional({ description: 'First day to search (YYYY-MM-DD) in the requested zone. Defaults to today' })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @ApiPropertyOptional({ description: 'Last day to search (YYYY-MM-DD), at most 62 days after startDate. Defaults to 14 days' })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @ApiPropertyOptional({ description: 'Minimum length of a common slot in minutes', example: 60, default: 60 })
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value))
+  @IsInt()
+  @Min(1)
+  @Max(24 * 60)
+  minDuration?: number = 60;
+
+  @ApiPropertyOptional({
+    description: "IANA time zone of the days searched and the slots returned. Defaults to the viewer's, then UTC",
+    example: 'America/New_York',
+  })
+  @IsOptional()
+  @IsTimeZone()
+  timeZone?: string;
+}
+
 // Response DTOs
 export class TimeSlotResponseDto {
   @ApiProperty()
@@ -60,6 +96,12 @@ export class TimeSlotResponseDto {
 
   @ApiProperty({ required: false })
   bookingId?: string;
+
+  @ApiProperty({ description: 'Start in the requested zone, e.g. 2025-03-03T09:00:00+01:00' })
+  startsAt: string;
+
+  @ApiProperty({ description: 'End in the requested zone' })
+  endsAt: string;
 }
 
 export class AvailabilityResponseDto {
@@ -72,6 +114,9 @@ export class AvailabilityResponseDto {
   @ApiProperty()
   date: string;
 
+  @ApiProperty({ description: "IANA zone of startTime and endTime (the influencer's)" })
+  timeZone: string;
+
   @ApiProperty({ type: [TimeSlotResponseDto] })
   timeSlots: TimeSlotResponseDto[];
 
@@ -108,10 +153,50 @@ export class ServiceAvailabilityResponseDto {
   totalAvailableSlots: number;
 }
 
+export class JointAvailabilityWindowDto {
+  @ApiProperty({ description: 'Start in the requested zone, e.g. 2025-03-03T09:00:00+01:00' })
+  startsAt: string;
+
+  @ApiProperty({ description: 'End in the requested zone' })
+  endsAt: string;
+
+  @ApiProperty({ example: 90 })
+  durationMinutes: number;
+}
+
+export class JointAvailabilityResponseDto {
+  @ApiProperty()
+  serviceId: string;
+
+  @ApiProperty()
+  serviceTitle: string;
+
+  @ApiProperty()
+  serviceType: string;
+
+  @ApiProperty({ type: [String], description: 'Influencers that all have to be free' })
+  influencerIds: string[];
+
+  @ApiProperty({ description: 'IANA zone of startsAt and endsAt' })
+  timeZone: string;
+
+  @ApiProperty({ description: 'Minimum length of the slots in minutes' })
+  minDuration: number;
+
+  @ApiProperty({
+    type: [JointAvailabilityWindowDto],
+    description: 'Periods in which every influencer of the service is available',
+  })
+  windows: JointAvailabilityWindowDto[];
+}
+
 export class PaginatedAvailabilityResponseDto {
   @ApiProperty({ type: [AvailabilityResponseDto] })
   docs: AvailabilityResponseDto[];
 
+  @ApiProperty({ description: 'IANA zone of startsAt and endsAt' })
+  timeZone: string;
+
   @ApiProperty()
   totalDocs: number;
 
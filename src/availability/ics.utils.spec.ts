@@ -0,0 +1,75 @@
+import { buildCalendar, parseBusyPeriods } from './ics.utils';
+
+describe('ics utils', () => {
+  it('should build events in UTC, all-day events as dates, and fold long lines', () => {
+    const ics = buildCalendar(
+      'Bookings',
+      [
+        {
+          uid: 'slot-1',
+          summary: 'Booked; studio, room 2',
+          start: new Date('2025-03-03T09:00:00Z'),
+          end: new Date('2025-03-03T10:30:00Z'),
+        },
+        {
+          uid: 'order-1',
+          summary: 'Delivery',
+          description: 'x'.repeat(100),
+          start: new Date('2025-03-05'),
+          end: new Date('2025-03-06'),
+          allDay: true,
+        },
+      ],
+      new Date('2025-03-01T12:00:00Z'),
+    );
+    const lines = ics.split('\r\n');
+    expect(lines).toContain('DTSTART:20250303T090000Z');
+    expect(lines).toContain('DTEND:20250303T103000Z');
+    expect(lines).toContain('SUMMARY:Booked\\; studio\\, room 2');
+    expect(lines).toContain('DTSTART;VALUE=DATE:20250305');
+    expect(lines).toContain('DTEND;VALUE=DATE:20250306');
+    expect(lines.every((line) => line.length <= 75)).toBe(true);
+    expect(parseBusyPeriods(ics)).toEqual([
+      { start: new Date('2025-03-03T09:00:00Z'), end: new Date('2025-03-03T10:30:00Z') },
+      { start: new Date('2025-03-05'), end: new Date('2025-03-06') },
+    ]);
+  });
+
+  it('should read zoned, floating and all-day times, skipping free and cancelled events', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'DTSTART;TZID=America/New_York:20250715T090000',
+      'DTEND;TZID=America/New_York:20250715T100000',
+      'BEGIN:VALARM',
+      'TRIGGER:-PT15M',
+      'DURATION:PT5M',
+      'END:VALARM',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART:20250716T140000',
+      'DURATION:PT1H30M',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20250720',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART:20250717T090000Z',
+      'DTEND:20250717T100000Z',
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART:20250718T090000Z',
+      'DTEND:20250718T100000Z',
+      'STATUS:CANCELLED',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    expect(parseBusyPeriods(ics, 'Europe/Paris')).toEqual([
+      { start: new Date('2025-07-15T13:00:00Z'), end: new Date('2025-07-15T14:00:00Z') },
+      { start: new Date('2025-07-16T12:00:00Z'), end: new Date('2025-07-16T13:30:00Z') },
+      { start: new Date('2025-07-19T22:00:00Z'), end: new Date('2025-07-20T22:00:00Z') },
+    ]);
+  });
+});
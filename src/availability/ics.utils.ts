@@ -0,0 +1,188 @@
+import { DEFAULT_TIME_ZONE, zonedTimeToUtc } from './time-zone.utils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// RFC 5545 limits content lines to 75 octets
+const MAX_LINE_LENGTH = 75;
+
+export interface CalendarEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  start: Date;
+  end: Date;
+  // Whole days: start and (exclusive) end are calendar days at midnight UTC
+  allDay?: boolean;
+}
+
+export interface BusyPeriod {
+  start: Date;
+  end: Date;
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const formatDateTime = (instant: Date) => `${instant.toISOString().slice(0, 19).replace(/[-:]/g, '')}Z`;
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10).replace(/-/g, '');
+
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let rest = line;
+  while (rest.length > MAX_LINE_LENGTH) {
+    chunks.push(rest.slice(0, MAX_LINE_LENGTH));
+    // Continuation lines start with a space that counts towards their length
+    rest = ` ${rest.slice(MAX_LINE_LENGTH)}`;
+  }
+  chunks.push(rest);
+  return chunks.join('\r\n');
+}
+
+/**
+ * An iCalendar (RFC 5545) document with timed events in UTC and all-day events as dates
+ */
+export function buildCalendar(name: string, events: CalendarEvent[], now = new Date()): string {
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//Influencer Platform//Availability//EN', 'CALSCALE:GREGORIAN'];
+  lines.push('METHOD:PUBLISH', `X-WR-CALNAME:${escapeText(name)}`);
+  for (const event of events) {
+    lines.push('BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${formatDateTime(now)}`);
+    if (event.allDay) {
+      lines.push(`DTSTART;VALUE=DATE:${formatDate(event.start)}`, `DTEND;VALUE=DATE:${formatDate(event.end)}`);
+    } else {
+      lines.push(`DTSTART:${formatDateTime(event.start)}`, `DTEND:${formatDateTime(event.end)}`);
+    }
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    lines.push('END:VEVENT');
+  }
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  // The value starts after the first colon outside of quoted parameter values
+  let quoted = false;
+  let separator = -1;
+  for (let i = 0; i < line.length && separator === -1; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ':' && !quoted) separator = i;
+  }
+  if (separator === -1) return null;
+  const [name, ...params] = line.slice(0, separator).split(';');
+  return {
+    name: name.toUpperCase(),
+    params: Object.fromEntries(
+      params.map((param) => {
+        const [key, value = ''] = param.split('=');
+        return [key.toUpperCase(), value.replace(/^"|"$/g, '')];
+      }),
+    ),
+    value: line.slice(separator + 1),
+  };
+}
+
+function isKnownTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * DATE values become calendar days at midnight UTC, DATE-TIME values instants. Floating times and
+ * zones this runtime does not know (e.g. Windows names) are read in the fallback zone.
+ */
+function parseDateValue(property: ContentLine, fallbackTimeZone: string): { value: Date; allDay: boolean } | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(property.value.trim());
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  if (hours === undefined) return { value: date, allDay: true };
+  if (utc) {
+    return {
+      value: new Date(date.getTime() + ((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000),
+      allDay: false,
+    };
+  }
+
+  const timeZone = property.params.TZID && isKnownTimeZone(property.params.TZID) ? property.params.TZID : fallbackTimeZone;
+  return { value: zonedTimeToUtc(date, `${hours}:${minutes}`, timeZone), allDay: false };
+}
+
+// Day and time parts of a DURATION value, e.g. P1D or PT1H30M
+function parseDuration(value: string): number | null {
+  const match = /^\+?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [weeks, days, hours, minutes, seconds] = match.slice(1).map((part) => Number(part ?? 0));
+  return ((((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000;
+}
+
+/**
+ * Busy periods of the events in an iCalendar document. Free (TRANSPARENT) and cancelled events are skipped,
+ * recurrence rules are not expanded.
+ */
+export function parseBusyPeriods(ics: string, fallbackTimeZone = DEFAULT_TIME_ZONE): BusyPeriod[] {
+  const lines = ics
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/)
+    .map(parseContentLine)
+    .filter((line): line is ContentLine => !!line);
+
+  const periods: BusyPeriod[] = [];
+  let event: Map<string, ContentLine> | null = null;
+  // Components nested in an event, e.g. VALARM, have properties of their own
+  let nested = 0;
+  for (const line of lines) {
+    const component = line.value.toUpperCase();
+    if (line.name === 'BEGIN' && component === 'VEVENT') {
+      event = new Map();
+      nested = 0;
+    } else if (line.name === 'END' && component === 'VEVENT' && event) {
+      const period = toBusyPeriod(event, fallbackTimeZone);
+      if (period) periods.push(period);
+      event = null;
+    } else if (event && line.name === 'BEGIN') {
+      nested++;
+    } else if (event && line.name === 'END') {
+      nested--;
+    } else if (event && !nested && !event.has(line.name)) {
+      event.set(line.name, line);
+    }
+  }
+  return periods;
+}
+
+function toBusyPeriod(event: Map<string, ContentLine>, fallbackTimeZone: string): BusyPeriod | null {
+  if (event.get('TRANSP')?.value.toUpperCase() === 'TRANSPARENT') return null;
+  if (event.get('STATUS')?.value.toUpperCase() === 'CANCELLED') return null;
+
+  const dtStart = event.get('DTSTART');
+  const start = dtStart && parseDateValue(dtStart, fallbackTimeZone);
+  if (!start) return null;
+
+  let end: Date | undefined;
+  const dtEnd = event.get('DTEND');
+  const duration = event.get('DURATION');
+  if (dtEnd) {
+    end = parseDateValue(dtEnd, fallbackTimeZone)?.value;
+  } else if (duration) {
+    const milliseconds = parseDuration(duration.value);
+    end = milliseconds === null ? undefined : new Date(start.value.getTime() + milliseconds);
+  } else if (start.allDay) {
+    end = new Date(start.value.getTime() + DAY_MS);
+  }
+  if (!end || end <= start.value) return null;
+
+  // All-day events cover whole days wherever the calendar owner is
+  const toInstant = (date: Date) => (start.allDay ? zonedTimeToUtc(date, '00:00', fallbackTimeZone) : date);
+  return { start: toInstant(start.value), end: toInstant(end) };
+}
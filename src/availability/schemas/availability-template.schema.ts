@@ -0,0 +1,69 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+@Schema({ _id: false })
+export class TemplateTimeSlot {
+  // HH:mm
+  @Prop({ type: String, required: true })
+  startTime: string;
+
+  @Prop({ type: String, required: true })
+  endTime: string;
+}
+
+/**
+ * Weekly recurring availability, e.g. Mon–Fri 09:00–17:00. Dates are computed from it on read;
+ * an Availability document stored for a date overrides it.
+ */
+@Schema({ timestamps: true })
+export class AvailabilityTemplate extends Document {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  influencerId: Types.ObjectId;
+
+  @Prop({ type: String, trim: true })
+  name?: string;
+
+  // 0 = Sunday … 6 = Saturday
+  @Prop({ type: [Number], required: true })
+  weekdays: number[];
+
+  @Prop({ type: [SchemaFactory.createForClass(TemplateTimeSlot)], required: true })
+  timeSlots: TemplateTimeSlot[];
+
+  // First and last day the template applies to; open-ended without validUntil
+  @Prop({ type: Date, required: true })
+  validFrom: Date;
+
+  @Prop({ type: Date })
+  validUntil?: Date;
+
+  @Prop({ type: Boolean, default: true })
+  isActive: boolean;
+}
+
+export const AvailabilityTemplateSchema = SchemaFactory.createForClass(AvailabilityTemplate);
+
+AvailabilityTemplateSchema.index({ influencerId: 1, isActive: 1 });
+
+/**
+ * Days off (holidays, vacations) on which templates produce no slots.
+ */
+@Schema({ timestamps: true })
+export class AvailabilityBlackout extends Document {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  influencerId: Types.ObjectId;
+
+  // Inclusive range of days
+  @Prop({ type: Date, required: true })
+  startDate: Date;
+
+  @Prop({ type: Date, required: true })
+  endDate: Date;
+
+  @Prop({ type: String, trim: true })
+  reason?: string;
+}
+
+export const AvailabilityBlackoutSchema = SchemaFactory.createForClass(AvailabilityBlackout);
+
+AvailabilityBlackoutSchema.index({ influencerId: 1, startDate: 1, endDate: 1 });
@@ -1,10 +1,13 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import { DEFAULT_TIME_ZONE } from '../time-zone.utils';
 
 export enum TimeSlotStatus {
   AVAILABLE = 'available',
   UNAVAILABLE = 'unavailable',
   BOOKED = 'booked',
+  // Reserved by a service in a client's cart, see Booking
+  HELD = 'held',
 }
 
 export interface TimeSlot {
@@ -21,9 +24,14 @@ export class Availability {
   @Prop({ type: Types.ObjectId, ref: 'User', required: true })
   influencerId: Types.ObjectId;
 
+  // Calendar day in `timeZone`, at midnight UTC
   @Prop({ required: true })
   date: Date;
 
+  // IANA zone of the influencer the slot times are in
+  @Prop({ type: String, default: DEFAULT_TIME_ZONE })
+  timeZone?: string;
+
   @Prop({
     type: [
       {
@@ -67,6 +75,10 @@ export class Availability {
 
   @Prop({ type: Boolean, default: true })
   isActive: boolean;
+
+  // Only stored to keep bookings of a day computed from templates; the templates still fill the rest of it
+  @Prop({ type: Boolean, default: false })
+  fromTemplate: boolean;
 }
 
 export type AvailabilityDocument = Availability & Document;
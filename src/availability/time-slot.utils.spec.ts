@@ -0,0 +1,53 @@
+import { Types } from 'mongoose';
+import { TimeSlotStatus } from './schemas/availability.schema';
+import { intersectWindows, mergeAdjacentSlots } from './time-slot.utils';
+
+describe('mergeAdjacentSlots', () => {
+  it('should join touching slots with the same status and no booking', () => {
+    const slots = [
+      { startTime: '10:00', endTime: '11:00', status: TimeSlotStatus.AVAILABLE },
+      { startTime: '09:00', endTime: '10:00', status: TimeSlotStatus.AVAILABLE },
+      { startTime: '11:00', endTime: '12:00', status: TimeSlotStatus.UNAVAILABLE },
+      { startTime: '12:00', endTime: '12:30', status: TimeSlotStatus.UNAVAILABLE },
+      { startTime: '14:00', endTime: '15:00', status: TimeSlotStatus.AVAILABLE },
+    ];
+
+    expect(mergeAdjacentSlots(slots)).toEqual([
+      { startTime: '09:00', endTime: '11:00', status: TimeSlotStatus.AVAILABLE },
+      { startTime: '11:00', endTime: '12:30', status: TimeSlotStatus.UNAVAILABLE },
+      { startTime: '14:00', endTime: '15:00', status: TimeSlotStatus.AVAILABLE },
+    ]);
+  });
+
+  it('should keep booked and held slots separate', () => {
+    const bookingId = new Types.ObjectId();
+    const slots = [
+      { startTime: '09:00', endTime: '10:00', status: TimeSlotStatus.BOOKED, bookingId },
+      { startTime: '10:00', endTime: '11:00', status: TimeSlotStatus.BOOKED, bookingId },
+      { startTime: '11:00', endTime: '12:00', status: TimeSlotStatus.HELD, bookingId: new Types.ObjectId() },
+      { startTime: '12:00', endTime: '13:00', status: TimeSlotStatus.AVAILABLE },
+    ];
+
+    expect(mergeAdjacentSlots(slots)).toHaveLength(4);
+  });
+});
+
+describe('intersectWindows', () => {
+  const window = (start: string, end: string) => ({
+    start: new Date(`2025-03-03T${start}:00Z`),
+    end: new Date(`2025-03-03T${end}:00Z`),
+  });
+
+  it('should keep the periods every member is free for at least the minimum duration', () => {
+    const first = [window('09:00', '12:00'), window('13:00', '18:00')];
+    const second = [window('10:00', '14:00'), window('15:00', '15:20')];
+    const third = [window('08:00', '20:00')];
+
+    expect(intersectWindows([first, second, third], 30)).toEqual([window('10:00', '12:00'), window('13:00', '14:00')]);
+    expect(intersectWindows([first, second, third], 90)).toEqual([window('10:00', '12:00')]);
+  });
+
+  it('should find nothing when a member is never free', () => {
+    expect(intersectWindows([[window('09:00', '12:00')], []], 30)).toEqual([]);
+  });
+});
@@ -0,0 +1,49 @@
+import { TimeSlot } from './schemas/availability.schema';
+
+/**
+ * Sorts the slots of a day and joins slots that touch, have the same status and belong to no booking,
+ * e.g. 09:00–10:00 and 10:00–11:00 both available become 09:00–11:00. Booked and held slots stay as
+ * they are, so they can still be released one by one.
+ */
+export function mergeAdjacentSlots(timeSlots: TimeSlot[]): TimeSlot[] {
+  const sorted = [...timeSlots].sort((a, b) => a.startTime.localeCompare(b.startTime));
+  const merged: TimeSlot[] = [];
+  for (const slot of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && last.endTime === slot.startTime && last.status === slot.status && !last.bookingId && !slot.bookingId) {
+      merged[merged.length - 1] = { startTime: last.startTime, endTime: slot.endTime, status: slot.status };
+    } else {
+      merged.push(slot);
+    }
+  }
+  return merged;
+}
+
+export interface TimeWindow {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Periods in which every member is free, given each member's sorted, non-overlapping free windows.
+ * Only periods of at least `minimumMinutes` are kept.
+ */
+export function intersectWindows(windowsPerMember: TimeWindow[][], minimumMinutes: number): TimeWindow[] {
+  if (!windowsPerMember.length) return [];
+
+  const common = windowsPerMember.reduce((current, windows) => {
+    const result: TimeWindow[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < current.length && j < windows.length) {
+      const start = current[i].start > windows[j].start ? current[i].start : windows[j].start;
+      const end = current[i].end < windows[j].end ? current[i].end : windows[j].end;
+      if (start < end) result.push({ start, end });
+      // Move past whichever window ends first
+      if (current[i].end < windows[j].end) i++;
+      else j++;
+    }
+    return result;
+  });
+  return common.filter((window) => window.end.getTime() - window.start.getTime() >= minimumMinutes * 60000);
+}
@@ -0,0 +1,28 @@
+import { earliestDeliveryDate, formatInTimeZone, utcToZonedTime, zonedTimeToUtc } from './time-zone.utils';
+
+describe('time zone utils', () => {
+  it('should convert wall-clock times of a day to instants and back, across daylight saving time', () => {
+    const winter = zonedTimeToUtc(new Date('2025-01-15'), '09:00', 'Europe/Paris');
+    const summer = zonedTimeToUtc(new Date('2025-07-15'), '09:00', 'Europe/Paris');
+    expect(winter.toISOString()).toBe('2025-01-15T08:00:00.000Z');
+    expect(summer.toISOString()).toBe('2025-07-15T07:00:00.000Z');
+    expect(utcToZonedTime(summer, 'Asia/Kolkata')).toEqual({ date: new Date('2025-07-15'), time: '12:30' });
+    expect(utcToZonedTime(new Date('2025-07-15T23:30:00Z'), 'Asia/Tokyo')).toEqual({
+      date: new Date('2025-07-16'),
+      time: '08:30',
+    });
+  });
+
+  it('should format instants with the offset of the zone', () => {
+    expect(formatInTimeZone(new Date('2025-07-15T07:00:00Z'), 'Europe/Paris')).toBe('2025-07-15T09:00:00+02:00');
+    expect(formatInTimeZone(new Date('2025-07-15T07:00:00Z'), 'America/New_York')).toBe('2025-07-15T03:00:00-04:00');
+    expect(formatInTimeZone(new Date('2025-07-15T07:00:00Z'), 'UTC')).toBe('2025-07-15T07:00:00+00:00');
+  });
+
+  it('should count minimum days from the latest calendar day among the influencers', () => {
+    // Already the 16th in Tokyo, still the 15th in New York
+    const now = new Date('2025-07-15T20:00:00Z');
+    expect(earliestDeliveryDate(2, ['America/New_York'], now)).toEqual(new Date('2025-07-17'));
+    expect(earliestDeliveryDate(2, ['America/New_York', 'Asia/Tokyo'], now)).toEqual(new Date('2025-07-18'));
+  });
+});
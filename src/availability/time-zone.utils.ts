@@ -0,0 +1,84 @@
+// Influencers and viewers without a time zone on their profile
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ZonedTime {
+  // Calendar day at midnight UTC, the way availability dates are stored
+  date: Date;
+  // HH:mm
+  time: string;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getParts(instant: Date, timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(instant).map((part) => [part.type, Number(part.value)]));
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute, second: parts.second };
+}
+
+/**
+ * Minutes the zone is ahead of UTC at the given instant, e.g. 120 for Europe/Paris in summer
+ */
+export function getTimeZoneOffset(instant: Date, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = getParts(instant, timeZone);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  return Math.round((asUtc - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * The instant a wall-clock time of a calendar day happens in the zone. Times skipped by a
+ * daylight saving change resolve to the same wall-clock time with the earlier offset.
+ */
+export function zonedTimeToUtc(date: Date, time: string, timeZone: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClock = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), hours, minutes);
+  const firstGuess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone) * 60000;
+  return new Date(wallClock - getTimeZoneOffset(new Date(firstGuess), timeZone) * 60000);
+}
+
+export function utcToZonedTime(instant: Date, timeZone: string): ZonedTime {
+  const { year, month, day, hour, minute } = getParts(instant, timeZone);
+  return {
+    date: new Date(Date.UTC(year, month - 1, day)),
+    time: `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`,
+  };
+}
+
+/**
+ * ISO 8601 with the zone's offset, e.g. 2025-03-03T09:00:00+01:00
+ */
+export function formatInTimeZone(instant: Date, timeZone: string): string {
+  const offset = getTimeZoneOffset(instant, timeZone);
+  const local = new Date(Math.floor(instant.getTime() / 1000) * 1000 + offset * 60000);
+  const sign = offset < 0 ? '-' : '+';
+  const hours = Math.floor(Math.abs(offset) / 60)
+    .toString()
+    .padStart(2, '0');
+  const minutes = (Math.abs(offset) % 60).toString().padStart(2, '0');
+  return `${local.toISOString().slice(0, 19)}${sign}${hours}:${minutes}`;
+}
+
+/**
+ * First delivery day allowed when every influencer needs `minimumDays` full days from their own today
+ */
+export function earliestDeliveryDate(minimumDays: number, timeZones: string[], now = new Date()): Date {
+  const todays = (timeZones.length ? timeZones : [DEFAULT_TIME_ZONE]).map((timeZone) =>
+    utcToZonedTime(now, timeZone).date.getTime(),
+  );
+  return new Date(Math.max(...todays) + minimumDays * DAY_MS);
+}
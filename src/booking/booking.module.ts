@@ -0,0 +1,20 @@
+/**
+ * Booking Module
+ *
+ * Time slot reservations for services added to the cart:
+ * - Holds the slot of every influencer of the service until the cart expires
+ * - Books the slot for good once the order is paid
+ * - Gives the slot back on removal from the cart, cancellation or rejection
+ */
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { BookingService } from './booking.service';
+import { Booking, BookingSchema } from './schemas/booking.schema';
+import { AvailabilityModule } from 'src/availability/availability.module';
+
+@Module({
+  imports: [MongooseModule.forFeature([{ name: Booking.name, schema: BookingSchema }]), AvailabilityModule],
+  providers: [BookingService],
+  exports: [BookingService],
+})
+export class BookingModule {}
@@ -0,0 +1,185 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { FilterQuery, Model, Types } from 'mongoose';
+import { AvailabilityService } from 'src/availability/availability.service';
+import { TimeSlotStatus } from 'src/availability/schemas/availability.schema';
+import { Booking, BookingSlot, BookingStatus } from './schemas/booking.schema';
+
+export interface HoldSlotRequest {
+  clientId: string;
+  serviceId: string;
+  influencerIds: string[];
+  startsAt: Date;
+  endsAt: Date;
+  expiresAt: Date;
+}
+
+@Injectable()
+export class BookingService {
+  private readonly logger = new Logger(BookingService.name);
+
+  constructor(
+    @InjectModel(Booking.name) private bookingModel: Model<Booking>,
+    private readonly availabilityService: AvailabilityService,
+  ) {}
+
+  /**
+   * Holds the slot of every influencer of the service, or none of them
+   */
+  async holdSlot(request: HoldSlotRequest): Promise<Booking> {
+    const { influencerIds, startsAt, endsAt } = request;
+    if (startsAt >= endsAt) {
+      throw new BadRequestException('The time slot must end after it starts');
+    }
+
+    const slots: BookingSlot[] = [];
+    for (const influencerId of influencerIds) {
+      const slot = await this.availabilityService.toInfluencerSlot(influencerId, startsAt, endsAt);
+      const { isAvailable } = await this.availabilityService.checkInfluencerAvailability(
+        influencerId,
+        slot.date,
+        slot.startTime,
+        slot.endTime,
+      );
+      if (!isAvailable) {
+        throw new BadRequestException(
+          `The time slot ${startsAt.toISOString()}-${endsAt.toISOString()} is not available for every influencer of this service`,
+        );
+      }
+      slots.push({ influencerId: new Types.ObjectId(influencerId), ...slot });
+    }
+
+    const booking = await this.bookingModel.create({
+      clientId: new Types.ObjectId(request.clientId),
+      serviceId: new Types.ObjectId(request.serviceId),
+      influencerIds: influencerIds.map((influencerId) => new Types.ObjectId(influencerId)),
+      startsAt,
+      endsAt,
+      slots,
+      expiresAt: request.expiresAt,
+    });
+
+    try {
+      for (const slot of slots) {
+        await this.availabilityService.updateTimeSlotPortion(
+          slot.influencerId.toString(),
+          slot.date,
+          slot.startTime,
+          slot.endTime,
+          {
+            status: TimeSlotStatus.HELD,
+            bookingId: booking.id as string,
+          },
+        );
+      }
+    } catch (error) {
+      // Taken by someone else in the meantime; give back what was already held
+      await this.release({ _id: booking._id });
+      throw error;
+    }
+    return booking;
+  }
+
+  /**
+   * Moves a hold from the cart to the order created from it, so it no longer expires with the cart
+   */
+  async attachToOrder(bookingId: Types.ObjectId, orderId: Types.ObjectId): Promise<Date> {
+    const attached = await this.bookingModel.findOneAndUpdate(
+      { _id: bookingId, status: BookingStatus.HELD, orderId: { $exists: false }, expiresAt: { $gt: new Date() } },
+      { $set: { orderId }, $unset: { expiresAt: 1 } },
+    );
+    if (!attached) {
+      throw new BadRequestException('The time slot hold of a cart item has expired, add the service to the cart again');
+    }
+    // The expiry of the cart hold, for a checkout that has to give the hold back
+    return attached.expiresAt!;
+  }
+
+  // Undoes attachToOrder when the checkout fails: the hold is the cart's again and expires with it
+  async detachFromOrder(bookingId: Types.ObjectId, orderId: Types.ObjectId, expiresAt: Date): Promise<void> {
+    await this.bookingModel.updateOne(
+      { _id: bookingId, status: BookingStatus.HELD, orderId },
+      { $unset: { orderId: 1 }, $set: { expiresAt } },
+    );
+  }
+
+  // Called once the order is paid
+  async confirmBooking(bookingId: Types.ObjectId): Promise<void> {
+    const booking = await this.bookingModel.findOneAndUpdate(
+      { _id: bookingId, status: BookingStatus.HELD },
+      { $set: { status: BookingStatus.BOOKED, bookedAt: new Date() } },
+      { new: true },
+    );
+    if (!booking) return;
+
+    for (const slot of booking.slots) {
+      await this.availabilityService.updateTimeSlotPortion(
+        slot.influencerId.toString(),
+        slot.date,
+        slot.startTime,
+        slot.endTime,
+        {
+          status: TimeSlotStatus.BOOKED,
+          bookingId: booking.id as string,
+        },
+      );
+    }
+  }
+
+  // Cart item removed or replaced; holds already taken over by an order stay
+  async releaseHold(bookingId: Types.ObjectId): Promise<void> {
+    await this.release({ _id: bookingId, status: BookingStatus.HELD, orderId: { $exists: false } });
+  }
+
+  // Order cancelled or rejected
+  async releaseBooking(bookingId: Types.ObjectId): Promise<void> {
+    await this.release({ _id: bookingId });
+  }
+
+  async releaseExpiredHolds(): Promise<number> {
+    const expired = await this.bookingModel.find({
+      status: BookingStatus.HELD,
+      orderId: { $exists: false },
+      expiresAt: { $lte: new Date() },
+    });
+    for (const booking of expired) {
+      await this.release({ _id: booking._id, status: BookingStatus.HELD, orderId: { $exists: false } });
+    }
+    return expired.length;
+  }
+
+  // Carts are removed by a TTL index without notice, so their holds are swept here
+  @Cron(CronExpression.EVERY_5_MINUTES)
+  async handleReleaseExpiredHoldsCron() {
+    const released = await this.releaseExpiredHolds();
+    if (released > 0) {
+      this.logger.log(`Released ${released} expired time slot holds`);
+    }
+  }
+
+  private async release(filter: FilterQuery<Booking>): Promise<void> {
+    // Conditional on the status so a booking is released only once
+    const booking = await this.bookingModel.findOneAndUpdate(
+      { ...filter, status: filter.status ?? { $ne: BookingStatus.RELEASED } },
+      { $set: { status: BookingStatus.RELEASED, releasedAt: new Date() }, $unset: { expiresAt: 1 } },
+      { new: true },
+    );
+    if (!booking) return;
+
+    for (const slot of booking.slots) {
+      try {
+        await this.availabilityService.releaseTimeSlot(
+          slot.influencerId.toString(),
+          slot.date,
+          slot.startTime,
+          slot.endTime,
+          booking.id as string,
+        );
+      } catch (error) {
+        // The influencer changed the slot in the meantime, nothing left to free
+        this.logger.warn(`Could not release the slot of booking ${booking.id}: ${error.message}`);
+      }
+    }
+  }
+}
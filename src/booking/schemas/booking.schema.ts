@@ -0,0 +1,76 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export enum BookingStatus {
+  // Slot reserved while the service sits in the cart
+  HELD = 'HELD',
+  // Paid, the slot is booked for good
+  BOOKED = 'BOOKED',
+  // Expired, removed from the cart, cancelled or rejected; the slot is available again
+  RELEASED = 'RELEASED',
+}
+
+@Schema({ _id: false })
+export class BookingSlot {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  influencerId: Types.ObjectId;
+
+  // Availability day and HH:mm times in the influencer's time zone
+  @Prop({ type: Date, required: true })
+  date: Date;
+
+  @Prop({ type: String, required: true })
+  startTime: string;
+
+  @Prop({ type: String, required: true })
+  endTime: string;
+
+  @Prop({ type: String, required: true })
+  timeZone: string;
+}
+
+/**
+ * The same period held in the availability of every influencer of a service, for one client.
+ */
+@Schema({ timestamps: true })
+export class Booking extends Document {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  clientId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'InfluencerServices', required: true })
+  serviceId: Types.ObjectId;
+
+  @Prop({ type: [{ type: Types.ObjectId, ref: 'User' }], required: true })
+  influencerIds: Types.ObjectId[];
+
+  @Prop({ type: Date, required: true })
+  startsAt: Date;
+
+  @Prop({ type: Date, required: true })
+  endsAt: Date;
+
+  // The period in each influencer's own time zone
+  @Prop({ type: [SchemaFactory.createForClass(BookingSlot)], required: true })
+  slots: BookingSlot[];
+
+  @Prop({ type: String, enum: BookingStatus, default: BookingStatus.HELD })
+  status: BookingStatus;
+
+  // When a hold still in the cart is released; cleared once the booking belongs to an order
+  @Prop({ type: Date })
+  expiresAt?: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'Order' })
+  orderId?: Types.ObjectId;
+
+  @Prop({ type: Date })
+  bookedAt?: Date;
+
+  @Prop({ type: Date })
+  releasedAt?: Date;
+}
+
+export const BookingSchema = SchemaFactory.createForClass(Booking);
+
+BookingSchema.index({ status: 1, expiresAt: 1 });
+BookingSchema.index({ orderId: 1 });
@@ -2,6 +2,7 @@ import { Body, Controller, Delete, Get, Param, Post, Put, Req } from '@nestjs/co
 import { CartService } from './cart.service';
 import { AddToCartDto } from './dto/add-to-cart.dto';
 import { UpdateCartItemDto } from './dto/update-cart-item.dto';
+import { ApplyCouponDto } from 'src/coupon/dto/coupon.dto';
 import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiBearerAuth } from '@nestjs/swagger';
 import { Request } from 'express';
 import { Roles } from 'src/common/decorators/role.decorator';
@@ -60,6 +61,24 @@ export class CartController {
     return await this.cartService.removeFromCart(userId, itemId);
   }
 
+  @Post('coupon')
+  @ApiOperation({ summary: 'Apply a coupon code to the cart', description: 'Replaces any coupon already applied' })
+  @ApiResponse({ status: 201, description: 'Coupon applied, the discount is part of the cart pricing' })
+  @ApiResponse({ status: 400, description: 'Invalid, expired or used up code, or no item in the cart qualifies' })
+  @Roles(UserRole.USER)
+  async applyCoupon(@Req() req: Request, @Body() body: ApplyCouponDto) {
+    const userId = req?.user?.userId!;
+    return await this.cartService.applyCoupon(userId, body.code);
+  }
+
+  @Delete('coupon')
+  @ApiOperation({ summary: 'Remove the coupon from the cart' })
+  @Roles(UserRole.USER)
+  async removeCoupon(@Req() req: Request) {
+    const userId = req?.user?.userId!;
+    return await this.cartService.removeCoupon(userId);
+  }
+
   @Delete('clear')
   @ApiOperation({ summary: 'Clear cart' })
   @ApiResponse({ status: 200, description: 'Cart cleared successfully' })
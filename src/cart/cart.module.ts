@@ -5,12 +5,18 @@ import { CartService } from './cart.service';
 import { Cart, CartSchema } from './schemas/cart.schema';
 import { InfluencerServiceModule } from '../influencer-service/influencer-service.module';
 import { AvailabilityModule } from '../availability/availability.module';
+import { PricingModule } from '../pricing/pricing.module';
+import { CouponModule } from '../coupon/coupon.module';
+import { BookingModule } from '../booking/booking.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([{ name: Cart.name, schema: CartSchema }]),
     InfluencerServiceModule,
     AvailabilityModule,
+    PricingModule,
+    CouponModule,
+    BookingModule,
   ],
   controllers: [CartController],
   providers: [CartService],
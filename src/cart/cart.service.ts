@@ -1,10 +1,29 @@
 import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
-import { Cart, CartDocument, CartItem } from './schemas/cart.schema';
+import { CART_TTL_SECONDS, Cart, CartDocument, CartItem } from './schemas/cart.schema';
 import { AddToCartDto } from './dto/add-to-cart.dto';
 import { InfluencerServiceService } from '../influencer-service/influencer-service.service';
 import { AvailabilityService } from '../availability/availability.service';
+import { PricingService } from '../pricing/pricing.service';
+import { CouponService } from '../coupon/coupon.service';
+import { BookingService } from '../booking/booking.service';
+import { User } from '../user/schemas/user.schema';
+import { startOfUtcDay } from '../availability/availability-template.utils';
+import { DEFAULT_TIME_ZONE, earliestDeliveryDate, utcToZonedTime, zonedTimeToUtc } from '../availability/time-zone.utils';
+
+interface CartItemSlotRequest {
+  bookingDate?: Date;
+  startTime?: string;
+  endTime?: string;
+  timeZone?: string;
+}
+
+interface CartItemSlot {
+  startsAt: Date;
+  endsAt: Date;
+  timeZone: string;
+}
 
 @Injectable()
 export class CartService {
@@ -12,6 +31,9 @@ export class CartService {
     @InjectModel(Cart.name) private cartModel: Model<CartDocument>,
     private readonly influencerServiceService: InfluencerServiceService,
     private readonly availabilityService: AvailabilityService,
+    private readonly pricingService: PricingService,
+    private readonly couponService: CouponService,
+    private readonly bookingService: BookingService,
   ) {}
 
   async getOrCreateCart(userId: string): Promise<CartDocument> {
@@ -53,15 +75,23 @@ export class CartService {
       throw new BadRequestException('Location is required for this service');
     }
 
-    // Validate deliveryDate is at least minimumDaysForCompletion from today
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const minDate = new Date(today);
-    minDate.setDate(today.getDate() + (service.minimumDaysForCompletion || 1));
-    if (!addToCartDto.deliveryDate || addToCartDto.deliveryDate < minDate) {
+    // Validate deliveryDate is at least minimumDaysForCompletion from the influencers' today
+    const minDate = earliestDeliveryDate(
+      service.minimumDaysForCompletion || 1,
+      (service.users as unknown as User[]).map((user) => user?.timeZone || DEFAULT_TIME_ZONE),
+    );
+    if (!addToCartDto.deliveryDate || startOfUtcDay(addToCartDto.deliveryDate) < minDate) {
       throw new BadRequestException(`Delivery date must be at least ${service.minimumDaysForCompletion || 1} days from today.`);
     }
 
+    const currency = (service.currency || this.pricingService.getDefaultCurrency()).toUpperCase();
+    if (cart.items.some((item) => item.currency !== currency)) {
+      // One checkout is charged in a single settlement currency
+      throw new BadRequestException(
+        `This service is charged in ${currency} while the cart is charged in ${cart.items[0].currency}. Check out the cart first or remove its items`,
+      );
+    }
+
     // Create cart item with all users from service
     const cartItem: CartItem = {
       _id: new Types.ObjectId(),
@@ -70,13 +100,18 @@ export class CartService {
       deliveryDate: addToCartDto.deliveryDate,
       location: addToCartDto.location,
       price: service?.price! || 0,
+      currency,
       disabled: false,
       notes: addToCartDto.notes,
     };
 
+    if (addToCartDto.bookingDate && addToCartDto.startTime && addToCartDto.endTime) {
+      await this.holdItemSlot(cart, cartItem, await this.resolveSlot(cart, cartItem, addToCartDto));
+    }
+
     // Add item to cart and update total
     cart.items.push(cartItem);
-    cart.totalAmount = cart.items.reduce((sum, item) => sum + item.price, 0);
+    await this.updateTotals(cart);
 
     return await cart.save();
   }
@@ -94,21 +129,49 @@ export class CartService {
     }
 
     // Remove item and update total
-    cart.items.splice(itemIndex, 1);
-    cart.totalAmount = cart.items.reduce((sum, item) => sum + item.price, 0);
+    const [removed] = cart.items.splice(itemIndex, 1);
+    if (removed.bookingId) await this.bookingService.releaseHold(removed.bookingId);
+    await this.updateTotals(cart);
 
     return await cart.save();
   }
 
   async clearCart(userId: string): Promise<CartDocument> {
     const cart = await this.getOrCreateCart(userId);
+    // Holds already taken over by orders are kept
+    for (const item of cart.items.filter((item) => item.bookingId)) {
+      await this.bookingService.releaseHold(item.bookingId!);
+    }
     cart.items = [];
-    cart.totalAmount = 0;
+    await this.updateTotals(cart);
+    return await cart.save();
+  }
+
+  async applyCoupon(userId: string, code: string): Promise<CartDocument> {
+    const cart = await this.getOrCreateCart(userId);
+    // Throws with the reason when the code does not apply
+    const { coupon } = await this.couponService.evaluateCoupon(
+      code,
+      userId,
+      cart.items.filter((item) => !item.disabled),
+    );
+    cart.couponCode = coupon.code;
+    await this.updateTotals(cart);
+    return await cart.save();
+  }
+
+  async removeCoupon(userId: string): Promise<CartDocument> {
+    const cart = await this.getOrCreateCart(userId);
+    cart.couponCode = undefined;
+    await this.updateTotals(cart);
     return await cart.save();
   }
 
   async getCart(userId: string): Promise<CartDocument> {
-    return await this.getOrCreateCart(userId);
+    const cart = await this.getOrCreateCart(userId);
+    // Rates and the preferred currency may have changed since the last update
+    cart.displayPricing = await this.pricingService.toDisplayCurrency(cart.pricing, userId);
+    return cart;
   }
 
   async updateCartItem(userId: string, itemId: string, updates: Partial<CartItem>): Promise<CartDocument> {
@@ -136,16 +199,123 @@ export class CartService {
 
     // Update item with latest user IDs from service
     delete updates?._id;
+    delete updates?.bookingId;
+
+    const { bookingDate, startTime, endTime, timeZone } = updates as Partial<CartItem> & CartItemSlotRequest;
+    for (const key of ['bookingDate', 'startTime', 'endTime', 'timeZone', 'startsAt', 'endsAt']) delete updates[key];
+    if (bookingDate || startTime || endTime || timeZone) {
+      item.influencerIds = service.users.map((user) => new Types.ObjectId(user?._id || user));
+      await this.holdItemSlot(cart, item, await this.resolveSlot(cart, item, { bookingDate, startTime, endTime, timeZone }));
+    }
 
     for (const key in updates) {
       if (updates[key]) item[key] = updates[key];
     }
 
-    cart.totalAmount = cart.items.reduce((sum, item) => sum + (item?.price || 0), 0);
+    await this.updateTotals(cart);
 
     return await cart.save();
   }
 
+  /**
+   * Instants of a slot given as a day and wall-clock times. The zone defaults to the client's, then to the
+   * first influencer's; parts left out of an update are taken from the slot already held.
+   */
+  private async resolveSlot(cart: CartDocument, item: CartItem, request: CartItemSlotRequest): Promise<CartItemSlot> {
+    const timeZone =
+      request.timeZone ||
+      item.timeZone ||
+      (await this.availabilityService.findTimeZone(cart.userId.toString())) ||
+      (await this.availabilityService.findTimeZone(item.influencerIds[0].toString())) ||
+      DEFAULT_TIME_ZONE;
+    const current =
+      item.startsAt && item.endsAt
+        ? { start: utcToZonedTime(item.startsAt, timeZone), end: utcToZonedTime(item.endsAt, timeZone) }
+        : undefined;
+
+    const bookingDate = request.bookingDate || current?.start.date;
+    const startTime = request.startTime || current?.start.time;
+    const endTime = request.endTime || current?.end.time;
+    if (!bookingDate || !startTime || !endTime) {
+      throw new BadRequestException('bookingDate, startTime and endTime are required to hold a time slot');
+    }
+    this.availabilityService.validateTimeSlots([{ startTime, endTime }]);
+
+    return {
+      startsAt: zonedTimeToUtc(bookingDate, startTime, timeZone),
+      endsAt: zonedTimeToUtc(bookingDate, endTime, timeZone),
+      timeZone,
+    };
+  }
+
+  // Replaces the item's hold, if any, with one on the new slot for every influencer of the service
+  private async holdItemSlot(cart: CartDocument, item: CartItem, slot: CartItemSlot): Promise<void> {
+    const previous = item.bookingId && { startsAt: item.startsAt!, endsAt: item.endsAt!, timeZone: item.timeZone! };
+    // Released first, the new slot may overlap the old one
+    if (item.bookingId) await this.bookingService.releaseHold(item.bookingId);
+
+    const hold = (slot: CartItemSlot) =>
+      this.bookingService.holdSlot({
+        clientId: cart.userId.toString(),
+        serviceId: item.serviceId.toString(),
+        influencerIds: item.influencerIds.map((influencerId) => influencerId.toString()),
+        startsAt: slot.startsAt,
+        endsAt: slot.endsAt,
+        expiresAt: new Date(((cart.get('createdAt') as Date) || new Date()).getTime() + CART_TTL_SECONDS * 1000),
+      });
+
+    let booking: Awaited<ReturnType<typeof hold>>;
+    try {
+      booking = await hold(slot);
+    } catch (error) {
+      // Keep the old slot when the new one cannot be held, unless it was taken in the meantime
+      if (previous) {
+        const restored = await hold(previous).catch(() => undefined);
+        item.bookingId = restored?._id as Types.ObjectId | undefined;
+        await cart.save();
+      }
+      throw error;
+    }
+
+    item.bookingId = booking._id as Types.ObjectId;
+    item.startsAt = slot.startsAt;
+    item.endsAt = slot.endsAt;
+    item.timeZone = slot.timeZone;
+    item.bookingDate = utcToZonedTime(slot.startsAt, slot.timeZone).date;
+  }
+
+  // Fee and tax only apply to items that can still be ordered
+  private async updateTotals(cart: CartDocument): Promise<void> {
+    const items = cart.items.filter((item) => !item.disabled);
+    cart.totalAmount = items.reduce((sum, item) => sum + (item?.price || 0), 0);
+    if (!items.length) {
+      cart.couponCode = undefined;
+      cart.pricing = undefined;
+      cart.displayPricing = undefined;
+      return;
+    }
+
+    let discounts: number[] = [];
+    if (cart.couponCode) {
+      try {
+        ({ discounts } = await this.couponService.evaluateCoupon(cart.couponCode, cart.userId.toString(), items));
+      } catch (error) {
+        // Expired, used up or no longer matching the items
+        if (!(error instanceof BadRequestException)) throw error;
+        cart.couponCode = undefined;
+      }
+    }
+
+    const quote = await this.pricingService.quote(
+      cart.userId.toString(),
+      items.map((item) => item.price),
+      items[0].currency || this.pricingService.getDefaultCurrency(),
+      discounts,
+    );
+    cart.pricing = quote.total;
+    cart.displayPricing = await this.pricingService.toDisplayCurrency(quote.total, cart.userId.toString());
+  }
+
   private async checkAndUpdateDisabledItems(cart: CartDocument): Promise<void> {
     let hasChanges = false;
 
@@ -190,6 +360,7 @@ export class CartService {
     }
 
     if (hasChanges) {
+      await this.updateTotals(cart);
       await cart.save();
     }
   }
@@ -11,6 +11,8 @@ import {
   ValidationOptions,
   ValidationArguments,
   IsOptional,
+  IsTimeZone,
+  Matches,
 } from 'class-validator';
 import { Type } from 'class-transformer';
 
@@ -62,6 +64,35 @@ export class AddToCartDto {
   @IsNotEmpty({ message: 'Location is required when locationRequired is true' })
   location?: string;
 
+  @ApiProperty({
+    description: 'Day of the time slot to hold with every influencer of the service; requires startTime and endTime',
+    example: '2024-03-15',
+    required: false,
+  })
+  @ValidateIf((o: AddToCartDto) => !!(o.bookingDate || o.startTime || o.endTime))
+  @IsDate()
+  @Type(() => Date)
+  bookingDate?: Date;
+
+  @ApiProperty({ description: 'Start time of the time slot in HH:mm format', example: '09:00', required: false })
+  @ValidateIf((o: AddToCartDto) => !!(o.bookingDate || o.startTime || o.endTime))
+  @Matches(/^([01][0-9]|2[0-3]):[0-5][0-9]$/, { message: 'startTime must be in HH:mm format' })
+  startTime?: string;
+
+  @ApiProperty({ description: 'End time of the time slot in HH:mm format', example: '10:00', required: false })
+  @ValidateIf((o: AddToCartDto) => !!(o.bookingDate || o.startTime || o.endTime))
+  @Matches(/^([01][0-9]|2[0-3]):[0-5][0-9]$/, { message: 'endTime must be in HH:mm format' })
+  endTime?: string;
+
+  @ApiProperty({
+    description: "IANA time zone of bookingDate, startTime and endTime. Defaults to yours, then the influencer's",
+    example: 'Europe/Paris',
+    required: false,
+  })
+  @IsOptional()
+  @IsTimeZone()
+  timeZone?: string;
+
   // This will be set in the service, not by the client
   // locationRequired?: boolean;
   // service?: any;
@@ -1,5 +1,5 @@
 import { ApiPropertyOptional } from '@nestjs/swagger';
-import { IsDate, IsNumber, IsOptional, IsString, Min } from 'class-validator';
+import { IsDate, IsOptional, IsString, IsTimeZone } from 'class-validator';
 import { Type } from 'class-transformer';
 
 export class UpdateCartItemDto {
@@ -19,11 +19,10 @@ export class UpdateCartItemDto {
   @IsString()
   endTime?: string;
 
-  @ApiPropertyOptional({ description: 'Price of the service' })
+  @ApiPropertyOptional({ description: 'IANA time zone of bookingDate, startTime and endTime', example: 'Europe/Paris' })
   @IsOptional()
-  @IsNumber()
-  @Min(0)
-  price?: number;
+  @IsTimeZone()
+  timeZone?: string;
 
   @ApiPropertyOptional({ description: 'Notes for the cart item', required: false })
   @IsOptional()
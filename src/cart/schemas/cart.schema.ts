@@ -1,5 +1,9 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import { PriceBreakdown } from 'src/pricing/schemas/price-breakdown.schema';
+
+// Carts and the time slots they hold expire together
+export const CART_TTL_SECONDS = 10800; // 3 hours
 
 export enum CartItemStatus {
   PENDING = 'PENDING',
@@ -32,15 +36,30 @@ export class CartItem {
   @Prop({ type: Date, required: false })
   bookingDate?: Date;
 
+  // Time slot held by `bookingId`; `bookingDate` is its day in `timeZone`
+  @Prop({ type: Date })
+  startsAt?: Date;
+
+  @Prop({ type: Date })
+  endsAt?: Date;
+
+  // IANA zone the client picked the slot in
+  @Prop({ type: String })
+  timeZone?: string;
+
   @Prop({ type: Date, required: true })
   deliveryDate: Date;
 
   @Prop({ type: String })
   location?: string;
 
+  // Service price in integer minor units of `currency`
   @Prop({ type: Number, required: true })
   price: number;
 
+  @Prop({ type: String, required: true, uppercase: true })
+  currency: string;
+
   @Prop({ type: Boolean, default: false })
   disabled: boolean;
 
@@ -59,8 +78,21 @@ export class Cart {
   @Prop({ type: [CartItem], default: [] })
   items: CartItem[];
 
+  // Sum of the item prices, in minor units
   @Prop({ type: Number, default: 0 })
   totalAmount: number;
+
+  // Applied coupon; dropped when it no longer applies to the cart
+  @Prop({ type: String })
+  couponCode?: string;
+
+  // Fee and tax for the current items, recalculated on every change
+  @Prop({ type: SchemaFactory.createForClass(PriceBreakdown) })
+  pricing?: PriceBreakdown;
+
+  // `pricing` converted to the client's preferred currency, for display only
+  @Prop({ type: SchemaFactory.createForClass(PriceBreakdown) })
+  displayPricing?: PriceBreakdown;
 }
 
 export type CartDocument = Cart & Document;
@@ -71,4 +103,4 @@ export const CartSchema = SchemaFactory.createForClass(Cart);
 CartSchema.index({ userId: 1 });
 CartSchema.index({ 'items.serviceId': 1 });
 CartSchema.index({ 'items.influencerId': 1 });
-CartSchema.index({ createdAt: 1 }, { expireAfterSeconds: 10800 }); // TTL 3 hours
+CartSchema.index({ createdAt: 1 }, { expireAfterSeconds: CART_TTL_SECONDS });
@@ -1,5 +1,5 @@
 import { Injectable } from '@nestjs/common';
-import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
+import { S3Client, PutObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { ConfigService } from '@nestjs/config';
 
@@ -17,8 +17,9 @@ export class S3Service {
     });
   }
 
-  async generateUploadUrl({ fileName, fileType }: { fileName: string; fileType: string }) {
-    const key = `${Date.now()}-${fileName?.slice?.(0, 20) || ''}`;
+  // A key prefix scopes the upload to its owner, e.g. an order party, so submitted keys can be checked against it
+  async generateUploadUrl({ fileName, fileType, keyPrefix = '' }: { fileName: string; fileType: string; keyPrefix?: string }) {
+    const key = `${keyPrefix}${Date.now()}-${fileName?.slice?.(0, 20) || ''}`;
 
     const command = new PutObjectCommand({
       Bucket: this.configService.get('AWS_BUCKET_NAME'),
@@ -33,6 +34,15 @@ export class S3Service {
     return { url, key };
   }
 
+  async generateDownloadUrl(key: string, expiresIn = 60 * 15) {
+    const command = new GetObjectCommand({
+      Bucket: this.configService.get('AWS_BUCKET_NAME'),
+      Key: key,
+    });
+
+    return getSignedUrl(this.s3, command, { expiresIn });
+  }
+
   async uploadFile({
     buffer,
     fileName,
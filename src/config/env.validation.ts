@@ -52,6 +52,35 @@ class EnvironmentVariables {
     @IsOptional()
     CORS_ORIGIN?: string;
 
+    // Name shown for the account in authenticator apps
+    @IsString()
+    @IsOptional()
+    TWO_FACTOR_ISSUER?: string;
+
+    @IsString()
+    @IsOptional()
+    PAYMENT_CURRENCY?: string;
+
+    @IsString()
+    @IsOptional()
+    PAYMENT_WEBHOOK_SECRET?: string;
+
+    @IsNumber()
+    @IsOptional()
+    REFUND_WINDOW_HOURS?: number;
+
+    @IsNumber()
+    @IsOptional()
+    PLATFORM_COMMISSION_PERCENT?: number;
+
+    @IsNumber()
+    @IsOptional()
+    PLATFORM_FEE_PERCENT?: number;
+
+    @IsNumber()
+    @IsOptional()
+    DEFAULT_TAX_PERCENT?: number;
+
     @IsBoolean()
     @IsOptional()
     @Transform(({ value }) => {
@@ -0,0 +1,57 @@
+import { Body, Controller, Delete, Get, Param, Post, Put, Query, Req } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Request } from 'express';
+import { Roles } from 'src/common/decorators/role.decorator';
+import { UserRole } from 'src/user/schemas/user.schema';
+import { CouponService } from './coupon.service';
+import { CouponQueryDto, CreateCouponDto, UpdateCouponDto } from './dto/coupon.dto';
+
+@ApiTags('Coupons')
+@ApiBearerAuth('access-token')
+@Controller('coupons')
+export class CouponController {
+  constructor(private readonly couponService: CouponService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create a coupon code (admin)' })
+  @ApiResponse({ status: 201, description: 'Coupon created' })
+  @ApiResponse({ status: 409, description: 'Coupon code already exists' })
+  @Roles(UserRole.ADMIN)
+  async createCoupon(@Req() req: Request, @Body() data: CreateCouponDto) {
+    return this.couponService.createCoupon(req?.user?.userId!, data);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List coupons (admin)' })
+  @Roles(UserRole.ADMIN)
+  async getCoupons(@Query() query: CouponQueryDto) {
+    return this.couponService.getCoupons(query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a coupon (admin)' })
+  @ApiParam({ name: 'id', description: 'Coupon ID' })
+  @ApiResponse({ status: 404, description: 'Coupon not found' })
+  @Roles(UserRole.ADMIN)
+  async getCoupon(@Param('id') id: string) {
+    return this.couponService.getCoupon(id);
+  }
+
+  @Put(':id')
+  @ApiOperation({ summary: 'Update a coupon (admin)' })
+  @ApiParam({ name: 'id', description: 'Coupon ID' })
+  @ApiResponse({ status: 404, description: 'Coupon not found' })
+  @Roles(UserRole.ADMIN)
+  async updateCoupon(@Param('id') id: string, @Body() data: UpdateCouponDto) {
+    return this.couponService.updateCoupon(id, data);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a coupon (admin)' })
+  @ApiParam({ name: 'id', description: 'Coupon ID' })
+  @ApiResponse({ status: 404, description: 'Coupon not found' })
+  @Roles(UserRole.ADMIN)
+  async deleteCoupon(@Param('id') id: string) {
+    return this.couponService.deleteCoupon(id);
+  }
+}
@@ -1,4 +1,28 @@
+/**
+ * Coupon Module
+ *
+ * Discount codes applied to the cart and charged at checkout:
+ * - Admin management of percentage and fixed discounts
+ * - Validity windows, global and per-user usage limits, minimum cart totals
+ * - Scoping to categories, services or influencers
+ */
 import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { CouponController } from './coupon.controller';
+import { CouponService } from './coupon.service';
+import { Coupon, CouponRedemption, CouponRedemptionSchema, CouponSchema } from './schemas/coupon.schema';
+import { User, UserSchema } from 'src/user/schemas/user.schema';
 
-@Module({})
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Coupon.name, schema: CouponSchema },
+      { name: CouponRedemption.name, schema: CouponRedemptionSchema },
+      { name: User.name, schema: UserSchema },
+    ]),
+  ],
+  controllers: [CouponController],
+  providers: [CouponService],
+  exports: [CouponService],
+})
 export class CouponModule {}
@@ -0,0 +1,204 @@
+import { BadRequestException, ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { isValidObjectId, Model, Types } from 'mongoose';
+import { PaginationResponse } from 'src/@types/pagination-response.interface';
+import { formatMoney } from 'src/pricing/pricing.utils';
+import { User, UserDocument } from 'src/user/schemas/user.schema';
+import { Coupon, CouponRedemption, CouponType } from './schemas/coupon.schema';
+import { CouponQueryDto, CreateCouponDto, UpdateCouponDto } from './dto/coupon.dto';
+import { allocateCouponDiscount } from './coupon.utils';
+
+// What a coupon needs to know about a cart item; cart items satisfy it as they are
+export interface CouponCartLine {
+  serviceId: Types.ObjectId;
+  influencerIds: Types.ObjectId[];
+  price: number;
+  currency: string;
+}
+
+@Injectable()
+export class CouponService {
+  constructor(
+    @InjectModel(Coupon.name) private couponModel: Model<Coupon>,
+    @InjectModel(CouponRedemption.name) private couponRedemptionModel: Model<CouponRedemption>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+  ) {}
+
+  async createCoupon(adminId: string, data: CreateCouponDto): Promise<Coupon> {
+    const code = data.code.trim().toUpperCase();
+    if (await this.couponModel.exists({ code })) {
+      throw new ConflictException('Coupon code already exists');
+    }
+    const coupon = new this.couponModel({ ...data, code, createdBy: new Types.ObjectId(adminId) });
+    this.assertValidCoupon(coupon);
+    return coupon.save();
+  }
+
+  async getCoupons({ page = 1, limit = 10, search, isActive }: CouponQueryDto): Promise<PaginationResponse<Coupon>> {
+    const skip = (page - 1) * limit;
+    const match: Record<string, unknown> = {};
+    if (search) match.code = { $regex: search.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), $options: 'i' };
+    if (isActive !== undefined) match.isActive = isActive;
+
+    const result = await this.couponModel.aggregate<PaginationResponse<Coupon>>([
+      { $match: match },
+      { $sort: { createdAt: -1 } },
+      {
+        $facet: {
+          metadata: [{ $count: 'totalDocs' }],
+          data: [{ $skip: skip }, { $limit: limit }],
+        },
+      },
+      {
+        $project: {
+          totalDocs: { $ifNull: [{ $arrayElemAt: ['$metadata.totalDocs', 0] }, 0] },
+          page: { $literal: page },
+          limit: { $literal: limit },
+          docs: '$data',
+        },
+      },
+    ]);
+
+    return result[0];
+  }
+
+  async getCoupon(couponId: string): Promise<Coupon> {
+    if (!isValidObjectId(couponId)) throw new BadRequestException('Invalid coupon ID');
+    const coupon = await this.couponModel.findById(couponId);
+    if (!coupon) throw new NotFoundException('Coupon not found');
+    return coupon;
+  }
+
+  async updateCoupon(couponId: string, data: UpdateCouponDto): Promise<Coupon> {
+    const coupon = await this.getCoupon(couponId);
+    if (data.code) {
+      data.code = data.code.trim().toUpperCase();
+      if (await this.couponModel.exists({ code: data.code, _id: { $ne: coupon._id } })) {
+        throw new ConflictException('Coupon code already exists');
+      }
+    }
+    coupon.set(data);
+    this.assertValidCoupon(coupon);
+    return coupon.save();
+  }
+
+  async deleteCoupon(couponId: string): Promise<Coupon> {
+    const coupon = await this.getCoupon(couponId);
+    await coupon.deleteOne();
+    return coupon;
+  }
+
+  /**
+   * Checks a code against cart items and returns the discount of every item, in the same order.
+   * Throws with the reason the code cannot be used.
+   */
+  async evaluateCoupon(code: string, userId: string, lines: CouponCartLine[]): Promise<{ coupon: Coupon; discounts: number[] }> {
+    const coupon = await this.couponModel.findOne({ code: code.trim().toUpperCase() });
+    if (!coupon || !coupon.isActive) {
+      throw new BadRequestException('Invalid coupon code');
+    }
+
+    const now = new Date();
+    if (coupon.startsAt && coupon.startsAt > now) {
+      throw new BadRequestException('This coupon is not valid yet');
+    }
+    if (coupon.expiresAt && coupon.expiresAt < now) {
+      throw new BadRequestException('This coupon has expired');
+    }
+    if (coupon.usageLimit && coupon.usedCount >= coupon.usageLimit) {
+      throw new BadRequestException('This coupon has reached its usage limit');
+    }
+    if (coupon.usageLimitPerUser) {
+      const used = await this.couponRedemptionModel.countDocuments({ couponId: coupon._id, userId: new Types.ObjectId(userId) });
+      if (used >= coupon.usageLimitPerUser) {
+        throw new BadRequestException('You have already used this coupon');
+      }
+    }
+
+    if (!lines.length) {
+      throw new BadRequestException('Cart is empty');
+    }
+    const currency = lines[0].currency;
+    if (coupon.currency && coupon.currency !== currency) {
+      throw new BadRequestException(`This coupon only applies to carts charged in ${coupon.currency}`);
+    }
+    const subtotal = lines.reduce((sum, line) => sum + line.price, 0);
+    if (coupon.minimumCartTotal && subtotal < coupon.minimumCartTotal) {
+      throw new BadRequestException(
+        `Cart total must be at least ${formatMoney(coupon.minimumCartTotal, currency)} to use this coupon`,
+      );
+    }
+
+    const eligible = await this.getEligibility(coupon, lines);
+    const discounts = allocateCouponDiscount(
+      coupon,
+      lines.map((line, index) => ({ price: line.price, eligible: eligible[index] })),
+    );
+    if (!discounts.some((discount) => discount > 0)) {
+      throw new BadRequestException('This coupon does not apply to any item in your cart');
+    }
+    return { coupon, discounts };
+  }
+
+  /**
+   * Records the use of a coupon by a checkout. The global limit is enforced atomically,
+   * so two clients cannot take the last use at the same time.
+   */
+  async redeemCoupon(coupon: Coupon, userId: string, orderGroupId: string, discount: number, currency: string) {
+    const filter: Record<string, unknown> = { _id: coupon._id };
+    if (coupon.usageLimit) filter.usedCount = { $lt: coupon.usageLimit };
+    const claimed = await this.couponModel.findOneAndUpdate(filter, { $inc: { usedCount: 1 } });
+    if (!claimed) {
+      throw new BadRequestException('This coupon has reached its usage limit');
+    }
+
+    try {
+      return await this.couponRedemptionModel.create({
+        couponId: coupon._id,
+        userId: new Types.ObjectId(userId),
+        orderGroupId,
+        discount,
+        currency,
+      });
+    } catch (error) {
+      await this.couponModel.updateOne({ _id: coupon._id }, { $inc: { usedCount: -1 } });
+      throw error;
+    }
+  }
+
+  private async getEligibility(coupon: Coupon, lines: CouponCartLine[]): Promise<boolean[]> {
+    const has = (ids: Types.ObjectId[], id: Types.ObjectId) => ids.some((item) => item.equals(id));
+
+    // Influencers of the cart that belong to one of the coupon categories
+    let categorized: Types.ObjectId[] = [];
+    if (coupon.categoryIds.length) {
+      const influencers = await this.userModel
+        .find({ _id: { $in: lines.flatMap((line) => line.influencerIds) }, category: { $in: coupon.categoryIds } })
+        .select('_id')
+        .lean();
+      categorized = influencers.map((influencer) => influencer._id as Types.ObjectId);
+    }
+
+    return lines.map(
+      (line) =>
+        (!coupon.serviceIds.length || has(coupon.serviceIds, line.serviceId)) &&
+        (!coupon.influencerIds.length || line.influencerIds.some((id) => has(coupon.influencerIds, id))) &&
+        (!coupon.categoryIds.length || line.influencerIds.some((id) => has(categorized, id))),
+    );
+  }
+
+  private assertValidCoupon(coupon: Coupon) {
+    if (coupon.type === CouponType.PERCENTAGE && coupon.value > 100) {
+      throw new BadRequestException('A percentage discount cannot exceed 100');
+    }
+    if (coupon.type === CouponType.FIXED && !Number.isInteger(coupon.value)) {
+      throw new BadRequestException('Fixed discounts are integer minor units');
+    }
+    if (!coupon.currency && (coupon.type === CouponType.FIXED || coupon.minimumCartTotal || coupon.maxDiscount)) {
+      throw new BadRequestException('A currency is required for fixed discounts, maximum discounts and minimum cart totals');
+    }
+    if (coupon.startsAt && coupon.expiresAt && coupon.startsAt >= coupon.expiresAt) {
+      throw new BadRequestException('The coupon must start before it expires');
+    }
+  }
+}
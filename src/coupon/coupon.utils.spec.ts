@@ -0,0 +1,21 @@
+import { allocateCouponDiscount } from './coupon.utils';
+import { CouponType } from './schemas/coupon.schema';
+
+describe('allocateCouponDiscount', () => {
+  it('should only discount eligible lines, in proportion to their prices', () => {
+    const lines = [
+      { price: 10000, eligible: true },
+      { price: 5000, eligible: false },
+      { price: 30000, eligible: true },
+    ];
+    expect(allocateCouponDiscount({ type: CouponType.PERCENTAGE, value: 10 }, lines)).toEqual([1000, 0, 3000]);
+    expect(allocateCouponDiscount({ type: CouponType.FIXED, value: 1001 }, lines)).toEqual([251, 0, 750]);
+  });
+
+  it('should cap the discount at maxDiscount and at the eligible total', () => {
+    const lines = [{ price: 10000, eligible: true }];
+    expect(allocateCouponDiscount({ type: CouponType.PERCENTAGE, value: 50, maxDiscount: 2000 }, lines)).toEqual([2000]);
+    expect(allocateCouponDiscount({ type: CouponType.FIXED, value: 25000 }, lines)).toEqual([10000]);
+    expect(allocateCouponDiscount({ type: CouponType.FIXED, value: 500 }, [{ price: 1000, eligible: false }])).toEqual([0]);
+  });
+});
@@ -0,0 +1,25 @@
+import { splitAmount } from '../ledger/ledger.utils';
+import { CouponType } from './schemas/coupon.schema';
+
+/**
+ * Spreads a coupon's discount over cart lines (prices in minor units) in proportion to their prices.
+ * Lines outside the coupon's scope get nothing and no line is discounted below zero.
+ */
+export function allocateCouponDiscount(
+  coupon: { type: CouponType; value: number; maxDiscount?: number },
+  lines: { price: number; eligible: boolean }[],
+): number[] {
+  const eligibleTotal = lines.reduce((sum, line) => sum + (line.eligible ? line.price : 0), 0);
+  if (eligibleTotal <= 0) return lines.map(() => 0);
+
+  let discount = coupon.type === CouponType.PERCENTAGE ? Math.round((eligibleTotal * coupon.value) / 100) : coupon.value;
+  if (coupon.maxDiscount !== undefined && coupon.maxDiscount !== null) {
+    discount = Math.min(discount, coupon.maxDiscount);
+  }
+  discount = Math.min(discount, eligibleTotal);
+
+  return splitAmount(
+    discount,
+    lines.map((line) => (line.eligible ? line.price : 0)),
+  );
+}
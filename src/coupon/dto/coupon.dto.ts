@@ -0,0 +1,126 @@
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import {
+  IsArray,
+  IsBoolean,
+  IsDate,
+  IsEnum,
+  IsISO4217CurrencyCode,
+  IsInt,
+  IsMongoId,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Min,
+} from 'class-validator';
+import { PaginationQueryDto } from 'src/favorites/dto/pagination-query.dto';
+import { CouponType } from '../schemas/coupon.schema';
+
+export class CreateCouponDto {
+  @ApiProperty({ description: 'Code clients enter at checkout, case insensitive', example: 'SUMMER25' })
+  @IsString()
+  @Matches(/^[A-Za-z0-9_-]{3,32}$/, { message: 'code must be 3 to 32 letters, digits, dashes or underscores' })
+  code: string;
+
+  @ApiPropertyOptional({ description: 'Internal description of the campaign' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ enum: CouponType, description: 'Percentage of the eligible items or a fixed amount' })
+  @IsEnum(CouponType)
+  type: CouponType;
+
+  @ApiProperty({ description: 'Percentage (0-100) or, for fixed coupons, minor units of the currency', example: 25 })
+  @IsNumber()
+  @Min(0)
+  value: number;
+
+  @ApiPropertyOptional({ description: 'ISO 4217 code, required for fixed coupons and minimum cart totals', example: 'USD' })
+  @IsOptional()
+  @IsISO4217CurrencyCode()
+  currency?: string;
+
+  @ApiPropertyOptional({ description: 'Upper bound of a percentage discount in minor units', example: 5000 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  maxDiscount?: number;
+
+  @ApiPropertyOptional({ description: 'Cart subtotal in minor units required to use the code', example: 10000 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  minimumCartTotal?: number;
+
+  @ApiPropertyOptional({ description: 'Valid from', example: '2025-06-01T00:00:00Z' })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  startsAt?: Date;
+
+  @ApiPropertyOptional({ description: 'Valid until', example: '2025-08-31T23:59:59Z' })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  expiresAt?: Date;
+
+  @ApiPropertyOptional({ description: 'Maximum redemptions across all clients', example: 100 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  usageLimit?: number;
+
+  @ApiPropertyOptional({ description: 'Maximum redemptions per client', example: 1 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  usageLimitPerUser?: number;
+
+  @ApiPropertyOptional({ type: [String], description: 'Only discount services of influencers in these categories' })
+  @IsOptional()
+  @IsArray()
+  @IsMongoId({ each: true })
+  categoryIds?: string[];
+
+  @ApiPropertyOptional({ type: [String], description: 'Only discount these services' })
+  @IsOptional()
+  @IsArray()
+  @IsMongoId({ each: true })
+  serviceIds?: string[];
+
+  @ApiPropertyOptional({ type: [String], description: 'Only discount services of these influencers' })
+  @IsOptional()
+  @IsArray()
+  @IsMongoId({ each: true })
+  influencerIds?: string[];
+
+  @ApiPropertyOptional({ description: 'Inactive codes cannot be applied', default: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class UpdateCouponDto extends PartialType(CreateCouponDto) {}
+
+export class CouponQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({ description: 'Filter by code (partial match)' })
+  @IsOptional()
+  @IsString()
+  search?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by active flag' })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class ApplyCouponDto {
+  @ApiProperty({ description: 'Coupon code', example: 'SUMMER25' })
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+}
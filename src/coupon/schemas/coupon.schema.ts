@@ -0,0 +1,97 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export enum CouponType {
+  // `value` is a percentage of the eligible items
+  PERCENTAGE = 'PERCENTAGE',
+  // `value` is an amount in minor units of `currency`, spread over the eligible items
+  FIXED = 'FIXED',
+}
+
+@Schema({ timestamps: true })
+export class Coupon extends Document {
+  @Prop({ type: String, required: true, unique: true, uppercase: true, trim: true })
+  code: string;
+
+  @Prop({ type: String })
+  description?: string;
+
+  @Prop({ type: String, enum: CouponType, required: true })
+  type: CouponType;
+
+  @Prop({ type: Number, required: true, min: 0 })
+  value: number;
+
+  // Required for fixed discounts and minimum cart totals; the cart must be charged in it
+  @Prop({ type: String, uppercase: true })
+  currency?: string;
+
+  // Upper bound of a percentage discount, in minor units of `currency`
+  @Prop({ type: Number, min: 0 })
+  maxDiscount?: number;
+
+  // Cart subtotal (minor units of `currency`) required to use the code
+  @Prop({ type: Number, min: 0 })
+  minimumCartTotal?: number;
+
+  @Prop({ type: Date })
+  startsAt?: Date;
+
+  @Prop({ type: Date })
+  expiresAt?: Date;
+
+  // Redemptions across all clients
+  @Prop({ type: Number, min: 1 })
+  usageLimit?: number;
+
+  @Prop({ type: Number, min: 1 })
+  usageLimitPerUser?: number;
+
+  @Prop({ type: Number, default: 0, min: 0 })
+  usedCount: number;
+
+  // Scope: when any of these is set, only matching cart items are discounted.
+  // A service falls in a category when one of its influencers does
+  @Prop({ type: [{ type: Types.ObjectId, ref: 'Category' }], default: [] })
+  categoryIds: Types.ObjectId[];
+
+  @Prop({ type: [{ type: Types.ObjectId, ref: 'InfluencerServices' }], default: [] })
+  serviceIds: Types.ObjectId[];
+
+  @Prop({ type: [{ type: Types.ObjectId, ref: 'User' }], default: [] })
+  influencerIds: Types.ObjectId[];
+
+  @Prop({ type: Boolean, default: true })
+  isActive: boolean;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  createdBy?: Types.ObjectId;
+}
+
+export const CouponSchema = SchemaFactory.createForClass(Coupon);
+
+/**
+ * One use of a coupon at checkout, counted against the per-user limit.
+ */
+@Schema({ timestamps: true })
+export class CouponRedemption extends Document {
+  @Prop({ type: Types.ObjectId, ref: 'Coupon', required: true })
+  couponId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ type: String, required: true, unique: true })
+  orderGroupId: string;
+
+  // Minor units of `currency`
+  @Prop({ type: Number, required: true, min: 0 })
+  discount: number;
+
+  @Prop({ type: String, required: true, uppercase: true })
+  currency: string;
+}
+
+export const CouponRedemptionSchema = SchemaFactory.createForClass(CouponRedemption);
+
+CouponRedemptionSchema.index({ couponId: 1, userId: 1 });
@@ -0,0 +1,77 @@
+import { Body, Controller, Get, Param, Post, Query, Req } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Request } from 'express';
+import { Roles } from 'src/common/decorators/role.decorator';
+import { UserRole } from 'src/user/schemas/user.schema';
+import { DisputeService } from './dispute.service';
+import {
+  AddDisputeMessageDto,
+  CreateDisputeDto,
+  DisputeEvidenceUploadUrlDto,
+  DisputeQueryDto,
+  ResolveDisputeDto,
+} from './dto/dispute.dto';
+
+@ApiTags('Disputes')
+@ApiBearerAuth('access-token')
+@Controller('disputes')
+export class DisputeController {
+  constructor(private readonly disputeService: DisputeService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Open a dispute on an order',
+    description: 'Available on paid, in progress and completed orders. Freezes escrow release and payouts until resolved',
+  })
+  @ApiResponse({ status: 201, description: 'Dispute opened' })
+  @ApiResponse({ status: 409, description: 'The order already has an open dispute' })
+  @Roles(UserRole.USER, UserRole.INFLUENCER)
+  async openDispute(@Req() req: Request, @Body() data: CreateDisputeDto) {
+    return this.disputeService.openDispute(req?.user?.userId!, req?.user?.role!, data);
+  }
+
+  @Post('evidence/upload-url')
+  @ApiOperation({
+    summary: 'Get a signed URL for uploading dispute evidence',
+    description: 'Only keys issued here for the order and the caller are accepted as evidence',
+  })
+  @Roles(UserRole.USER, UserRole.INFLUENCER, UserRole.ADMIN)
+  async getEvidenceUploadUrl(@Req() req: Request, @Body() data: DisputeEvidenceUploadUrlDto) {
+    return this.disputeService.getEvidenceUploadUrl(req?.user?.userId!, req?.user?.role!, data);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List disputes', description: 'Admins see every dispute, clients and influencers their own' })
+  @Roles(UserRole.USER, UserRole.INFLUENCER, UserRole.ADMIN)
+  async getDisputes(@Req() req: Request, @Query() query: DisputeQueryDto) {
+    return this.disputeService.getDisputes(req?.user?.userId!, req?.user?.role!, query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a dispute with its evidence and timeline' })
+  @ApiParam({ name: 'id', description: 'Dispute ID' })
+  @ApiResponse({ status: 404, description: 'Dispute not found' })
+  @Roles(UserRole.USER, UserRole.INFLUENCER, UserRole.ADMIN)
+  async getDispute(@Req() req: Request, @Param('id') id: string) {
+    return this.disputeService.getDispute(id, req?.user?.userId!, req?.user?.role!);
+  }
+
+  @Post(':id/messages')
+  @ApiOperation({ summary: 'Add a message and optional evidence to an open dispute' })
+  @ApiParam({ name: 'id', description: 'Dispute ID' })
+  @Roles(UserRole.USER, UserRole.INFLUENCER, UserRole.ADMIN)
+  async addMessage(@Req() req: Request, @Param('id') id: string, @Body() data: AddDisputeMessageDto) {
+    return this.disputeService.addMessage(id, req?.user?.userId!, req?.user?.role!, data);
+  }
+
+  @Post(':id/resolve')
+  @ApiOperation({
+    summary: 'Resolve a dispute (admin)',
+    description: 'Refunds the client fully or partially, or releases the escrow to the influencers',
+  })
+  @ApiParam({ name: 'id', description: 'Dispute ID' })
+  @Roles(UserRole.ADMIN)
+  async resolveDispute(@Req() req: Request, @Param('id') id: string, @Body() data: ResolveDisputeDto) {
+    return this.disputeService.resolveDispute(id, req?.user?.userId!, data);
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Dispute Module
+ *
+ * Resolution center for paid orders:
+ * - Clients and influencers open disputes with evidence
+ * - Open disputes freeze escrow release and payouts
+ * - Admins settle them with a refund or a release to the influencers
+ */
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { DisputeController } from './dispute.controller';
+import { DisputeService } from './dispute.service';
+import { Dispute, DisputeSchema } from './schemas/dispute.schema';
+import { Order, OrderSchema } from 'src/order/schemas/order.schema';
+import { User, UserSchema } from 'src/user/schemas/user.schema';
+import { Notification, NotificationSchema } from 'src/notification/schemas/notification.schema';
+import { OrderModule } from 'src/order/order.module';
+import { LedgerModule } from 'src/ledger/ledger.module';
+import { S3Module } from 'src/common/s3/s3.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Dispute.name, schema: DisputeSchema },
+      { name: Order.name, schema: OrderSchema },
+      { name: User.name, schema: UserSchema },
+      { name: Notification.name, schema: NotificationSchema },
+    ]),
+    OrderModule,
+    LedgerModule,
+    S3Module,
+  ],
+  controllers: [DisputeController],
+  providers: [DisputeService],
+})
+export class DisputeModule {}
@@ -0,0 +1,339 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { PaginationResponse } from 'src/@types/pagination-response.interface';
+import { S3Service } from 'src/common/s3/s3.service';
+import { LedgerService } from 'src/ledger/ledger.service';
+import { Notification, NotificationPriority, NotificationType } from 'src/notification/schemas/notification.schema';
+import { OrderEvent } from 'src/order/order-state-machine';
+import { OrderStateMachine } from 'src/order/order-state-machine.service';
+import { OrderService } from 'src/order/order.service';
+import { Order, OrderStatus } from 'src/order/schemas/order.schema';
+import { User, UserDocument, UserRole } from 'src/user/schemas/user.schema';
+import {
+  AddDisputeMessageDto,
+  CreateDisputeDto,
+  DisputeEvidenceDto,
+  DisputeEvidenceUploadUrlDto,
+  DisputeQueryDto,
+  ResolveDisputeDto,
+} from './dto/dispute.dto';
+import {
+  Dispute,
+  DisputeEvidence,
+  DisputeResolutionType,
+  DisputeStatus,
+  DisputeTimelineEventType,
+} from './schemas/dispute.schema';
+
+// Orders where money has been captured and is either in escrow or already released
+const DISPUTABLE_STATUSES = [OrderStatus.PAID, OrderStatus.IN_PROGRESS, OrderStatus.COMPLETED];
+
+// Evidence keys are issued under the order and the uploader, so a party can only attach files they uploaded
+const evidenceKeyPrefix = (orderId: Types.ObjectId | string, userId: string) => `disputes/${String(orderId)}/${userId}/`;
+
+@Injectable()
+export class DisputeService {
+  private readonly logger = new Logger(DisputeService.name);
+
+  constructor(
+    @InjectModel(Dispute.name) private readonly disputeModel: Model<Dispute>,
+    @InjectModel(Order.name) private readonly orderModel: Model<Order>,
+    @InjectModel(User.name) private readonly userModel: Model<UserDocument>,
+    @InjectModel(Notification.name) private readonly notificationModel: Model<Notification>,
+    private readonly orderService: OrderService,
+    private readonly orderStateMachine: OrderStateMachine,
+    private readonly ledgerService: LedgerService,
+    private readonly s3Service: S3Service,
+  ) {}
+
+  async getEvidenceUploadUrl(userId: string, userRole: UserRole, data: DisputeEvidenceUploadUrlDto) {
+    const order = await this.orderModel.findById(data.orderId);
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+    this.assertOrderParty(order, userId, userRole);
+
+    return this.s3Service.generateUploadUrl({
+      fileName: data.fileName,
+      fileType: data.fileType,
+      keyPrefix: evidenceKeyPrefix(order._id as Types.ObjectId, userId),
+    });
+  }
+
+  async openDispute(userId: string, userRole: UserRole, data: CreateDisputeDto) {
+    const order = await this.orderModel.findById(data.orderId);
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+    this.assertOrderParty(order, userId, userRole);
+    if (!DISPUTABLE_STATUSES.includes(order.item.status)) {
+      throw new BadRequestException(`Orders in status ${order.item.status} cannot be disputed`);
+    }
+    if (order.hasOpenDispute) {
+      throw new ConflictException('This order already has an open dispute');
+    }
+
+    const now = new Date();
+    let dispute: Dispute;
+    try {
+      dispute = await this.disputeModel.create({
+        orderId: order._id,
+        openedBy: new Types.ObjectId(userId),
+        openedByRole: userRole,
+        clientId: order.userId,
+        influencerIds: order.item.influencerIds,
+        reason: data.reason,
+        description: data.description,
+        evidence: this.toEvidence(data.evidence, order._id as Types.ObjectId, userId, now),
+        timeline: [
+          {
+            type: DisputeTimelineEventType.OPENED,
+            by: new Types.ObjectId(userId),
+            role: userRole,
+            message: data.reason,
+            evidenceKeys: data.evidence?.map((evidence) => evidence.key) || [],
+            at: now,
+          },
+        ],
+      });
+    } catch (error) {
+      if (error?.code === 11000) throw new ConflictException('This order already has an open dispute');
+      throw error;
+    }
+
+    // Freezes completion, escrow release and payouts until an admin resolves the dispute
+    await this.orderModel.updateOne({ _id: order._id }, { $set: { hasOpenDispute: true } });
+
+    const admins = await this.userModel.find({ role: UserRole.ADMIN }).select('_id').lean();
+    await this.notify(
+      [...admins.map((admin) => admin._id.toString()), ...this.otherParties(dispute, userId)],
+      'Dispute opened',
+      `A dispute was opened on order ${String(order._id)}: ${data.reason}`,
+      dispute,
+    );
+
+    return this.withEvidenceUrls(dispute);
+  }
+
+  async getDisputes(
+    userId: string,
+    userRole: UserRole,
+    { page = 1, limit = 10, status }: DisputeQueryDto,
+  ): Promise<PaginationResponse<Dispute>> {
+    const skip = (page - 1) * limit;
+    const match: Record<string, unknown> = {};
+    if (status) match.status = status;
+    if (userRole !== UserRole.ADMIN) {
+      const userObjectId = new Types.ObjectId(userId);
+      match.$or = [{ clientId: userObjectId }, { influencerIds: userObjectId }];
+    }
+
+    const result = await this.disputeModel.aggregate<PaginationResponse<Dispute>>([
+      { $match: match },
+      { $sort: { createdAt: -1 } },
+      {
+        $facet: {
+          metadata: [{ $count: 'totalDocs' }],
+          data: [{ $skip: skip }, { $limit: limit }, { $project: { timeline: 0 } }],
+        },
+      },
+      {
+        $project: {
+          totalDocs: { $ifNull: [{ $arrayElemAt: ['$metadata.totalDocs', 0] }, 0] },
+          page: { $literal: page },
+          limit: { $literal: limit },
+          docs: '$data',
+        },
+      },
+    ]);
+
+    return result[0];
+  }
+
+  async getDispute(disputeId: string, userId: string, userRole: UserRole) {
+    const dispute = await this.getAccessibleDispute(disputeId, userId, userRole);
+    return this.withEvidenceUrls(dispute);
+  }
+
+  async addMessage(disputeId: string, userId: string, userRole: UserRole, data: AddDisputeMessageDto) {
+    const dispute = await this.getAccessibleDispute(disputeId, userId, userRole);
+    if (dispute.status !== DisputeStatus.OPEN) {
+      throw new BadRequestException('This dispute has already been resolved');
+    }
+
+    const now = new Date();
+    dispute.evidence.push(...this.toEvidence(data.evidence, dispute.orderId, userId, now));
+    dispute.timeline.push({
+      type: DisputeTimelineEventType.MESSAGE,
+      by: new Types.ObjectId(userId),
+      role: userRole,
+      message: data.message,
+      evidenceKeys: data.evidence?.map((evidence) => evidence.key) || [],
+      at: now,
+    });
+    await dispute.save();
+
+    await this.notify(this.otherParties(dispute, userId), 'New message on your dispute', data.message, dispute);
+    return this.withEvidenceUrls(dispute);
+  }
+
+  /**
+   * Settles a dispute by refunding the client (fully or partially) or by releasing the escrow
+   * to the influencers. Refunds go through the regular order refund flow.
+   */
+  async resolveDispute(disputeId: string, adminId: string, data: ResolveDisputeDto) {
+    const dispute = await this.getAccessibleDispute(disputeId, adminId, UserRole.ADMIN);
+    if (dispute.status !== DisputeStatus.OPEN) {
+      throw new BadRequestException('This dispute has already been resolved');
+    }
+    const order = await this.orderModel.findById(dispute.orderId);
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+    if (data.type === DisputeResolutionType.PARTIAL_REFUND && data.amount! >= order.totalAmount) {
+      throw new BadRequestException('A partial refund must be lower than the order total, use a full refund instead');
+    }
+
+    // Lift the freeze so the refund or release can go through; restored if it fails
+    await this.orderModel.updateOne({ _id: order._id }, { $set: { hasOpenDispute: false } });
+    order.hasOpenDispute = false;
+
+    let amount = 0;
+    try {
+      switch (data.type) {
+        case DisputeResolutionType.FULL_REFUND:
+          amount = order.totalAmount;
+          await this.orderService.refundOrder(String(order._id), adminId, UserRole.ADMIN, {
+            reason: `Dispute resolution: ${data.note}`,
+          });
+          break;
+        case DisputeResolutionType.PARTIAL_REFUND:
+          amount = data.amount!;
+          await this.orderService.refundOrder(String(order._id), adminId, UserRole.ADMIN, {
+            reason: `Dispute resolution: ${data.note}`,
+            lineItems: [{ amount, reason: data.note }],
+          });
+          break;
+        case DisputeResolutionType.RELEASE_TO_INFLUENCER:
+          if (order.item.status === OrderStatus.COMPLETED) {
+            await this.ledgerService.releaseEscrow(order);
+          } else {
+            await this.orderStateMachine.transition(order, OrderStatus.COMPLETED, {
+              actor: UserRole.ADMIN,
+              userId: adminId,
+              reason: data.note,
+              event: OrderEvent.RESOLVE_DISPUTE,
+            });
+          }
+          break;
+      }
+    } catch (error) {
+      await this.orderModel.updateOne({ _id: order._id }, { $set: { hasOpenDispute: true } });
+      throw error;
+    }
+
+    const now = new Date();
+    dispute.status = DisputeStatus.RESOLVED;
+    dispute.resolution = {
+      type: data.type,
+      amount,
+      note: data.note,
+      resolvedBy: new Types.ObjectId(adminId),
+      resolvedAt: now,
+    };
+    dispute.timeline.push({
+      type: DisputeTimelineEventType.RESOLVED,
+      by: new Types.ObjectId(adminId),
+      role: UserRole.ADMIN,
+      message: data.note,
+      evidenceKeys: [],
+      at: now,
+    });
+    await dispute.save();
+
+    await this.notify(this.otherParties(dispute, adminId), 'Dispute resolved', data.note, dispute);
+    return this.withEvidenceUrls(dispute);
+  }
+
+  private async getAccessibleDispute(disputeId: string, userId: string, userRole: UserRole) {
+    const dispute = await this.disputeModel.findById(disputeId);
+    if (!dispute) {
+      throw new NotFoundException('Dispute not found');
+    }
+
+    if (userRole === UserRole.USER && dispute.clientId.toString() !== userId) {
+      throw new ForbiddenException('You can only access disputes on your own orders');
+    }
+    if (userRole === UserRole.INFLUENCER && !dispute.influencerIds.some((id) => id.toString() === userId)) {
+      throw new ForbiddenException('You are not assigned to this order');
+    }
+    return dispute;
+  }
+
+  private assertOrderParty(order: Order, userId: string, userRole: UserRole) {
+    if (userRole === UserRole.USER && order.userId.toString() !== userId) {
+      throw new ForbiddenException('You can only dispute your own orders');
+    }
+    if (userRole === UserRole.INFLUENCER && !order.item.influencerIds.some((id) => id.toString() === userId)) {
+      throw new ForbiddenException('You are not assigned to this order');
+    }
+  }
+
+  // Everyone on the order except the given user
+  private otherParties(dispute: Dispute, userId: string) {
+    return [dispute.clientId, ...dispute.influencerIds].map((id) => id.toString()).filter((id) => id !== userId);
+  }
+
+  private toEvidence(
+    evidence: DisputeEvidenceDto[] | undefined,
+    orderId: Types.ObjectId,
+    userId: string,
+    uploadedAt: Date,
+  ): DisputeEvidence[] {
+    const prefix = evidenceKeyPrefix(orderId, userId);
+    if (evidence?.some((item) => !item.key.startsWith(prefix))) {
+      throw new BadRequestException('Evidence must be uploaded with the evidence upload URL of this order');
+    }
+    return (evidence || []).map((item) => ({
+      key: item.key,
+      note: item.note,
+      uploadedBy: new Types.ObjectId(userId),
+      uploadedAt,
+    }));
+  }
+
+  // In-app notifications; a failure here must not undo the dispute action
+  private async notify(userIds: string[], title: string, message: string, dispute: Dispute) {
+    try {
+      await this.notificationModel.insertMany(
+        [...new Set(userIds)].map((userId) => ({
+          userId,
+          type: NotificationType.IN_APP,
+          title,
+          message,
+          data: { disputeId: dispute._id, orderId: dispute.orderId },
+          priority: NotificationPriority.HIGH,
+        })),
+      );
+    } catch (error) {
+      this.logger.error(`Failed to send dispute notifications: ${error.message}`);
+    }
+  }
+
+  // Evidence files are private in S3, so responses carry short lived download links
+  private async withEvidenceUrls(dispute: Dispute) {
+    const plain = dispute.toObject() as Record<string, unknown> & { evidence: DisputeEvidence[] };
+    const evidence = await Promise.all(
+      plain.evidence.map(async (item) => ({ ...item, url: await this.s3Service.generateDownloadUrl(item.key) })),
+    );
+    return { ...plain, evidence };
+  }
+}
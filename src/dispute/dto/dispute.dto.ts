@@ -0,0 +1,99 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsPositive,
+  IsString,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { PaginationQueryDto } from 'src/favorites/dto/pagination-query.dto';
+import { UploadUrlDto } from 'src/dto/upload-url.dto';
+import { DisputeResolutionType, DisputeStatus } from '../schemas/dispute.schema';
+
+export class DisputeEvidenceDto {
+  @ApiProperty({ description: 'S3 key returned by the evidence upload URL endpoint for the order' })
+  @IsString()
+  @IsNotEmpty()
+  key: string;
+
+  @ApiPropertyOptional({ description: 'What the attachment shows', example: 'Screenshot of the published post' })
+  @IsOptional()
+  @IsString()
+  note?: string;
+}
+
+export class DisputeEvidenceUploadUrlDto extends UploadUrlDto {
+  @ApiProperty({ description: 'Order the evidence is for' })
+  @IsMongoId()
+  orderId: string;
+}
+
+export class CreateDisputeDto {
+  @ApiProperty({ description: 'Disputed order ID' })
+  @IsMongoId()
+  orderId: string;
+
+  @ApiProperty({ description: 'Short reason for the dispute', example: 'Content was not delivered as agreed' })
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+
+  @ApiPropertyOptional({ description: 'Detailed description of the problem' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({ description: 'Evidence attachments', type: [DisputeEvidenceDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => DisputeEvidenceDto)
+  evidence?: DisputeEvidenceDto[];
+}
+
+export class AddDisputeMessageDto {
+  @ApiProperty({ description: 'Message for the other party and the admins' })
+  @IsString()
+  @IsNotEmpty()
+  message: string;
+
+  @ApiPropertyOptional({ description: 'Additional evidence attachments', type: [DisputeEvidenceDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => DisputeEvidenceDto)
+  evidence?: DisputeEvidenceDto[];
+}
+
+export class ResolveDisputeDto {
+  @ApiProperty({ enum: DisputeResolutionType, description: 'How the dispute is settled' })
+  @IsEnum(DisputeResolutionType)
+  type: DisputeResolutionType;
+
+  @ApiPropertyOptional({
+    description: 'Amount refunded to the client in minor units (required for partial refunds)',
+    example: 4000,
+  })
+  @ValidateIf((o: ResolveDisputeDto) => o.type === DisputeResolutionType.PARTIAL_REFUND)
+  @IsInt()
+  @IsPositive()
+  amount?: number;
+
+  @ApiProperty({ description: 'Explanation shared with both parties', example: 'Only two of the three posts were published' })
+  @IsString()
+  @IsNotEmpty()
+  note: string;
+}
+
+export class DisputeQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({ enum: DisputeStatus, description: 'Only disputes with this status' })
+  @IsOptional()
+  @IsEnum(DisputeStatus)
+  status?: DisputeStatus;
+}
@@ -0,0 +1,120 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export enum DisputeStatus {
+  OPEN = 'OPEN',
+  RESOLVED = 'RESOLVED',
+}
+
+export enum DisputeResolutionType {
+  FULL_REFUND = 'FULL_REFUND',
+  PARTIAL_REFUND = 'PARTIAL_REFUND',
+  RELEASE_TO_INFLUENCER = 'RELEASE_TO_INFLUENCER',
+}
+
+export enum DisputeTimelineEventType {
+  OPENED = 'OPENED',
+  MESSAGE = 'MESSAGE',
+  RESOLVED = 'RESOLVED',
+}
+
+@Schema({ _id: false })
+export class DisputeEvidence {
+  // S3 object key uploaded through the signed upload URL
+  @Prop({ type: String, required: true })
+  key: string;
+
+  @Prop({ type: String })
+  note?: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  uploadedBy: Types.ObjectId;
+
+  @Prop({ type: Date, required: true })
+  uploadedAt: Date;
+}
+
+@Schema({ _id: false })
+export class DisputeTimelineEvent {
+  @Prop({ type: String, enum: DisputeTimelineEventType, required: true })
+  type: DisputeTimelineEventType;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  by: Types.ObjectId;
+
+  @Prop({ type: String, required: true })
+  role: string;
+
+  @Prop({ type: String })
+  message?: string;
+
+  @Prop({ type: [String], default: [] })
+  evidenceKeys: string[];
+
+  @Prop({ type: Date, required: true })
+  at: Date;
+}
+
+@Schema({ _id: false })
+export class DisputeResolution {
+  @Prop({ type: String, enum: DisputeResolutionType, required: true })
+  type: DisputeResolutionType;
+
+  // Refunded amount, zero when the escrow was released to the influencer
+  @Prop({ type: Number, required: true, min: 0 })
+  amount: number;
+
+  @Prop({ type: String, required: true })
+  note: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  resolvedBy: Types.ObjectId;
+
+  @Prop({ type: Date, required: true })
+  resolvedAt: Date;
+}
+
+@Schema({ timestamps: true })
+export class Dispute extends Document {
+  @Prop({ type: Types.ObjectId, ref: 'Order', required: true })
+  orderId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  openedBy: Types.ObjectId;
+
+  @Prop({ type: String, required: true })
+  openedByRole: string;
+
+  // Parties copied from the order so listings do not need a lookup
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  clientId: Types.ObjectId;
+
+  @Prop({ type: [{ type: Types.ObjectId, ref: 'User' }], required: true })
+  influencerIds: Types.ObjectId[];
+
+  @Prop({ type: String, required: true })
+  reason: string;
+
+  @Prop({ type: String })
+  description?: string;
+
+  @Prop({ type: String, enum: DisputeStatus, default: DisputeStatus.OPEN })
+  status: DisputeStatus;
+
+  @Prop({ type: [SchemaFactory.createForClass(DisputeEvidence)], default: [] })
+  evidence: DisputeEvidence[];
+
+  @Prop({ type: [SchemaFactory.createForClass(DisputeTimelineEvent)], default: [] })
+  timeline: DisputeTimelineEvent[];
+
+  @Prop({ type: SchemaFactory.createForClass(DisputeResolution) })
+  resolution?: DisputeResolution;
+}
+
+export const DisputeSchema = SchemaFactory.createForClass(Dispute);
+
+// At most one open dispute per order
+DisputeSchema.index({ orderId: 1 }, { unique: true, partialFilterExpression: { status: DisputeStatus.OPEN } });
+DisputeSchema.index({ clientId: 1, createdAt: -1 });
+DisputeSchema.index({ influencerIds: 1, createdAt: -1 });
+DisputeSchema.index({ status: 1, createdAt: -1 });
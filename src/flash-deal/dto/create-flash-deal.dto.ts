@@ -1,4 +1,15 @@
-import { IsDate, IsMongoId, IsNotEmpty, IsNumber, IsOptional, IsString, IsUrl, Min } from 'class-validator';
+import {
+  IsDate,
+  IsInt,
+  IsISO4217CurrencyCode,
+  IsMongoId,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Min,
+} from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { Type } from 'class-transformer';
 
@@ -28,21 +39,29 @@ export class CreateFlashDealDto {
   description?: string;
 
   @ApiProperty({
-    description: 'Original price of the service',
-    example: 1000,
+    description: 'Original price of the service in minor units of the deal currency (cents for USD)',
+    example: 100000,
   })
-  @IsNumber()
+  @IsInt()
   @Min(0)
   originalPrice: number;
 
   @ApiProperty({
-    description: 'Discounted price for the flash deal',
-    example: 500,
+    description: 'Discounted price for the flash deal in minor units of the deal currency',
+    example: 50000,
   })
-  @IsNumber()
+  @IsInt()
   @Min(0)
   discountedPrice: number;
 
+  @ApiPropertyOptional({
+    description: 'ISO 4217 currency of the prices; must be the currency of the service and defaults to it',
+    example: 'USD',
+  })
+  @IsOptional()
+  @IsISO4217CurrencyCode()
+  currency?: string;
+
   @ApiProperty({
     description: 'Start date and time of the flash deal',
     example: '2024-03-20T00:00:00Z',
@@ -74,4 +93,4 @@ export class CreateFlashDealDto {
   @IsOptional()
   @IsUrl()
   imageUrl?: string;
-} 
\ No newline at end of file
+}
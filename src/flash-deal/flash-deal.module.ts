@@ -10,6 +10,7 @@
  * Dependencies:
  * - UserModule: For user data and authentication
  * - InfluencerServiceModule: For service-related operations
+ * - PricingModule: For the currency of services
  */
 import { Module } from '@nestjs/common';
 import { FlashDealController } from './flash-deal.controller';
@@ -23,11 +24,15 @@ import { FlashDeal, FlashDealSchema } from './schemas/flash-deal.schema';
 import { InfluencerServiceService } from 'src/influencer-service/influencer-service.service';
 import { InfluencerServices, InfluencerServicesSchema } from 'src/influencer-service/schemas/influencer-service.schema';
 import { Contract, ContractSchema } from 'src/influencer-service/schemas/contract-schema';
+import { TagModule } from 'src/tag/tag.module';
+import { PricingModule } from 'src/pricing/pricing.module';
 
 @Module({
   imports: [
     UserModule,
+    TagModule,
     InfluencerServiceModule,
+    PricingModule,
     MongooseModule.forFeature([
       { name: User.name, schema: UserSchema },
       { name: FlashDeal.name, schema: FlashDealSchema },
@@ -7,6 +7,7 @@ import { UpdateFlashDealDto } from './dto/update-flash-deal.dto';
 import { InfluencerServiceService } from 'src/influencer-service/influencer-service.service';
 import { UserService } from 'src/user/user.service';
 import { UserRole } from 'src/user/schemas/user.schema';
+import { PricingService } from 'src/pricing/pricing.service';
 
 @Injectable()
 export class FlashDealService {
@@ -14,6 +15,7 @@ export class FlashDealService {
     @InjectModel(FlashDeal.name) private readonly flashDealModel: Model<FlashDealDocument>,
     private readonly influencerServiceService: InfluencerServiceService,
     private readonly userService: UserService,
+    private readonly pricingService: PricingService,
   ) {}
 
   // admin only
@@ -24,6 +26,7 @@ export class FlashDealService {
     if (!service) {
       throw new NotFoundException('Service not found');
     }
+    const currency = this.dealCurrency(service, data.currency);
 
     // Check if service is already part of an active flash deal
     const existingFlashDeal = await this.flashDealModel.findOne({
@@ -49,6 +52,7 @@ export class FlashDealService {
 
     return await this.flashDealModel.create({
       ...data,
+      currency,
       createdBy: new Types.ObjectId(createdBy),
       serviceId: new Types.ObjectId(data.serviceId),
     });
@@ -223,12 +227,20 @@ export class FlashDealService {
       }
     }
 
-    // Validate service exists if serviceId is provided
-    if (data.serviceId) {
-      const service = await this.influencerServiceService.getInfluencerServiceByServiceId(data.serviceId, { currentUserId: (data as any).userId ?? undefined });
+    // Validate service exists if serviceId is provided, and that the deal stays priced in the currency of its service
+    let currency: string | undefined;
+    if (data.serviceId || data.currency) {
+      const service = await this.influencerServiceService.getInfluencerServiceByServiceId(
+        data.serviceId ?? flashDeal.serviceId.toString(),
+        { currentUserId: (data as any).userId ?? undefined },
+      );
       if (!service) {
         throw new NotFoundException('Service not found');
       }
+      currency = this.dealCurrency(service, data.currency);
+      if (currency !== flashDeal.currency && (data.originalPrice === undefined || data.discountedPrice === undefined)) {
+        throw new BadRequestException(`This service is charged in ${currency}. Give both prices in ${currency}`);
+      }
     }
 
     return await this.flashDealModel.findByIdAndUpdate(
@@ -236,6 +248,7 @@ export class FlashDealService {
       {
         $set: {
           ...data,
+          ...(currency && { currency }),
           serviceId: data.serviceId ? new Types.ObjectId(data.serviceId) : undefined,
         },
       },
@@ -296,4 +309,15 @@ export class FlashDealService {
       { new: true },
     );
   }
+
+  // A deal is charged like its service, so it is priced in the currency of the service
+  private dealCurrency(service: { currency?: string }, requested?: string): string {
+    const currency = (service.currency || this.pricingService.getDefaultCurrency()).toUpperCase();
+    if (requested && requested.toUpperCase() !== currency) {
+      throw new BadRequestException(
+        `This service is charged in ${currency} while the flash deal is priced in ${requested.toUpperCase()}`,
+      );
+    }
+    return currency;
+  }
 }
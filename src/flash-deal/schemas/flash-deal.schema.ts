@@ -21,12 +21,17 @@ export class FlashDeal {
   @Prop()
   description?: string;
 
-  @Prop({ required: true })
+  // Integer minor units of `currency` (cents for USD)
+  @Prop({ required: true, min: 0 })
   originalPrice: number;
 
-  @Prop({ required: true })
+  @Prop({ required: true, min: 0 })
   discountedPrice: number;
 
+  // Always the currency of the service
+  @Prop({ required: true, uppercase: true })
+  currency: string;
+
   @Prop({ required: true })
   startDate: Date;
 
@@ -10,6 +10,10 @@ import {
   ValidateIf,
   ArrayMinSize,
   ValidateNested,
+  IsMongoId,
+  Max,
+  IsInt,
+  IsISO4217CurrencyCode,
 } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { Type } from 'class-transformer';
@@ -32,6 +36,18 @@ class CollaborationDetailsDto {
   description?: string;
 }
 
+export class RevenueShareDto {
+  @ApiProperty({ description: 'Collaboration member user ID', example: '60f7b2e1c1234a1234567890' })
+  @IsMongoId()
+  userId: string;
+
+  @ApiProperty({ description: 'Percentage of the earnings for this member', example: 60 })
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  percentage: number;
+}
+
 export class CreateInfluencerServiceDto {
   @ApiProperty({ description: 'Type of service', enum: ServiceType, example: ServiceType.INDIVIDUAL })
   @IsEnum(ServiceType)
@@ -52,17 +68,38 @@ export class CreateInfluencerServiceDto {
   @IsUrl()
   imageUrl: string;
 
+  @ApiPropertyOptional({
+    type: [String],
+    description: 'IDs of managed tags (see GET /tags)',
+    example: ['665f1b2f9f1b14670c52fdef'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsMongoId({ each: true })
+  tags?: string[];
+
   @ApiPropertyOptional({ description: 'Whether the service requires a physical location', default: false, example: false })
   @IsOptional()
   @IsBoolean()
   locationRequired?: boolean;
 
-  @ApiPropertyOptional({ description: 'Price of the service', default: 0, example: 500 })
+  @ApiPropertyOptional({ description: 'Price of the service in minor units (e.g. cents)', default: 0, example: 50000 })
   @IsOptional()
-  @IsNumber()
+  @IsInt()
   @Min(0)
   price?: number;
 
+  @ApiPropertyOptional({ description: 'ISO 4217 currency of the price, defaults to the platform currency', example: 'USD' })
+  @IsOptional()
+  @IsISO4217CurrencyCode()
+  currency?: string;
+
+  @ApiPropertyOptional({ description: 'Number of revision rounds a client can request on deliverables', default: 2, example: 2 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxRevisions?: number;
+
   @ApiProperty({ description: 'Minimum number of days required to complete the service', minimum: 1, example: 3 })
   @IsNumber()
   @Min(1)
@@ -92,4 +129,14 @@ export class CreateInfluencerServiceDto {
   @ValidateNested()
   @Type(() => CollaborationDetailsDto)
   collaborationDetails?: CollaborationDetailsDto;
+
+  @ApiPropertyOptional({
+    description: 'Earnings split between collaboration members (must add up to 100). Split evenly when omitted',
+    type: [RevenueShareDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RevenueShareDto)
+  revenueShares?: RevenueShareDto[];
 }
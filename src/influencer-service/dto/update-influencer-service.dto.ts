@@ -1,6 +1,21 @@
-import { IsNumber, IsOptional, IsString, IsUrl, Min, IsBoolean, IsEnum, IsArray } from 'class-validator';
+import {
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Min,
+  IsBoolean,
+  IsEnum,
+  IsArray,
+  ValidateNested,
+  IsInt,
+  IsISO4217CurrencyCode,
+  IsMongoId,
+} from 'class-validator';
+import { Type } from 'class-transformer';
 import { ApiPropertyOptional } from '@nestjs/swagger';
 import { ServiceType } from '../schemas/influencer-service.schema';
+import { RevenueShareDto } from './create-influencer-service.dto';
 
 export class UpdateInfluencerServiceDto {
   @ApiPropertyOptional({
@@ -19,6 +34,16 @@ export class UpdateInfluencerServiceDto {
   @IsString()
   description?: string;
 
+  @ApiPropertyOptional({
+    type: [String],
+    description: 'IDs of managed tags (see GET /tags)',
+    example: ['665f1b2f9f1b14670c52fdef'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsMongoId({ each: true })
+  tags?: string[];
+
   @ApiPropertyOptional({
     description: 'Cover image URL for the service',
     example: 'https://example.com/service-cover.jpg',
@@ -44,16 +69,17 @@ export class UpdateInfluencerServiceDto {
   @IsBoolean()
   locationRequired?: boolean;
 
-  @ApiPropertyOptional({
-    description: 'Price of the service',
-    example: 500,
-    default: 0,
-  })
+  @ApiPropertyOptional({ description: 'Price of the service in minor units (e.g. cents)', default: 0, example: 50000 })
   @IsOptional()
-  @IsNumber()
+  @IsInt()
   @Min(0)
   price?: number;
 
+  @ApiPropertyOptional({ description: 'ISO 4217 currency of the price, defaults to the platform currency', example: 'USD' })
+  @IsOptional()
+  @IsISO4217CurrencyCode()
+  currency?: string;
+
   @ApiPropertyOptional({
     description: 'List of user IDs involved in the service',
     type: [String],
@@ -89,6 +115,15 @@ export class UpdateInfluencerServiceDto {
   @Min(1)
   minimumDaysForCompletion?: number;
 
+  @ApiPropertyOptional({
+    description: 'Number of revision rounds a client can request on deliverables',
+    example: 2,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxRevisions?: number;
+
   @ApiPropertyOptional({
     description: 'Contract ID for the service',
     type: String,
@@ -96,4 +131,14 @@ export class UpdateInfluencerServiceDto {
   @IsOptional()
   @IsString()
   contract?: string;
+
+  @ApiPropertyOptional({
+    description: 'Earnings split between collaboration members (must add up to 100)',
+    type: [RevenueShareDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RevenueShareDto)
+  revenueShares?: RevenueShareDto[];
 }
@@ -8,12 +8,16 @@ import { InfluencerServiceService } from './influencer-service.service';
 import { Roles } from 'src/common/decorators/role.decorator';
 import { CreateCollaborationServiceDto } from './dto/collaboration-service.dto';
 import { UpdateInfluencerServiceStatusDto } from './dto/update-influencer-service-status.dto';
+import { PricingService } from 'src/pricing/pricing.service';
 
 @ApiTags('Influencer services')
 @ApiBearerAuth('access-token')
 @Controller('influencer-service')
 export class InfluencerServiceController {
-  constructor(private readonly influencerServiceService: InfluencerServiceService) {}
+  constructor(
+    private readonly influencerServiceService: InfluencerServiceService,
+    private readonly pricingService: PricingService,
+  ) {}
 
   // VALID
   @Post('/')
@@ -35,15 +39,19 @@ export class InfluencerServiceController {
   @ApiParam({ name: 'influencerId', description: 'ID of the influencer' })
   @ApiQuery({ name: 'page', required: false, description: 'Page number for pagination' })
   @ApiQuery({ name: 'limit', required: false, description: 'Number of items per page' })
+  @ApiQuery({ name: 'minRating', required: false, type: Number, description: 'Minimum average rating (1-5)' })
+  @ApiQuery({ name: 'sortBy', required: false, enum: ['rating'], description: 'Best rated first' })
   async getInfluencerServiceByInfluencerId(
     @Param('influencerId') influencerId: string,
     @Query('page') page: number,
     @Query('limit') limit: number,
+    @Query('minRating') minRating: number,
+    @Query('sortBy') sortBy: string,
     @Req() req: Request,
   ) {
     return await this.influencerServiceService.getInfluencerServicesByInfluencerId(
       influencerId,
-      { page, limit },
+      { page, limit, minRating, sortByRating: sortBy === 'rating' },
       { currentUserId: req?.user?.userId, currentUserRole: req?.user?.role },
     );
   }
@@ -56,9 +64,17 @@ export class InfluencerServiceController {
   })
   @ApiQuery({ name: 'page', required: false, description: 'Page number for pagination' })
   @ApiQuery({ name: 'limit', required: false, description: 'Number of items per page' })
-  async getCollaborationServices(@Query('page') page: number, @Query('limit') limit: number, @Req() req: Request) {
+  @ApiQuery({ name: 'minRating', required: false, type: Number, description: 'Minimum average rating (1-5)' })
+  @ApiQuery({ name: 'sortBy', required: false, enum: ['rating'], description: 'Best rated first' })
+  async getCollaborationServices(
+    @Query('page') page: number,
+    @Query('limit') limit: number,
+    @Query('minRating') minRating: number,
+    @Query('sortBy') sortBy: string,
+    @Req() req: Request,
+  ) {
     return await this.influencerServiceService.getCollaborationServices(
-      { page, limit },
+      { page, limit, minRating, sortByRating: sortBy === 'rating' },
       { currentUserId: req?.user?.userId, currentUserRole: req?.user?.role },
     );
   }
@@ -123,12 +139,22 @@ export class InfluencerServiceController {
   }
 
   // VALID
-  @ApiOperation({ summary: 'Get a influencer service' })
+  @ApiOperation({
+    summary: 'Get a influencer service',
+    description:
+      "Includes `displayPrice`, the price converted to the user's preferred currency, when it differs from the service currency",
+  })
   @Get('/:serviceId')
   async getInfluencerService(@Param('serviceId') serviceId: string, @Req() req: Request) {
-    return this.influencerServiceService.getInfluencerServiceByServiceId(serviceId, {
+    const service = await this.influencerServiceService.getInfluencerServiceByServiceId(serviceId, {
       currentUserId: req?.user?.userId,
       currentUserRole: req?.user?.role,
     });
+    const displayPrice = await this.pricingService.toDisplayAmount(
+      service.price || 0,
+      service.currency || this.pricingService.getDefaultCurrency(),
+      req?.user?.userId,
+    );
+    return { ...service.toObject(), displayPrice };
   }
 }
@@ -9,12 +9,20 @@ import { InfluencerServices, InfluencerServicesSchema } from './schemas/influenc
 
 import { ContractController } from './contract.controller';
 import { Contract, ContractSchema } from './schemas/contract-schema';
+import { PricingModule } from 'src/pricing/pricing.module';
+import { TagModule } from 'src/tag/tag.module';
 
 @Module({
   imports: [
     // Import UserModule for user-related functionality
     UserModule,
 
+    // Converted display prices
+    PricingModule,
+
+    // Service tags
+    TagModule,
+
     // Register Mongoose schemas
     MongooseModule.forFeature([
       { name: User.name, schema: UserSchema },
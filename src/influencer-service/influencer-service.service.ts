@@ -6,6 +6,7 @@ import { isValidObjectId, Model, Types } from 'mongoose';
 import { UserService } from 'src/user/user.service';
 import { PaginationResponse } from 'src/@types/pagination-response.interface';
 import { Contract } from './schemas/contract-schema';
+import { TagService } from 'src/tag/tag.service';
 
 @Injectable()
 export class InfluencerServiceService {
@@ -13,6 +14,7 @@ export class InfluencerServiceService {
     @InjectModel(InfluencerServices.name) private readonly influencerServiceModal: Model<InfluencerServiceDocument>,
     @InjectModel(Contract.name) private readonly contractModel: Model<Contract>,
     private readonly userService: UserService,
+    private readonly tagService: TagService,
   ) {}
 
   // DTO validation requierd
@@ -73,6 +75,10 @@ export class InfluencerServiceService {
       throw new BadRequestException('Atleast add one partner for collaboration');
     }
 
+    data.revenueShares = this.validateRevenueShares(data.type, data.users, data.revenueShares);
+
+    if (data.tags) data.tags = await this.tagService.resolveTagIds(data.tags.map(String));
+
     const serviceId = new Types.ObjectId();
 
     // TODO: Make sure this is updated or add might make a hardcorded id
@@ -86,6 +92,8 @@ export class InfluencerServiceService {
       contract: contractData?._id,
     });
 
+    await this.tagService.refreshUsage(service.tags || []);
+
     // ...
     return service?.toJSON();
   }
@@ -119,8 +127,21 @@ export class InfluencerServiceService {
       data.users = data.users.map((id) => new Types.ObjectId(id));
     }
 
+    if (data.revenueShares) {
+      data.revenueShares = this.validateRevenueShares(
+        serviceData.type,
+        data.users || serviceData.users || [],
+        data.revenueShares,
+      );
+    }
+
+    if (data.tags) data.tags = await this.tagService.resolveTagIds(data.tags.map(String));
+
     await this.influencerServiceModal.updateOne({ _id: new Types.ObjectId(serviceId) }, { $set: data });
 
+    // Tags dropped by the update are recounted as well
+    if (data.tags) await this.tagService.refreshUsage([...(serviceData.tags || []), ...data.tags]);
+
     return (
       await this.influencerServiceModal.aggregate([
         { $match: { _id: new Types.ObjectId(serviceId) } },
@@ -158,7 +179,7 @@ export class InfluencerServiceService {
 
   async getInfluencerServicesByInfluencerId(
     influencerId: string,
-    params?: { page?: number; limit?: number },
+    params?: { page?: number; limit?: number; minRating?: number; sortByRating?: boolean },
     options?: { currentUserId?: string; currentUserRole?: UserRole },
   ): Promise<PaginationResponse<InfluencerServices>> {
     if (!isValidObjectId(influencerId)) throw new BadRequestException('Invalid influencerId');
@@ -169,8 +190,10 @@ export class InfluencerServiceService {
     if (options?.currentUserId === influencerId || options?.currentUserRole === UserRole.ADMIN) {
       delete filter.status;
     }
+    if (params?.minRating) filter.ratingAverage = { $gte: params.minRating };
     const docs = await this.influencerServiceModal
       .find(filter)
+      .sort(params?.sortByRating ? { ratingAverage: -1, reviewCount: -1 } : {})
       .skip((page - 1) * limit)
       .limit(limit)
       .populate('contract')
@@ -185,7 +208,7 @@ export class InfluencerServiceService {
   }
 
   async getCollaborationServices(
-    params?: { page?: number; limit?: number },
+    params?: { page?: number; limit?: number; minRating?: number; sortByRating?: boolean },
     options?: { currentUserId?: string; currentUserRole?: UserRole },
   ): Promise<PaginationResponse<InfluencerServices>> {
     const page = Math.max(1, Number(params?.page || 1));
@@ -195,8 +218,10 @@ export class InfluencerServiceService {
     if (options?.currentUserRole === UserRole.ADMIN) {
       delete filter.status;
     }
+    if (params?.minRating) filter.ratingAverage = { $gte: params.minRating };
     const docs = await this.influencerServiceModal
       .find(filter)
+      .sort(params?.sortByRating ? { ratingAverage: -1, reviewCount: -1 } : {})
       .skip((page - 1) * limit)
       .limit(limit)
       .populate('contract');
@@ -226,6 +251,7 @@ export class InfluencerServiceService {
     }
 
     const deleted = await this.influencerServiceModal.deleteOne({ _id: new Types.ObjectId(serviceId) });
+    await this.tagService.refreshUsage(serviceData.tags || []);
 
     return { message: 'Influencer service deleted successfully', deleted: deleted.deletedCount > 0 };
   }
@@ -252,4 +278,31 @@ export class InfluencerServiceService {
     await service.save();
     return this.influencerServiceModal.findById(serviceId).populate('contract');
   }
+
+  // Revenue shares must list every collaboration member once and add up to 100%
+  private validateRevenueShares(
+    type: ServiceType,
+    users: (Types.ObjectId | string)[],
+    revenueShares?: { userId: Types.ObjectId | string; percentage: number }[],
+  ) {
+    if (!revenueShares?.length) return undefined;
+    if (type !== ServiceType.COLLABORATION) {
+      throw new BadRequestException('Revenue shares are only supported for collaboration services');
+    }
+
+    const userIds = users.map((id) => String(id));
+    const shareUserIds = revenueShares.map((share) => String(share.userId));
+    if (
+      new Set(shareUserIds).size !== shareUserIds.length ||
+      shareUserIds.length !== userIds.length ||
+      !shareUserIds.every((id) => userIds.includes(id))
+    ) {
+      throw new BadRequestException('Revenue shares must list every collaboration member once');
+    }
+
+    const total = revenueShares.reduce((sum, share) => sum + share.percentage, 0);
+    if (Math.abs(total - 100) > 0.001) throw new BadRequestException('Revenue shares must add up to 100');
+
+    return revenueShares.map((share) => ({ userId: new Types.ObjectId(String(share.userId)), percentage: share.percentage }));
+  }
 }
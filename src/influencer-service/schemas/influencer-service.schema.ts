@@ -42,15 +42,27 @@ export class InfluencerServices {
   @Prop({ required: true })
   description: string;
 
+  @Prop({ type: [{ type: Types.ObjectId, ref: 'Tag' }], default: [] })
+  tags?: Types.ObjectId[] | string[];
+
+  // Integer minor units of `currency` (cents for USD)
   @Prop({ type: Number, default: 0 })
   price?: number;
 
+  // Falls back to PAYMENT_CURRENCY when not set
+  @Prop({ type: String, uppercase: true })
+  currency?: string;
+
   @Prop({ required: true, type: Number, min: 1 })
   minimumDaysForCompletion: number;
 
   @Prop({ default: false, type: Boolean })
   locationRequired?: boolean;
 
+  // How many times a client can request changes to a deliverable
+  @Prop({ type: Number, default: 2, min: 0 })
+  maxRevisions?: number;
+
   // @Prop({ default: 0, type: Number })
   // duration?: number;
 
@@ -62,6 +74,10 @@ export class InfluencerServices {
     description?: string;
   };
 
+  // How collaboration earnings are split between users (percentages adding up to 100). Even split when empty
+  @Prop({ type: [{ userId: { type: Types.ObjectId, ref: 'User' }, percentage: Number }], _id: false, default: undefined })
+  revenueShares?: { userId: Types.ObjectId | string; percentage: number }[];
+
   @Prop({ type: Types.ObjectId, ref: 'Contract' })
   contract?: Types.ObjectId | string;
 
@@ -70,6 +86,13 @@ export class InfluencerServices {
 
   @Prop({ type: String })
   rejectReason?: string;
+
+  // Visible reviews of orders for this service, kept up to date by the review module
+  @Prop({ type: Number, default: 0 })
+  ratingAverage?: number;
+
+  @Prop({ type: Number, default: 0 })
+  reviewCount?: number;
 }
 
 export const InfluencerServicesSchema = SchemaFactory.createForClass(InfluencerServices);
@@ -0,0 +1,28 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsInt, IsMongoId, IsOptional, IsPositive, IsString, Length } from 'class-validator';
+
+export class CreatePayoutDto {
+  @ApiProperty({ description: 'Influencer receiving the payout', example: '60f7b2e1c1234a1234567890' })
+  @IsMongoId()
+  influencerId: string;
+
+  @ApiProperty({ description: 'Amount paid out in minor units (e.g. cents)', example: 25000 })
+  @IsInt()
+  @IsPositive()
+  amount: number;
+
+  @ApiProperty({ description: 'ISO 4217 currency code', example: 'USD' })
+  @IsString()
+  @Length(3, 3)
+  currency: string;
+
+  @ApiPropertyOptional({ description: 'External transfer reference, used to avoid recording a payout twice' })
+  @IsOptional()
+  @IsString()
+  reference?: string;
+
+  @ApiPropertyOptional({ description: 'Note shown in the payout history' })
+  @IsOptional()
+  @IsString()
+  note?: string;
+}
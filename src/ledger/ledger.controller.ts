@@ -0,0 +1,50 @@
+import { Body, Controller, Get, Param, Post, Query, Req } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { Request } from 'express';
+import { Roles } from 'src/common/decorators/role.decorator';
+import { UserRole } from 'src/user/schemas/user.schema';
+import { LedgerService } from './ledger.service';
+import { CreatePayoutDto } from './dto/create-payout.dto';
+
+@ApiTags('Payouts')
+@ApiBearerAuth('access-token')
+@Controller('payouts')
+export class LedgerController {
+  constructor(private readonly ledgerService: LedgerService) {}
+
+  @Get('me')
+  @ApiOperation({
+    summary: 'Get my balances and payout history',
+    description: 'Pending (escrow), available and paid out balances per currency along with the ledger history',
+  })
+  @ApiQuery({ name: 'page', required: false, description: 'Page number for pagination' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Number of items per page' })
+  @Roles(UserRole.INFLUENCER)
+  async getMyPayouts(@Req() req: Request, @Query('page') page?: number, @Query('limit') limit?: number) {
+    return this.ledgerService.getMyPayouts(req?.user?.userId!, { page, limit });
+  }
+
+  @Get('influencer/:influencerId')
+  @ApiOperation({ summary: 'Get balances and payout history of an influencer (admin)' })
+  @ApiParam({ name: 'influencerId', description: 'Influencer user ID' })
+  @ApiQuery({ name: 'page', required: false, description: 'Page number for pagination' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Number of items per page' })
+  @Roles(UserRole.ADMIN)
+  async getInfluencerPayouts(
+    @Param('influencerId') influencerId: string,
+    @Query('page') page?: number,
+    @Query('limit') limit?: number,
+  ) {
+    return this.ledgerService.getMyPayouts(influencerId, { page, limit });
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Record a payout (admin)',
+    description: 'Records money transferred to an influencer and deducts it from their available balance',
+  })
+  @Roles(UserRole.ADMIN)
+  async recordPayout(@Req() req: Request, @Body() data: CreatePayoutDto) {
+    return this.ledgerService.recordPayout(req?.user?.userId!, data);
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Ledger Module
+ *
+ * Double-entry bookkeeping for order money:
+ * - Holding client payments in escrow per order item
+ * - Releasing escrow to influencers minus the platform commission
+ * - Recording refunds and influencer payouts
+ */
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { LedgerController } from './ledger.controller';
+import { LedgerService } from './ledger.service';
+import { LedgerTransaction, LedgerTransactionSchema } from './schemas/ledger-transaction.schema';
+import { InfluencerServices, InfluencerServicesSchema } from 'src/influencer-service/schemas/influencer-service.schema';
+import { Order, OrderSchema } from 'src/order/schemas/order.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: LedgerTransaction.name, schema: LedgerTransactionSchema },
+      { name: InfluencerServices.name, schema: InfluencerServicesSchema },
+      { name: Order.name, schema: OrderSchema },
+    ]),
+  ],
+  controllers: [LedgerController],
+  providers: [LedgerService],
+  exports: [LedgerService],
+})
+export class LedgerModule {}
@@ -0,0 +1,367 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { PaginationResponse } from 'src/@types/pagination-response.interface';
+import {
+  InfluencerServiceDocument,
+  InfluencerServices,
+  ServiceType,
+} from 'src/influencer-service/schemas/influencer-service.schema';
+import { Order } from 'src/order/schemas/order.schema';
+import {
+  LedgerAccount,
+  LedgerBeneficiary,
+  LedgerEntry,
+  LedgerTransaction,
+  LedgerTransactionDocument,
+  LedgerTransactionType,
+} from './schemas/ledger-transaction.schema';
+import { CreatePayoutDto } from './dto/create-payout.dto';
+import { roundAmount, splitAmount } from './ledger.utils';
+
+// Amounts in minor units
+export interface PayoutBalance {
+  currency: string;
+  pending: number; // Held in escrow for orders that are not completed yet
+  available: number; // Released earnings not paid out yet
+  paidOut: number;
+}
+
+@Injectable()
+export class LedgerService {
+  private readonly logger = new Logger(LedgerService.name);
+
+  constructor(
+    @InjectModel(LedgerTransaction.name) private readonly ledgerModel: Model<LedgerTransactionDocument>,
+    @InjectModel(InfluencerServices.name) private readonly influencerServiceModel: Model<InfluencerServiceDocument>,
+    @InjectModel(Order.name) private readonly orderModel: Model<Order>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Moves the money paid for an order item into escrow and fixes how it will be split on release.
+   * The client service fee and tax never go to the influencers, so they are booked right away.
+   */
+  async holdEscrow(order: Order, payment: { _id: unknown; currency: string }) {
+    const amount = roundAmount(order.totalAmount);
+    if (amount <= 0) return null;
+
+    const [held, platformFee, tax] = this.splitByPricing(order, amount);
+    const beneficiaries = await this.getBeneficiaries(order);
+    return this.post({
+      reference: `escrow_hold:${order.item._id.toString()}`,
+      type: LedgerTransactionType.ESCROW_HOLD,
+      currency: payment.currency,
+      orderId: order._id as Types.ObjectId,
+      orderItemId: order.item._id,
+      paymentId: payment._id as Types.ObjectId,
+      beneficiaries,
+      commissionRate: this.getCommissionRate(),
+      entries: [
+        { account: LedgerAccount.GATEWAY, debit: amount, credit: 0 },
+        { account: LedgerAccount.ESCROW, orderItemId: order.item._id, debit: 0, credit: held },
+        { account: LedgerAccount.PLATFORM_REVENUE, debit: 0, credit: platformFee },
+        { account: LedgerAccount.TAX_PAYABLE, debit: 0, credit: tax },
+      ],
+      description: 'Order payment held in escrow',
+    });
+  }
+
+  /**
+   * Releases whatever is left in an order item's escrow to its influencers, minus the platform commission.
+   */
+  async releaseEscrow(order: Order) {
+    if (order.hasOpenDispute) {
+      throw new BadRequestException('Escrow cannot be released while the order is disputed');
+    }
+    const hold = await this.ledgerModel.findOne({ reference: `escrow_hold:${order.item._id.toString()}` });
+    if (!hold) return null;
+
+    const held = await this.getEscrowBalance(order.item._id);
+    if (held <= 0) return null;
+
+    const commission = roundAmount(held * (hold.commissionRate || 0));
+    const beneficiaries = hold.beneficiaries || [];
+    const parts = splitAmount(
+      held - commission,
+      beneficiaries.map((beneficiary) => beneficiary.share),
+    );
+
+    return this.post({
+      reference: `escrow_release:${order.item._id.toString()}`,
+      type: LedgerTransactionType.ESCROW_RELEASE,
+      currency: hold.currency,
+      orderId: order._id as Types.ObjectId,
+      orderItemId: order.item._id,
+      paymentId: hold.paymentId,
+      entries: [
+        { account: LedgerAccount.ESCROW, orderItemId: order.item._id, debit: held, credit: 0 },
+        { account: LedgerAccount.PLATFORM_REVENUE, debit: 0, credit: commission },
+        ...beneficiaries.map((beneficiary, index) => ({
+          account: LedgerAccount.INFLUENCER,
+          userId: beneficiary.userId,
+          debit: 0,
+          credit: parts[index],
+        })),
+      ],
+      description: 'Escrow released to influencers',
+    });
+  }
+
+  /**
+   * Returns refunded money to the gateway. Fee and tax are given back in proportion; of the service
+   * price, funds still in escrow are used first and anything beyond that is clawed back from the
+   * released commission and influencer earnings in proportion.
+   */
+  async recordRefund(order: Order, amount: number, reference: string) {
+    const hold = await this.ledgerModel.findOne({ reference: `escrow_hold:${order.item._id.toString()}` });
+    if (!hold) return null;
+
+    amount = roundAmount(amount);
+    const [servicePart, platformFee, tax] = this.splitByPricing(order, amount);
+    const fromEscrow = Math.min(await this.getEscrowBalance(order.item._id), servicePart);
+    const entries: LedgerEntry[] = [
+      { account: LedgerAccount.GATEWAY, debit: 0, credit: amount },
+      { account: LedgerAccount.PLATFORM_REVENUE, debit: platformFee, credit: 0 },
+      { account: LedgerAccount.TAX_PAYABLE, debit: tax, credit: 0 },
+    ];
+    if (fromEscrow > 0) {
+      entries.push({ account: LedgerAccount.ESCROW, orderItemId: order.item._id, debit: fromEscrow, credit: 0 });
+    }
+
+    const fromReleased = roundAmount(servicePart - fromEscrow);
+    if (fromReleased > 0) {
+      const release = await this.ledgerModel.findOne({ reference: `escrow_release:${order.item._id.toString()}` });
+      const releasedLines = release?.entries.filter((entry) => entry.credit > 0) || [];
+      if (!releasedLines.length) throw new BadRequestException('Refund exceeds the funds recorded for this order');
+
+      const parts = splitAmount(
+        fromReleased,
+        releasedLines.map((entry) => entry.credit),
+      );
+      releasedLines.forEach((entry, index) => {
+        entries.push({ account: entry.account, userId: entry.userId, debit: parts[index], credit: 0 });
+      });
+    }
+
+    return this.post({
+      reference,
+      type: LedgerTransactionType.REFUND,
+      currency: hold.currency,
+      orderId: order._id as Types.ObjectId,
+      orderItemId: order.item._id,
+      paymentId: hold.paymentId,
+      entries,
+      description: 'Order refund',
+    });
+  }
+
+  // Admin records money sent to an influencer outside the platform (bank transfer, etc.)
+  async recordPayout(adminId: string, data: CreatePayoutDto) {
+    // Released earnings may still be clawed back by a refund until the dispute is settled
+    const disputed = await this.orderModel.exists({
+      'item.influencerIds': new Types.ObjectId(data.influencerId),
+      hasOpenDispute: true,
+    });
+    if (disputed) {
+      throw new BadRequestException('Payouts are frozen while an order of this influencer is disputed');
+    }
+
+    const currency = data.currency.toUpperCase();
+    const amount = roundAmount(data.amount);
+    const balance = await this.getAccountBalance(
+      LedgerAccount.INFLUENCER,
+      { userId: new Types.ObjectId(data.influencerId) },
+      currency,
+    );
+    if (amount > balance) {
+      throw new BadRequestException(`Payout exceeds the available balance of ${balance} ${currency}`);
+    }
+
+    return this.post({
+      reference: `payout:${data.reference || new Types.ObjectId().toHexString()}`,
+      type: LedgerTransactionType.PAYOUT,
+      currency,
+      userId: new Types.ObjectId(data.influencerId),
+      createdBy: new Types.ObjectId(adminId),
+      entries: [
+        { account: LedgerAccount.INFLUENCER, userId: new Types.ObjectId(data.influencerId), debit: amount, credit: 0 },
+        { account: LedgerAccount.GATEWAY, debit: 0, credit: amount },
+      ],
+      description: data.note || 'Influencer payout',
+    });
+  }
+
+  async getBalances(userId: string): Promise<PayoutBalance[]> {
+    const userObjectId = new Types.ObjectId(userId);
+    const balances = new Map<string, PayoutBalance>();
+    const balanceFor = (currency: string) => {
+      if (!balances.has(currency)) balances.set(currency, { currency, pending: 0, available: 0, paidOut: 0 });
+      return balances.get(currency)!;
+    };
+
+    // Released earnings and payouts
+    const influencerTotals = await this.ledgerModel.aggregate<{ _id: string; credit: number; debit: number; paidOut: number }>([
+      { $unwind: '$entries' },
+      { $match: { 'entries.account': LedgerAccount.INFLUENCER, 'entries.userId': userObjectId } },
+      {
+        $group: {
+          _id: '$currency',
+          credit: { $sum: '$entries.credit' },
+          debit: { $sum: '$entries.debit' },
+          paidOut: { $sum: { $cond: [{ $eq: ['$type', LedgerTransactionType.PAYOUT] }, '$entries.debit', 0] } },
+        },
+      },
+    ]);
+    for (const total of influencerTotals) {
+      const balance = balanceFor(total._id);
+      balance.available = roundAmount(total.credit - total.debit);
+      balance.paidOut = roundAmount(total.paidOut);
+    }
+
+    // This influencer's expected part of everything still in escrow
+    const holds = await this.ledgerModel.find({ type: LedgerTransactionType.ESCROW_HOLD, 'beneficiaries.userId': userObjectId });
+    for (const hold of holds) {
+      const held = await this.getEscrowBalance(hold.orderItemId!);
+      if (held <= 0) continue;
+      const share = hold.beneficiaries?.find((beneficiary) => beneficiary.userId.toString() === userId)?.share || 0;
+      const balance = balanceFor(hold.currency);
+      balance.pending = roundAmount(balance.pending + held * (1 - (hold.commissionRate || 0)) * share);
+    }
+
+    return [...balances.values()];
+  }
+
+  async getPayoutHistory(userId: string, { page = 1, limit = 10 }: { page?: number; limit?: number }) {
+    const skip = (page - 1) * limit;
+    const result = await this.ledgerModel.aggregate<PaginationResponse<LedgerTransaction>>([
+      {
+        $match: {
+          type: { $in: [LedgerTransactionType.ESCROW_RELEASE, LedgerTransactionType.REFUND, LedgerTransactionType.PAYOUT] },
+          entries: { $elemMatch: { account: LedgerAccount.INFLUENCER, userId: new Types.ObjectId(userId) } },
+        },
+      },
+      { $sort: { createdAt: -1 } },
+      {
+        $facet: {
+          metadata: [{ $count: 'totalDocs' }],
+          data: [
+            { $skip: skip },
+            { $limit: limit },
+            {
+              $project: {
+                type: 1,
+                currency: 1,
+                orderId: 1,
+                description: 1,
+                createdAt: 1,
+                // Only this influencer's line of the transaction
+                entry: {
+                  $first: {
+                    $filter: {
+                      input: '$entries',
+                      cond: {
+                        $and: [
+                          { $eq: ['$$this.account', LedgerAccount.INFLUENCER] },
+                          { $eq: ['$$this.userId', new Types.ObjectId(userId)] },
+                        ],
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          ],
+        },
+      },
+      {
+        $project: {
+          totalDocs: { $ifNull: [{ $arrayElemAt: ['$metadata.totalDocs', 0] }, 0] },
+          page: { $literal: page },
+          limit: { $literal: limit },
+          docs: '$data',
+        },
+      },
+    ]);
+
+    return result[0];
+  }
+
+  async getMyPayouts(userId: string, query: { page?: number; limit?: number }) {
+    return {
+      balances: await this.getBalances(userId),
+      history: await this.getPayoutHistory(userId, query),
+    };
+  }
+
+  async getEscrowBalance(orderItemId: Types.ObjectId) {
+    return this.getAccountBalance(LedgerAccount.ESCROW, { orderItemId });
+  }
+
+  // Liability style balance (credits minus debits) of an account
+  private async getAccountBalance(
+    account: LedgerAccount,
+    owner: { userId?: Types.ObjectId; orderItemId?: Types.ObjectId },
+    currency?: string,
+  ): Promise<number> {
+    const entryMatch: Record<string, unknown> = { 'entries.account': account };
+    if (owner.userId) entryMatch['entries.userId'] = owner.userId;
+    if (owner.orderItemId) entryMatch['entries.orderItemId'] = owner.orderItemId;
+
+    const [result] = await this.ledgerModel.aggregate<{ balance: number }>([
+      { $match: { ...(currency && { currency }) } },
+      { $unwind: '$entries' },
+      { $match: entryMatch },
+      { $group: { _id: null, balance: { $sum: { $subtract: ['$entries.credit', '$entries.debit'] } } } },
+    ]);
+    return roundAmount(result?.balance || 0);
+  }
+
+  private async getBeneficiaries(order: Order): Promise<LedgerBeneficiary[]> {
+    const influencerIds = order.item.influencerIds.map((id) => id.toString());
+    const service = await this.influencerServiceModel.findById(order.item.serviceId).lean();
+
+    // Configured shares only apply when they cover exactly the influencers on the order
+    const shares = service?.type === ServiceType.COLLABORATION ? service.revenueShares || [] : [];
+    const sharesMatch =
+      shares.length === influencerIds.length && shares.every((share) => influencerIds.includes(share.userId.toString()));
+    if (sharesMatch) {
+      return shares.map((share) => ({ userId: new Types.ObjectId(share.userId), share: share.percentage / 100 }));
+    }
+
+    return influencerIds.map((id) => ({ userId: new Types.ObjectId(id), share: 1 / influencerIds.length }));
+  }
+
+  // [service price, platform fee, tax] parts of an amount paid for or refunded on an order
+  private splitByPricing(order: Order, amount: number): number[] {
+    const pricing = order.pricing;
+    if (!pricing?.total) return [amount, 0, 0];
+    return splitAmount(amount, [pricing.subtotal - (pricing.discount || 0), pricing.platformFee, pricing.tax]);
+  }
+
+  private getCommissionRate() {
+    return Number(this.configService.get('PLATFORM_COMMISSION_PERCENT') ?? 10) / 100;
+  }
+
+  // Writes a balanced transaction once per reference; replays return the stored transaction
+  private async post(transaction: Omit<LedgerTransaction, '_id' | 'createdAt'>) {
+    transaction.entries = transaction.entries
+      .map((entry) => ({ ...entry, debit: roundAmount(entry.debit), credit: roundAmount(entry.credit) }))
+      .filter((entry) => entry.debit > 0 || entry.credit > 0);
+
+    const debits = roundAmount(transaction.entries.reduce((sum, entry) => sum + entry.debit, 0));
+    const credits = roundAmount(transaction.entries.reduce((sum, entry) => sum + entry.credit, 0));
+    if (debits !== credits) {
+      throw new BadRequestException(`Unbalanced ledger transaction ${transaction.reference}`);
+    }
+
+    try {
+      return await this.ledgerModel.create(transaction);
+    } catch (error) {
+      if (error?.code !== 11000) throw error;
+      this.logger.warn(`Ledger transaction ${transaction.reference} already recorded`);
+      return this.ledgerModel.findOne({ reference: transaction.reference });
+    }
+  }
+}
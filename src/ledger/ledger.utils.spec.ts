@@ -0,0 +1,26 @@
+import { roundAmount, splitAmount } from './ledger.utils';
+
+describe('ledger utils', () => {
+  it('should split evenly and hand the remainder to the first parts', () => {
+    expect(splitAmount(10000, [1, 1, 1])).toEqual([3334, 3333, 3333]);
+  });
+
+  it('should split by configured shares', () => {
+    expect(splitAmount(9000, [0.7, 0.3])).toEqual([6300, 2700]);
+  });
+
+  it('should never lose money when splitting', () => {
+    const parts = splitAmount(1001, [1, 2, 4]);
+    expect(parts.every((part) => Number.isInteger(part))).toBe(true);
+    expect(parts.reduce((sum, part) => sum + part, 0)).toBe(1001);
+  });
+
+  it('should still support decimal amounts when asked to', () => {
+    expect(splitAmount(100, [1, 1, 1], 2)).toEqual([33.34, 33.33, 33.33]);
+    expect(roundAmount(10.005 + 0.001, 2)).toBe(10.01);
+  });
+
+  it('should reject weights that sum to zero', () => {
+    expect(() => splitAmount(10, [0, 0])).toThrow();
+  });
+});
@@ -0,0 +1,25 @@
+/**
+ * Splits an amount by weights without losing or creating money.
+ * Every part is rounded to `decimals` places (whole minor units by default) and the rounding
+ * remainder goes to the first parts.
+ */
+export function splitAmount(amount: number, weights: number[], decimals = 0): number[] {
+  if (!weights.length) return [];
+  const factor = 10 ** decimals;
+  const units = Math.round(amount * factor);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (totalWeight <= 0) throw new Error('Split weights must add up to more than zero');
+
+  const parts = weights.map((weight) => Math.floor((units * weight) / totalWeight));
+  let remainder = units - parts.reduce((sum, part) => sum + part, 0);
+  for (let i = 0; remainder > 0; i = (i + 1) % parts.length, remainder--) {
+    parts[i] += 1;
+  }
+  return parts.map((part) => part / factor);
+}
+
+// Rounds to whole minor units so float noise never reaches the entries
+export function roundAmount(amount: number, decimals = 0): number {
+  const factor = 10 ** decimals;
+  return Math.round(amount * factor) / factor;
+}
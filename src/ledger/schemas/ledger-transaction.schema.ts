@@ -0,0 +1,103 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type LedgerTransactionDocument = LedgerTransaction & Document;
+
+export enum LedgerAccount {
+  GATEWAY = 'gateway', // Money collected through the payment gateway (asset)
+  ESCROW = 'escrow', // Client money held per order item until completion
+  INFLUENCER = 'influencer', // Earnings owed to an influencer
+  PLATFORM_REVENUE = 'platform_revenue', // Platform commission and client service fees
+  TAX_PAYABLE = 'tax_payable', // VAT / sales tax collected from clients
+}
+
+export enum LedgerTransactionType {
+  ESCROW_HOLD = 'escrow_hold',
+  ESCROW_RELEASE = 'escrow_release',
+  REFUND = 'refund',
+  PAYOUT = 'payout',
+}
+
+@Schema({ _id: false })
+export class LedgerEntry {
+  @Prop({ type: String, enum: LedgerAccount, required: true })
+  account: LedgerAccount;
+
+  // Owner of INFLUENCER accounts
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  userId?: Types.ObjectId;
+
+  // Order item of ESCROW accounts
+  @Prop({ type: Types.ObjectId })
+  orderItemId?: Types.ObjectId;
+
+  // Integer minor units of the transaction currency
+  @Prop({ type: Number, default: 0, min: 0 })
+  debit: number;
+
+  @Prop({ type: Number, default: 0, min: 0 })
+  credit: number;
+}
+
+@Schema({ _id: false })
+export class LedgerBeneficiary {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  // Fraction of the influencer part (0-1)
+  @Prop({ type: Number, required: true })
+  share: number;
+}
+
+@Schema({ timestamps: true })
+export class LedgerTransaction {
+  _id?: Types.ObjectId;
+
+  // Idempotency key, e.g. escrow_hold:<orderItemId>
+  @Prop({ type: String, required: true, unique: true })
+  reference: string;
+
+  @Prop({ type: String, enum: LedgerTransactionType, required: true })
+  type: LedgerTransactionType;
+
+  @Prop({ type: String, required: true, uppercase: true })
+  currency: string;
+
+  @Prop({ type: [SchemaFactory.createForClass(LedgerEntry)], required: true })
+  entries: LedgerEntry[];
+
+  @Prop({ type: Types.ObjectId, ref: 'Order' })
+  orderId?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId })
+  orderItemId?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Payment' })
+  paymentId?: Types.ObjectId;
+
+  // Split decided when the escrow is funded, applied on release
+  @Prop({ type: [SchemaFactory.createForClass(LedgerBeneficiary)], default: undefined })
+  beneficiaries?: LedgerBeneficiary[];
+
+  @Prop({ type: Number })
+  commissionRate?: number;
+
+  // Influencer receiving a payout
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  userId?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  createdBy?: Types.ObjectId;
+
+  @Prop({ type: String })
+  description?: string;
+
+  createdAt?: Date;
+}
+
+export const LedgerTransactionSchema = SchemaFactory.createForClass(LedgerTransaction);
+
+LedgerTransactionSchema.index({ 'entries.account': 1, 'entries.userId': 1 });
+LedgerTransactionSchema.index({ 'entries.account': 1, 'entries.orderItemId': 1 });
+LedgerTransactionSchema.index({ type: 1, userId: 1, createdAt: -1 });
+LedgerTransactionSchema.index({ 'beneficiaries.userId': 1, type: 1 });
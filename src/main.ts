@@ -19,7 +19,8 @@ import { MongoExceptionFilter } from './common/filters/mongo-exception.filter';
  */
 async function bootstrap() {
   // Create the NestJS application instance
-  const app = await NestFactory.create(AppModule);
+  // rawBody is kept for verifying signed webhooks
+  const app = await NestFactory.create(AppModule, { rawBody: true });
   const configService = app.get(ConfigService);
   const logger = new Logger('Main');
 
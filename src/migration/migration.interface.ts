@@ -0,0 +1,22 @@
+export interface MigrationContext {
+  // PAYMENT_CURRENCY, the only currency amounts were stored in before they carried their own
+  defaultCurrency: string;
+}
+
+/**
+ * One update of a collection. The runner only applies it to documents created before the migration
+ * started and not updated by an earlier attempt, so a failed migration can be run again.
+ */
+export interface MigrationStep {
+  // Name of the model whose collection is updated; at most one step per model
+  model: string;
+  filter: Record<string, any>;
+  // Aggregation pipeline, so the new values can be computed from the stored ones
+  update: Record<string, any>[];
+}
+
+export interface MigrationDefinition {
+  // Unique and never changed once released
+  name: string;
+  steps(context: MigrationContext): MigrationStep[];
+}
@@ -0,0 +1,18 @@
+/**
+ * Migration Module
+ *
+ * Data migrations run once per database on application start:
+ * - Claimed by a single instance through a unique migration record
+ * - Safe to retry after a failure
+ */
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { MigrationService } from './migration.service';
+import { Migration, MigrationSchema } from './schemas/migration.schema';
+import { PricingModule } from 'src/pricing/pricing.module';
+
+@Module({
+  imports: [MongooseModule.forFeature([{ name: Migration.name, schema: MigrationSchema }]), PricingModule],
+  providers: [MigrationService],
+})
+export class MigrationModule {}
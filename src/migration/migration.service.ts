@@ -0,0 +1,96 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import { Connection, Model } from 'mongoose';
+import { PricingService } from 'src/pricing/pricing.service';
+import { Migration, MigrationStatus } from './schemas/migration.schema';
+import { MigrationDefinition } from './migration.interface';
+import { minorUnitAmountsMigration } from './migrations/minor-unit-amounts.migration';
+import { flashDealMinorUnitAmountsMigration } from './migrations/flash-deal-minor-unit-amounts.migration';
+
+// In the order they are run; append new migrations at the end
+const MIGRATIONS: MigrationDefinition[] = [minorUnitAmountsMigration, flashDealMinorUnitAmountsMigration];
+
+// Set on the documents a migration updated until it is done, so a retry skips them
+const MIGRATION_MARKER = '_migration';
+
+/**
+ * Runs the pending data migrations once per database. A migration that failed is retried on the
+ * next start; one left running by an instance that stopped must be set to failed by hand first.
+ */
+@Injectable()
+export class MigrationService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(MigrationService.name);
+
+  constructor(
+    @InjectModel(Migration.name) private readonly migrationModel: Model<Migration>,
+    @InjectConnection() private readonly connection: Connection,
+    private readonly pricingService: PricingService,
+  ) {}
+
+  // Awaited before the app listens, so this instance never serves data it has not migrated
+  async onApplicationBootstrap(): Promise<void> {
+    // autoIndex is off outside dev, and the unique name is what keeps two instances from both running a migration
+    await this.migrationModel.createIndexes();
+    for (const migration of MIGRATIONS) {
+      await this.run(migration);
+    }
+  }
+
+  private async run(migration: MigrationDefinition): Promise<void> {
+    const record = await this.claim(migration.name);
+    if (!record) return;
+
+    const steps = migration.steps({ defaultCurrency: this.pricingService.getDefaultCurrency() });
+    try {
+      for (const step of steps) {
+        const { modifiedCount } = await this.connection
+          .model(step.model)
+          .collection.updateMany(
+            { ...step.filter, createdAt: { $not: { $gte: record.startedAt } }, [MIGRATION_MARKER]: { $ne: migration.name } },
+            [...step.update, { $set: { [MIGRATION_MARKER]: migration.name } }],
+          );
+        this.logger.log(`Migration ${migration.name}: updated ${modifiedCount} ${step.model} documents`);
+      }
+
+      for (const step of steps) {
+        await this.connection
+          .model(step.model)
+          .collection.updateMany({ [MIGRATION_MARKER]: migration.name }, { $unset: { [MIGRATION_MARKER]: 1 } });
+      }
+
+      await this.migrationModel.updateOne(
+        { _id: record._id },
+        { status: MigrationStatus.DONE, finishedAt: new Date(), $unset: { error: 1 } },
+      );
+      this.logger.log(`Migration ${migration.name} done`);
+    } catch (error) {
+      await this.migrationModel.updateOne({ _id: record._id }, { status: MigrationStatus.FAILED, error: error.message });
+      this.logger.error(`Migration ${migration.name} failed: ${error.message}`);
+      throw error;
+    }
+  }
+
+  // The migration record if this instance is the one to run it, null if it is done or running elsewhere
+  private async claim(name: string): Promise<Migration | null> {
+    const existing = await this.migrationModel.findOne({ name });
+    if (existing?.status === MigrationStatus.DONE) return null;
+    if (existing?.status === MigrationStatus.RUNNING) {
+      this.logger.warn(`Migration ${name} is running on another instance or was interrupted; set it to failed to run it again`);
+      return null;
+    }
+    if (existing) {
+      return this.migrationModel.findOneAndUpdate(
+        { _id: existing._id, status: MigrationStatus.FAILED },
+        { status: MigrationStatus.RUNNING },
+        { new: true },
+      );
+    }
+
+    try {
+      return await this.migrationModel.create({ name, status: MigrationStatus.RUNNING, startedAt: new Date() });
+    } catch (error) {
+      if (error?.code === 11000) return null;
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,2 @@
+// Aggregation expression turning a major unit amount (49.99) into integer minor units (4999)
+export const minorUnitsExpression = (amount: unknown, factor: number) => ({ $round: [{ $multiply: [amount, factor] }, 0] });
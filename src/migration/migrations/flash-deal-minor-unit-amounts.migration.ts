@@ -0,0 +1,31 @@
+import { FlashDeal } from 'src/flash-deal/schemas/flash-deal.schema';
+import { currencyExponent } from 'src/pricing/pricing.utils';
+import { MigrationDefinition } from '../migration.interface';
+import { minorUnitsExpression } from '../migration.utils';
+
+/**
+ * Flash deal prices used to be decimals of PAYMENT_CURRENCY, which every service was priced in.
+ * Converts them to integer minor units and gives the deals that currency.
+ */
+export const flashDealMinorUnitAmountsMigration: MigrationDefinition = {
+  name: 'flash-deal-minor-unit-amounts',
+  steps: ({ defaultCurrency }) => {
+    const factor = 10 ** currencyExponent(defaultCurrency);
+
+    return [
+      {
+        model: FlashDeal.name,
+        filter: {},
+        update: [
+          {
+            $set: {
+              originalPrice: minorUnitsExpression('$originalPrice', factor),
+              discountedPrice: minorUnitsExpression('$discountedPrice', factor),
+              currency: { $ifNull: ['$currency', defaultCurrency] },
+            },
+          },
+        ],
+      },
+    ];
+  },
+};
@@ -0,0 +1,180 @@
+import { InfluencerServices } from 'src/influencer-service/schemas/influencer-service.schema';
+import { Cart } from 'src/cart/schemas/cart.schema';
+import { Order } from 'src/order/schemas/order.schema';
+import { Payment } from 'src/order/schemas/payment.schema';
+import { Invoice } from 'src/order/schemas/invoice.schema';
+import { LedgerTransaction } from 'src/ledger/schemas/ledger-transaction.schema';
+import { Dispute } from 'src/dispute/schemas/dispute.schema';
+import { currencyExponent } from 'src/pricing/pricing.utils';
+import { MigrationDefinition } from '../migration.interface';
+import { minorUnitsExpression } from '../migration.utils';
+
+// A breakdown without fee, tax or discount, which is what was charged before the pricing engine
+const flatPricing = (currency: unknown, subtotal: unknown, total: unknown) => ({
+  currency,
+  subtotal,
+  discount: 0,
+  platformFeeRate: 0,
+  platformFee: 0,
+  taxRate: 0,
+  tax: 0,
+  total,
+});
+
+/**
+ * Amounts used to be stored as decimals of PAYMENT_CURRENCY. Converts them to integer minor units,
+ * gives services, cart items and orders their currency and orders and payments a price breakdown.
+ */
+export const minorUnitAmountsMigration: MigrationDefinition = {
+  name: 'minor-unit-amounts',
+  steps: ({ defaultCurrency }) => {
+    const factor = 10 ** currencyExponent(defaultCurrency);
+
+    return [
+      {
+        model: InfluencerServices.name,
+        filter: {},
+        update: [
+          {
+            $set: {
+              price: { $cond: [{ $isNumber: '$price' }, minorUnitsExpression('$price', factor), '$$REMOVE'] },
+              currency: { $ifNull: ['$currency', defaultCurrency] },
+            },
+          },
+        ],
+      },
+      {
+        model: Cart.name,
+        filter: {},
+        update: [
+          {
+            $set: {
+              items: {
+                $map: {
+                  input: { $ifNull: ['$items', []] },
+                  as: 'item',
+                  in: {
+                    $mergeObjects: [
+                      '$$item',
+                      {
+                        price: minorUnitsExpression('$$item.price', factor),
+                        currency: { $ifNull: ['$$item.currency', defaultCurrency] },
+                      },
+                    ],
+                  },
+                },
+              },
+              totalAmount: minorUnitsExpression({ $ifNull: ['$totalAmount', 0] }, factor),
+            },
+          },
+        ],
+      },
+      {
+        model: Order.name,
+        filter: {},
+        update: [
+          {
+            $set: {
+              'item.price': minorUnitsExpression('$item.price', factor),
+              totalAmount: minorUnitsExpression('$totalAmount', factor),
+              currency: { $ifNull: ['$currency', defaultCurrency] },
+              pricing: flatPricing(
+                { $ifNull: ['$currency', defaultCurrency] },
+                minorUnitsExpression('$item.price', factor),
+                minorUnitsExpression('$totalAmount', factor),
+              ),
+              refunds: {
+                $map: {
+                  input: { $ifNull: ['$refunds', []] },
+                  as: 'refund',
+                  in: {
+                    $mergeObjects: [
+                      '$$refund',
+                      {
+                        amount: minorUnitsExpression('$$refund.amount', factor),
+                        lineItems: {
+                          $map: {
+                            input: { $ifNull: ['$$refund.lineItems', []] },
+                            as: 'line',
+                            in: { $mergeObjects: ['$$line', { amount: minorUnitsExpression('$$line.amount', factor) }] },
+                          },
+                        },
+                      },
+                    ],
+                  },
+                },
+              },
+            },
+          },
+        ],
+      },
+      {
+        model: Payment.name,
+        filter: {},
+        update: [
+          {
+            $set: {
+              amount: minorUnitsExpression('$amount', factor),
+              refundedAmount: minorUnitsExpression({ $ifNull: ['$refundedAmount', 0] }, factor),
+              pricing: flatPricing('$currency', minorUnitsExpression('$amount', factor), minorUnitsExpression('$amount', factor)),
+            },
+          },
+        ],
+      },
+      {
+        // Issued invoices keep their tax; the tax is what is left of the total after the subtotal, so they still add up
+        model: Invoice.name,
+        filter: { pricing: { $exists: false } },
+        update: [
+          {
+            $set: {
+              lineItems: {
+                $map: {
+                  input: { $ifNull: ['$lineItems', []] },
+                  as: 'line',
+                  in: { $mergeObjects: ['$$line', { amount: minorUnitsExpression('$$line.amount', factor) }] },
+                },
+              },
+              pricing: {
+                ...flatPricing('$currency', minorUnitsExpression('$subtotal', factor), minorUnitsExpression('$total', factor)),
+                taxRate: { $ifNull: ['$taxRate', 0] },
+                tax: { $subtract: [minorUnitsExpression('$total', factor), minorUnitsExpression('$subtotal', factor)] },
+              },
+            },
+          },
+          { $unset: ['subtotal', 'taxRate', 'taxAmount', 'total'] },
+        ],
+      },
+      {
+        model: LedgerTransaction.name,
+        filter: {},
+        update: [
+          {
+            $set: {
+              entries: {
+                $map: {
+                  input: { $ifNull: ['$entries', []] },
+                  as: 'entry',
+                  in: {
+                    $mergeObjects: [
+                      '$$entry',
+                      {
+                        debit: minorUnitsExpression({ $ifNull: ['$$entry.debit', 0] }, factor),
+                        credit: minorUnitsExpression({ $ifNull: ['$$entry.credit', 0] }, factor),
+                      },
+                    ],
+                  },
+                },
+              },
+            },
+          },
+        ],
+      },
+      {
+        model: Dispute.name,
+        filter: { 'resolution.amount': { $exists: true } },
+        update: [{ $set: { 'resolution.amount': minorUnitsExpression('$resolution.amount', factor) } }],
+      },
+    ];
+  },
+};
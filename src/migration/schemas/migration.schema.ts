@@ -0,0 +1,32 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export enum MigrationStatus {
+  RUNNING = 'running',
+  DONE = 'done',
+  FAILED = 'failed',
+}
+
+/**
+ * A data migration that was started on this database. The unique name makes sure only one instance runs it.
+ */
+@Schema({ timestamps: true })
+export class Migration extends Document {
+  @Prop({ type: String, required: true, unique: true })
+  name: string;
+
+  @Prop({ type: String, enum: MigrationStatus, required: true })
+  status: MigrationStatus;
+
+  // Documents created from this moment on are already in the new format; kept when a failed run is retried
+  @Prop({ type: Date, required: true })
+  startedAt: Date;
+
+  @Prop({ type: Date })
+  finishedAt?: Date;
+
+  @Prop({ type: String })
+  error?: string;
+}
+
+export const MigrationSchema = SchemaFactory.createForClass(Migration);
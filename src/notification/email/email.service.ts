@@ -65,6 +65,22 @@ export class EmailService {
     });
   }
 
+  // Sent to the previous address after the email address or phone number of the account was changed
+  async sendContactChangedEmail(email: string, contact: string) {
+    return this.sendEmail({
+      to: email,
+      subject: `Your ${contact} was changed`,
+      html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2>Account Updated</h2>
+      <p>The ${contact} of your account was just changed.</p>
+      <p>If you didn't make this change, please contact our support team immediately.</p>
+      </div>
+      `,
+      text: `The ${contact} of your account was just changed. If you didn't make this change, please contact our support team immediately.`,
+    });
+  }
+
   async sendCredentialsEmail(email: string, password: string) {
     return this.sendEmail({
       to: email,
@@ -13,6 +13,22 @@ export class SmsService {
     this.client = twilio(sid, token);
   }
 
+  // Sent to the previous number after the email address or phone number of the account was changed
+  async sendContactChangedSms(phoneNumber: string, contact: string): Promise<boolean> {
+    try {
+      await this.client.messages.create({
+        body: `The ${contact} of your account was just changed. If you didn't make this change, please contact support.`,
+        from: this.configService.get<string>('TWILIO_PHONE_NUMBER'),
+        to: phoneNumber,
+      });
+
+      return true;
+    } catch (error) {
+      this.logger.error('Failed to send SMS', error);
+      return false;
+    }
+  }
+
   async sendOtp(phoneNumber: string, otp: string): Promise<boolean> {
     const fromNumber = this.configService.get<string>('TWILIO_PHONE_NUMBER');
 
@@ -0,0 +1,37 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsArray, IsBoolean, IsEnum, IsNotEmpty, IsOptional, IsString, ValidateIf } from 'class-validator';
+
+export enum DeliverableReviewAction {
+  APPROVE = 'APPROVE',
+  REQUEST_CHANGES = 'REQUEST_CHANGES',
+}
+
+export class SubmitDeliverableDto {
+  @ApiPropertyOptional({ description: 'Script or written content', example: 'Intro: ...' })
+  @IsOptional()
+  @IsString()
+  text?: string;
+
+  @ApiPropertyOptional({ description: 'S3 keys returned by the deliverable upload URL endpoint of the order', type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  fileKeys?: string[];
+
+  @ApiPropertyOptional({ description: 'Whether this is the final content rather than a draft', default: false })
+  @IsOptional()
+  @IsBoolean()
+  isFinal?: boolean;
+}
+
+export class ReviewDeliverableDto {
+  @ApiProperty({ enum: DeliverableReviewAction, description: 'Approve the deliverable or request changes' })
+  @IsEnum(DeliverableReviewAction)
+  action: DeliverableReviewAction;
+
+  @ApiPropertyOptional({ description: 'Feedback for the influencer (required when requesting changes)' })
+  @ValidateIf((o: ReviewDeliverableDto) => o.action === DeliverableReviewAction.REQUEST_CHANGES)
+  @IsString()
+  @IsNotEmpty()
+  comment?: string;
+}
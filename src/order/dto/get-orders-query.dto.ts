@@ -0,0 +1,52 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsEnum, IsMongoId, IsOptional, IsString } from 'class-validator';
+import { PaginationQueryDto } from 'src/favorites/dto/pagination-query.dto';
+import { OrderStatus } from '../schemas/order.schema';
+
+export enum OrderSortField {
+  CREATED_AT = 'createdAt',
+  DELIVERY_DATE = 'deliveryDate',
+  TOTAL_AMOUNT = 'totalAmount',
+}
+
+export enum SortOrder {
+  ASC = 'asc',
+  DESC = 'desc',
+}
+
+export class GetOrdersQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({ enum: OrderStatus, description: 'Filter by order status' })
+  @IsOptional()
+  @IsEnum(OrderStatus)
+  status?: OrderStatus;
+
+  @ApiPropertyOptional({ description: 'Earliest delivery date (inclusive)', example: '2025-01-01' })
+  @IsOptional()
+  @IsDateString()
+  deliveryDateFrom?: string;
+
+  @ApiPropertyOptional({ description: 'Latest delivery date (inclusive)', example: '2025-01-31' })
+  @IsOptional()
+  @IsDateString()
+  deliveryDateTo?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by influencer service ID' })
+  @IsOptional()
+  @IsMongoId()
+  serviceId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by order group (all orders created from one cart)' })
+  @IsOptional()
+  @IsString()
+  orderGroupId?: string;
+
+  @ApiPropertyOptional({ enum: OrderSortField, default: OrderSortField.CREATED_AT })
+  @IsOptional()
+  @IsEnum(OrderSortField)
+  sortBy?: OrderSortField = OrderSortField.CREATED_AT;
+
+  @ApiPropertyOptional({ enum: SortOrder, default: SortOrder.DESC })
+  @IsOptional()
+  @IsEnum(SortOrder)
+  sortOrder?: SortOrder = SortOrder.DESC;
+}
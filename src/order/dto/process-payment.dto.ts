@@ -0,0 +1,9 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString } from 'class-validator';
+
+export class ProcessPaymentDto {
+  @ApiPropertyOptional({ description: 'Payment method id issued by the payment gateway' })
+  @IsOptional()
+  @IsString()
+  paymentMethodId?: string;
+}
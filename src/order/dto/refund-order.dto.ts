@@ -0,0 +1,33 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { ArrayMinSize, IsArray, IsInt, IsNotEmpty, IsOptional, IsPositive, IsString, ValidateNested } from 'class-validator';
+
+export class RefundLineItemDto {
+  @ApiProperty({ description: 'Amount to refund for this line in minor units (e.g. cents)', example: 2500 })
+  @IsInt()
+  @IsPositive()
+  amount: number;
+
+  @ApiProperty({ description: 'Reason for this refund line', example: 'Late delivery compensation' })
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+}
+
+export class RefundOrderDto {
+  @ApiProperty({ description: 'Reason for the refund', example: 'Client cancelled the order' })
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+
+  @ApiPropertyOptional({
+    description: 'Partial refund line items (admin only). The full order amount is refunded when omitted',
+    type: [RefundLineItemDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => RefundLineItemDto)
+  lineItems?: RefundLineItemDto[];
+}
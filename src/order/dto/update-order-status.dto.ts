@@ -11,4 +11,9 @@ export class UpdateOrderStatusDto {
   @IsOptional()
   @IsString()
   rejectionReason?: string;
+
+  @ApiPropertyOptional({ description: 'Why the status is being changed, kept in the order history' })
+  @IsOptional()
+  @IsString()
+  reason?: string;
 } 
\ No newline at end of file
@@ -0,0 +1,11 @@
+import { formatInvoiceNumber } from './invoice.utils';
+
+describe('invoice utils', () => {
+  it('should zero pad the sequence within the year', () => {
+    expect(formatInvoiceNumber(2025, 42)).toBe('INV-2025-000042');
+  });
+
+  it('should keep numbers beyond the padding intact', () => {
+    expect(formatInvoiceNumber(2025, 1234567)).toBe('INV-2025-1234567');
+  });
+});
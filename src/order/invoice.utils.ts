@@ -0,0 +1,3 @@
+export function formatInvoiceNumber(year: number, seq: number): string {
+  return `INV-${year}-${String(seq).padStart(6, '0')}`;
+}
@@ -0,0 +1,140 @@
+import { BadRequestException, ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { S3Service } from 'src/common/s3/s3.service';
+import { InfluencerServiceService } from 'src/influencer-service/influencer-service.service';
+import { UserRole } from 'src/user/schemas/user.schema';
+import { Order, OrderStatus } from './schemas/order.schema';
+import { Deliverable, DeliverableStatus } from './schemas/deliverable.schema';
+import { OrderStateMachine } from './order-state-machine.service';
+import { DeliverableReviewAction, ReviewDeliverableDto, SubmitDeliverableDto } from './dto/deliverable.dto';
+import { UploadUrlDto } from 'src/dto/upload-url.dto';
+
+// File keys are issued under the order and the influencer, so only files they uploaded for it can be submitted
+const deliverableKeyPrefix = (orderId: Types.ObjectId | string, userId: string) => `deliverables/${String(orderId)}/${userId}/`;
+
+@Injectable()
+export class OrderDeliverableService {
+  constructor(
+    @InjectModel(Order.name) private orderModel: Model<Order>,
+    @InjectModel(Deliverable.name) private deliverableModel: Model<Deliverable>,
+    private readonly influencerServiceService: InfluencerServiceService,
+    private readonly s3Service: S3Service,
+    private readonly orderStateMachine: OrderStateMachine,
+  ) {}
+
+  async getDeliverables(orderId: string, userId: string, userRole: UserRole) {
+    await this.getAccessibleOrder(orderId, userId, userRole);
+    const deliverables = await this.deliverableModel.find({ orderId: new Types.ObjectId(orderId) }).sort({ version: 1 });
+    return Promise.all(deliverables.map((deliverable) => this.withFileUrls(deliverable)));
+  }
+
+  async getUploadUrl(orderId: string, userId: string, data: UploadUrlDto) {
+    const order = await this.getAccessibleOrder(orderId, userId, UserRole.INFLUENCER);
+    return this.s3Service.generateUploadUrl({
+      fileName: data.fileName,
+      fileType: data.fileType,
+      keyPrefix: deliverableKeyPrefix(order._id as Types.ObjectId, userId),
+    });
+  }
+
+  async submitDeliverable(orderId: string, userId: string, data: SubmitDeliverableDto) {
+    const order = await this.getAccessibleOrder(orderId, userId, UserRole.INFLUENCER);
+    if (![OrderStatus.PAID, OrderStatus.IN_PROGRESS].includes(order.item.status)) {
+      throw new BadRequestException(`Deliverables cannot be submitted in status ${order.item.status}`);
+    }
+    if (!data.text?.trim() && !data.fileKeys?.length) {
+      throw new BadRequestException('A deliverable needs text or at least one file');
+    }
+    const prefix = deliverableKeyPrefix(order._id as Types.ObjectId, userId);
+    if (data.fileKeys?.some((key) => !key.startsWith(prefix))) {
+      throw new BadRequestException('Files must be uploaded with the deliverable upload URL of this order');
+    }
+
+    const latest = await this.deliverableModel.findOne({ orderId: order._id }).sort({ version: -1 });
+    if (latest?.status === DeliverableStatus.SUBMITTED) {
+      throw new BadRequestException('The previous deliverable is still waiting for client review');
+    }
+    if (latest?.status === DeliverableStatus.APPROVED && latest.isFinal) {
+      throw new BadRequestException('The final deliverable has already been approved');
+    }
+
+    const deliverable = await this.deliverableModel.create({
+      orderId: order._id,
+      submittedBy: new Types.ObjectId(userId),
+      version: (latest?.version || 0) + 1,
+      text: data.text,
+      fileKeys: data.fileKeys || [],
+      isFinal: data.isFinal || false,
+    });
+
+    // First submission starts the work on the order
+    if (order.item.status === OrderStatus.PAID) {
+      await this.orderStateMachine.transition(order, OrderStatus.IN_PROGRESS, {
+        actor: UserRole.INFLUENCER,
+        userId,
+        reason: 'First deliverable submitted',
+      });
+    }
+
+    return this.withFileUrls(deliverable);
+  }
+
+  async reviewDeliverable(orderId: string, deliverableId: string, userId: string, data: ReviewDeliverableDto) {
+    const order = await this.getAccessibleOrder(orderId, userId, UserRole.USER);
+    const deliverable = await this.deliverableModel.findOne({ _id: new Types.ObjectId(deliverableId), orderId: order._id });
+    if (!deliverable) {
+      throw new NotFoundException('Deliverable not found');
+    }
+    if (deliverable.status !== DeliverableStatus.SUBMITTED) {
+      throw new BadRequestException('This deliverable has already been reviewed');
+    }
+
+    if (data.action === DeliverableReviewAction.REQUEST_CHANGES) {
+      // Internal lookup, the service may no longer be publicly listed
+      const service = await this.influencerServiceService.getInfluencerServiceByServiceId(order.item.serviceId.toString(), {
+        currentUserRole: UserRole.ADMIN,
+      });
+      const maxRevisions = service?.maxRevisions ?? 2;
+      const revisionsUsed = await this.deliverableModel.countDocuments({
+        orderId: order._id,
+        status: DeliverableStatus.CHANGES_REQUESTED,
+      });
+      if (revisionsUsed >= maxRevisions) {
+        throw new BadRequestException(`All ${maxRevisions} revision rounds for this service have been used`);
+      }
+    }
+
+    deliverable.status =
+      data.action === DeliverableReviewAction.APPROVE ? DeliverableStatus.APPROVED : DeliverableStatus.CHANGES_REQUESTED;
+    deliverable.reviewedBy = new Types.ObjectId(userId);
+    deliverable.reviewedAt = new Date();
+    deliverable.reviewComment = data.comment;
+    await deliverable.save();
+
+    return this.withFileUrls(deliverable);
+  }
+
+  private async getAccessibleOrder(orderId: string, userId: string, userRole: UserRole) {
+    const order = await this.orderModel.findById(orderId);
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    if (userRole === UserRole.INFLUENCER && !order.item.influencerIds.some((id) => id.toString() === userId)) {
+      throw new ForbiddenException('You are not assigned to this order');
+    }
+    if (userRole === UserRole.USER && order.userId.toString() !== userId) {
+      throw new ForbiddenException('You can only access your own orders');
+    }
+    return order;
+  }
+
+  // Files are private in S3, so every response carries short lived download links
+  private async withFileUrls(deliverable: Deliverable) {
+    const files = await Promise.all(
+      deliverable.fileKeys.map(async (key) => ({ key, url: await this.s3Service.generateDownloadUrl(key) })),
+    );
+    return { ...(deliverable.toObject() as Record<string, unknown>), files };
+  }
+}
@@ -0,0 +1,233 @@
+import { ForbiddenException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { jsPDF } from 'jspdf';
+import { S3Service } from 'src/common/s3/s3.service';
+import { InfluencerServices } from 'src/influencer-service/schemas/influencer-service.schema';
+import { formatMoney, sumPrices } from 'src/pricing/pricing.utils';
+import { UserRole } from 'src/user/schemas/user.schema';
+import { Order, OrderStatus, RefundStatus } from './schemas/order.schema';
+import { Payment, PaymentStatus } from './schemas/payment.schema';
+import { Invoice, InvoiceSequence } from './schemas/invoice.schema';
+import { formatInvoiceNumber } from './invoice.utils';
+
+export enum OrderGroupPaymentStatus {
+  UNPAID = 'UNPAID',
+  PENDING = 'PENDING',
+  PARTIALLY_PAID = 'PARTIALLY_PAID',
+  PAID = 'PAID',
+  REFUNDED = 'REFUNDED',
+}
+
+// Payments where money was actually captured at some point
+const CAPTURED_STATUSES = [PaymentStatus.PAID, PaymentStatus.REFUNDED];
+
+@Injectable()
+export class OrderInvoiceService {
+  private readonly logger = new Logger(OrderInvoiceService.name);
+
+  constructor(
+    @InjectModel(Order.name) private orderModel: Model<Order>,
+    @InjectModel(Payment.name) private paymentModel: Model<Payment>,
+    @InjectModel(Invoice.name) private invoiceModel: Model<Invoice>,
+    @InjectModel(InvoiceSequence.name) private invoiceSequenceModel: Model<InvoiceSequence>,
+    private readonly s3Service: S3Service,
+  ) {}
+
+  /**
+   * A checkout as a unit: the orders created from one cart, their totals, payments and invoices.
+   * Invoices are issued on first access for every captured payment of the group.
+   */
+  async getOrderGroup(orderGroupId: string, userId: string, userRole: UserRole) {
+    const orders = await this.orderModel
+      .find({ orderGroupId })
+      .sort({ createdAt: 1 })
+      .populate({ path: 'item.serviceId', select: 'title type imageUrl' });
+    if (!orders.length) {
+      throw new NotFoundException('Order group not found');
+    }
+    if (userRole !== UserRole.ADMIN && orders[0].userId.toString() !== userId) {
+      throw new ForbiddenException('You can only access your own orders');
+    }
+
+    const payments = await this.paymentModel.find({ orderGroupId }).sort({ createdAt: 1 });
+    const invoices: Invoice[] = [];
+    for (const payment of payments.filter((payment) => CAPTURED_STATUSES.includes(payment.status))) {
+      invoices.push(await this.issueInvoice(payment, orders));
+    }
+
+    const currency = orders[0].currency;
+    const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+    const { subtotal, discount, platformFee, tax, total } = sumPrices(
+      orders.map((order) => order.pricing),
+      currency,
+    );
+    return {
+      orderGroupId,
+      userId: orders[0].userId,
+      currency,
+      paymentStatus: this.getPaymentStatus(orders, payments),
+      // Minor units
+      totals: {
+        subtotal,
+        discount,
+        platformFee,
+        tax,
+        total,
+        refunded: sum(
+          orders.flatMap((order) =>
+            order.refunds.filter((refund) => refund.status !== RefundStatus.PENDING).map((refund) => refund.amount),
+          ),
+        ),
+        paid: sum(payments.filter((payment) => CAPTURED_STATUSES.includes(payment.status)).map((payment) => payment.amount)),
+      },
+      orders,
+      payments: payments.map((payment) => ({
+        _id: payment._id,
+        amount: payment.amount,
+        refundedAmount: payment.refundedAmount,
+        currency: payment.currency,
+        status: payment.status,
+        orders: payment.orders,
+        createdAt: payment.get('createdAt') as Date,
+      })),
+      invoices: await Promise.all(invoices.map((invoice) => this.withDownloadUrl(invoice))),
+    };
+  }
+
+  private getPaymentStatus(orders: Order[], payments: Payment[]): OrderGroupPaymentStatus {
+    const captured = payments.filter((payment) => CAPTURED_STATUSES.includes(payment.status));
+    if (!captured.length) {
+      return payments.some((payment) => payment.status === PaymentStatus.PENDING)
+        ? OrderGroupPaymentStatus.PENDING
+        : OrderGroupPaymentStatus.UNPAID;
+    }
+    if (captured.every((payment) => payment.status === PaymentStatus.REFUNDED)) {
+      return OrderGroupPaymentStatus.REFUNDED;
+    }
+
+    // Rejected or cancelled orders that were never paid do not need payment anymore
+    const payable = orders.filter(
+      (order) => order.item.isPaid || ![OrderStatus.REJECTED, OrderStatus.CANCELLED].includes(order.item.status),
+    );
+    return payable.every((order) => order.item.isPaid) ? OrderGroupPaymentStatus.PAID : OrderGroupPaymentStatus.PARTIALLY_PAID;
+  }
+
+  private async issueInvoice(payment: Payment, orders: Order[]): Promise<Invoice> {
+    let invoice = await this.invoiceModel.findOne({ paymentId: payment._id });
+    if (invoice?.fileKey) return invoice;
+
+    if (!invoice) {
+      const paidOrders = orders.filter((order) => payment.orders.some((orderId) => orderId.equals(order._id as Types.ObjectId)));
+      const lineItems = paidOrders.map((order) => ({
+        orderId: order._id as Types.ObjectId,
+        description: (order.item.serviceId as unknown as InfluencerServices)?.title || 'Influencer service',
+        deliveryDate: order.item.deliveryDate,
+        amount: order.pricing.subtotal,
+      }));
+      const issuedAt = new Date();
+
+      const sequence = await this.invoiceSequenceModel.findOneAndUpdate(
+        { year: issuedAt.getUTCFullYear() },
+        { $inc: { seq: 1 } },
+        { upsert: true, new: true },
+      );
+      try {
+        invoice = await this.invoiceModel.create({
+          invoiceNumber: formatInvoiceNumber(sequence.year, sequence.seq),
+          paymentId: payment._id,
+          orderGroupId: payment.orderGroupId,
+          userId: payment.userId,
+          currency: payment.currency,
+          lineItems,
+          pricing: sumPrices(
+            paidOrders.map((order) => order.pricing),
+            payment.currency,
+          ),
+          issuedAt,
+        });
+      } catch (error) {
+        // Issued by a concurrent request in the meantime
+        if (error?.code !== 11000) throw error;
+        invoice = (await this.invoiceModel.findOne({ paymentId: payment._id }))!;
+        if (invoice.fileKey) return invoice;
+      }
+    }
+
+    // The number is reserved either way; a failed upload is retried on the next access
+    try {
+      const { key } = await this.s3Service.uploadFile({
+        buffer: this.renderInvoicePdf(invoice),
+        fileName: `${invoice.invoiceNumber}.pdf`,
+        fileType: 'application/pdf',
+      });
+      invoice.fileKey = key;
+      await invoice.save();
+    } catch (error) {
+      this.logger.error(`Failed to generate invoice ${invoice.invoiceNumber}: ${error.message}`);
+    }
+    return invoice;
+  }
+
+  private renderInvoicePdf(invoice: Invoice): Buffer {
+    const doc = new jsPDF();
+    const money = (amount: number) => formatMoney(amount, invoice.currency);
+    const date = (value?: Date) => (value ? value.toISOString().slice(0, 10) : '-');
+
+    // Title
+    doc.setFontSize(22);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Invoice', 10, 20);
+
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'normal');
+    doc.text(`Invoice number: ${invoice.invoiceNumber}`, 10, 32);
+    doc.text(`Issue date: ${date(invoice.issuedAt)}`, 10, 38);
+    doc.text(`Order group: ${invoice.orderGroupId}`, 10, 44);
+
+    // Line items
+    let y = 58;
+    doc.setFont('helvetica', 'bold');
+    doc.text('Description', 10, y);
+    doc.text('Delivery date', 125, y);
+    doc.text('Amount', 200, y, { align: 'right' });
+    doc.setFont('helvetica', 'normal');
+    for (const line of invoice.lineItems) {
+      y += 8;
+      if (y > 270) {
+        doc.addPage();
+        y = 20;
+      }
+      doc.text(line.description, 10, y, { maxWidth: 110 });
+      doc.text(date(line.deliveryDate), 125, y);
+      doc.text(money(line.amount), 200, y, { align: 'right' });
+    }
+
+    // Totals
+    y += 14;
+    const { pricing } = invoice;
+    doc.text('Subtotal', 125, y);
+    doc.text(money(pricing.subtotal), 200, y, { align: 'right' });
+    if (pricing.discount) {
+      y += 6;
+      doc.text('Discount', 125, y);
+      doc.text(`-${money(pricing.discount)}`, 200, y, { align: 'right' });
+    }
+    doc.text(`Service fee (${pricing.platformFeeRate}%)`, 125, y + 6);
+    doc.text(money(pricing.platformFee), 200, y + 6, { align: 'right' });
+    doc.text(`Tax (${pricing.taxRate}%)`, 125, y + 12);
+    doc.text(money(pricing.tax), 200, y + 12, { align: 'right' });
+    doc.setFont('helvetica', 'bold');
+    doc.text('Total', 125, y + 18);
+    doc.text(money(pricing.total), 200, y + 18, { align: 'right' });
+
+    return Buffer.from(doc.output('arraybuffer'));
+  }
+
+  private async withDownloadUrl(invoice: Invoice) {
+    return {
+      ...(invoice.toObject() as Record<string, unknown>),
+      downloadUrl: invoice.fileKey ? await this.s3Service.generateDownloadUrl(invoice.fileKey) : null,
+    };
+  }
+}
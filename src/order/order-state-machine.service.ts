@@ -0,0 +1,168 @@
+import { BadRequestException, ConflictException, Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { LedgerService } from 'src/ledger/ledger.service';
+import { BookingService } from 'src/booking/booking.service';
+import { UserRole } from 'src/user/schemas/user.schema';
+import { Order, OrderStatus, OrderStatusChange } from './schemas/order.schema';
+import { Payment, PaymentStatus } from './schemas/payment.schema';
+import { Deliverable, DeliverableStatus } from './schemas/deliverable.schema';
+import { OrderActor, OrderEvent, OrderTransitionDefinition, resolveOrderTransition } from './order-state-machine';
+
+export interface OrderTransitionContext {
+  actor: OrderActor;
+  userId?: string;
+  reason?: string;
+  event?: OrderEvent;
+  // Only transitions flagged as manual are accepted (PUT /orders/:id/status)
+  manual?: boolean;
+  payment?: Payment;
+}
+
+type TransitionGuard = (order: Order, context: OrderTransitionContext) => Promise<void>;
+type EnterHook = (order: Order, context: OrderTransitionContext) => Record<string, unknown>;
+type AfterEnterHook = (order: Order, context: OrderTransitionContext) => Promise<unknown>;
+
+/**
+ * Applies the transitions declared in ORDER_TRANSITIONS. Every status change of an order
+ * goes through here so guards, side effects and the status history stay in one place.
+ */
+@Injectable()
+export class OrderStateMachine {
+  // Extra checks on top of the declared from/to/actor rules
+  private readonly guards: Partial<Record<OrderEvent, TransitionGuard>> = {
+    [OrderEvent.SIGN_CONTRACT]: (order) => {
+      const signatures = order.item.contractSignatures;
+      if (!signatures?.clientSigned || !signatures?.influencerSigned) {
+        throw new BadRequestException('Both client and influencer must sign the contract');
+      }
+      return Promise.resolve();
+    },
+    // The charge could still succeed after the order is cancelled, leaving the client paying for nothing
+    [OrderEvent.CANCEL]: async (order) => {
+      const paymentInProgress = await this.paymentModel.exists({
+        orders: order._id,
+        status: PaymentStatus.PENDING,
+        paymentGatewayId: { $exists: true },
+      });
+      if (paymentInProgress) {
+        throw new BadRequestException('A payment for this order is in progress, the order can be cancelled once it has settled');
+      }
+    },
+    [OrderEvent.COMPLETE]: async (order) => {
+      if (order.hasOpenDispute) {
+        throw new BadRequestException('The order cannot be completed while a dispute is open');
+      }
+      const approved = await this.deliverableModel.exists({
+        orderId: order._id,
+        isFinal: true,
+        status: DeliverableStatus.APPROVED,
+      });
+      if (!approved) {
+        throw new BadRequestException('The final deliverable must be approved by the client before completing the order');
+      }
+    },
+  };
+
+  // Fields written together with the new status
+  private readonly onEnter: Partial<Record<OrderStatus, EnterHook>> = {
+    [OrderStatus.APPROVED]: (order, context) => ({
+      'item.approvedBy': context.userId ? new Types.ObjectId(context.userId) : undefined,
+    }),
+    [OrderStatus.REJECTED]: (order, context) => ({
+      'item.rejectedBy': context.userId ? new Types.ObjectId(context.userId) : undefined,
+      'item.rejectionReason': context.reason,
+    }),
+    [OrderStatus.PAID]: (order, context) => ({
+      'item.isPaid': true,
+      paymentDate: new Date(),
+      paymentId: context.payment?._id,
+    }),
+    [OrderStatus.COMPLETED]: () => ({ completedAt: new Date() }),
+    [OrderStatus.CANCELLED]: (order, context) => ({
+      cancelledAt: new Date(),
+      ...(context.event === OrderEvent.EXPIRE && { 'item.rejectionReason': context.reason }),
+    }),
+  };
+
+  // Side effects once the new status is stored
+  private readonly afterEnter: Partial<Record<OrderStatus, AfterEnterHook>> = {
+    [OrderStatus.PAID]: async (order, context) => {
+      await this.ledgerService.holdEscrow(order, context.payment!);
+      if (order.item.bookingId) await this.bookingService.confirmBooking(order.item.bookingId);
+    },
+    [OrderStatus.COMPLETED]: (order) => this.ledgerService.releaseEscrow(order),
+    [OrderStatus.REJECTED]: async (order) => {
+      if (order.item.bookingId) await this.bookingService.releaseBooking(order.item.bookingId);
+    },
+    // Whatever a partial refund left in escrow belongs to the influencers
+    [OrderStatus.CANCELLED]: async (order) => {
+      await this.ledgerService.releaseEscrow(order);
+      if (order.item.bookingId) await this.bookingService.releaseBooking(order.item.bookingId);
+    },
+  };
+
+  constructor(
+    @InjectModel(Order.name) private readonly orderModel: Model<Order>,
+    @InjectModel(Deliverable.name) private readonly deliverableModel: Model<Deliverable>,
+    @InjectModel(Payment.name) private readonly paymentModel: Model<Payment>,
+    private readonly ledgerService: LedgerService,
+    private readonly bookingService: BookingService,
+  ) {}
+
+  async assertCanTransition(order: Order, to: OrderStatus, context: OrderTransitionContext): Promise<OrderTransitionDefinition> {
+    const transition = resolveOrderTransition(order.item.status, to, context.actor, {
+      event: context.event,
+      manual: context.manual,
+    });
+    if (transition.requiresReason && !context.reason?.trim()) {
+      throw new BadRequestException(`A reason is required to move an order to ${to}`);
+    }
+    await this.guards[transition.event]?.(order, context);
+    return transition;
+  }
+
+  async transition(order: Order, to: OrderStatus, context: OrderTransitionContext): Promise<Order> {
+    const transition = await this.assertCanTransition(order, to, context);
+    const from = order.item.status;
+
+    const change: OrderStatusChange = {
+      from,
+      to,
+      event: transition.event,
+      actor: context.actor,
+      changedBy: context.userId ? new Types.ObjectId(context.userId) : undefined,
+      reason: context.reason,
+      changedAt: new Date(),
+    };
+    const fields = Object.fromEntries(
+      Object.entries(this.onEnter[to]?.(order, { ...context, event: transition.event }) || {}).filter(
+        ([, value]) => value !== undefined,
+      ),
+    );
+
+    // Conditional on the current status so concurrent requests cannot apply the same transition twice
+    const updated = await this.orderModel.findOneAndUpdate(
+      { _id: order._id, 'item.status': from },
+      { $set: { ...fields, 'item.status': to }, $push: { 'item.statusHistory': change } },
+      { new: true },
+    );
+    if (!updated) {
+      throw new ConflictException('Order status changed in the meantime, please retry');
+    }
+
+    await this.afterEnter[to]?.(updated, { ...context, event: transition.event });
+    return updated;
+  }
+
+  // History entry for a freshly created order
+  initialStatusChange(userId: string): OrderStatusChange {
+    return {
+      to: OrderStatus.PENDING,
+      event: OrderEvent.CREATE,
+      actor: UserRole.USER,
+      changedBy: new Types.ObjectId(userId),
+      changedAt: new Date(),
+    };
+  }
+}
@@ -0,0 +1,45 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { UserRole } from '../user/schemas/user.schema';
+import { OrderStatus } from './schemas/order.schema';
+import { OrderEvent, resolveOrderTransition, SYSTEM_ACTOR } from './order-state-machine';
+
+describe('resolveOrderTransition', () => {
+  it('should only let the payment confirmation move an approved order to PAID', () => {
+    expect(resolveOrderTransition(OrderStatus.APPROVED, OrderStatus.PAID, SYSTEM_ACTOR).event).toBe(OrderEvent.CONFIRM_PAYMENT);
+    expect(() => resolveOrderTransition(OrderStatus.PENDING, OrderStatus.PAID, SYSTEM_ACTOR)).toThrow(BadRequestException);
+    expect(() => resolveOrderTransition(OrderStatus.APPROVED, OrderStatus.PAID, UserRole.USER)).toThrow(ForbiddenException);
+  });
+
+  it('should let approved orders be cancelled before payment', () => {
+    const transition = resolveOrderTransition(OrderStatus.APPROVED, OrderStatus.CANCELLED, UserRole.USER, { manual: true });
+    expect(transition.event).toBe(OrderEvent.CANCEL);
+  });
+
+  it('should not allow cancelling paid orders without a refund', () => {
+    expect(() => resolveOrderTransition(OrderStatus.PAID, OrderStatus.CANCELLED, UserRole.ADMIN, { manual: true })).toThrow(
+      BadRequestException,
+    );
+    expect(resolveOrderTransition(OrderStatus.PAID, OrderStatus.CANCELLED, UserRole.ADMIN).event).toBe(OrderEvent.REFUND);
+  });
+
+  it('should restrict client refunds to orders where work has not started', () => {
+    expect(() => resolveOrderTransition(OrderStatus.IN_PROGRESS, OrderStatus.CANCELLED, UserRole.USER)).toThrow(
+      ForbiddenException,
+    );
+    expect(resolveOrderTransition(OrderStatus.IN_PROGRESS, OrderStatus.CANCELLED, UserRole.ADMIN).event).toBe(OrderEvent.REFUND);
+  });
+
+  it('should keep influencers from completing orders that are not in progress', () => {
+    expect(() => resolveOrderTransition(OrderStatus.PAID, OrderStatus.COMPLETED, UserRole.INFLUENCER)).toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('should only complete unfinished orders through an explicit dispute resolution', () => {
+    const transition = resolveOrderTransition(OrderStatus.PAID, OrderStatus.COMPLETED, UserRole.ADMIN, {
+      event: OrderEvent.RESOLVE_DISPUTE,
+    });
+    expect(transition.requiresReason).toBe(true);
+    expect(() => resolveOrderTransition(OrderStatus.PAID, OrderStatus.COMPLETED, UserRole.ADMIN)).toThrow(BadRequestException);
+  });
+});
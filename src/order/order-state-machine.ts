@@ -0,0 +1,125 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { UserRole } from '../user/schemas/user.schema';
+import { OrderStatus } from './schemas/order.schema';
+
+// Transitions triggered by the platform itself (payment confirmations, cron jobs)
+export const SYSTEM_ACTOR = 'SYSTEM';
+export type OrderActor = UserRole | typeof SYSTEM_ACTOR;
+
+export enum OrderEvent {
+  CREATE = 'CREATE',
+  SIGN_CONTRACT = 'SIGN_CONTRACT',
+  REJECT = 'REJECT',
+  CANCEL = 'CANCEL',
+  EXPIRE = 'EXPIRE',
+  CONFIRM_PAYMENT = 'CONFIRM_PAYMENT',
+  START_WORK = 'START_WORK',
+  COMPLETE = 'COMPLETE',
+  REFUND = 'REFUND',
+  RESOLVE_DISPUTE = 'RESOLVE_DISPUTE',
+}
+
+export interface OrderTransitionDefinition {
+  event: OrderEvent;
+  from: OrderStatus[];
+  to: OrderStatus;
+  actors: OrderActor[];
+  // Can be requested directly through PUT /orders/:id/status
+  manual?: boolean;
+  // Only used when the caller asks for this event explicitly
+  explicit?: boolean;
+  requiresReason?: boolean;
+}
+
+export const ORDER_TRANSITIONS: OrderTransitionDefinition[] = [
+  // Both parties signed the contract
+  {
+    event: OrderEvent.SIGN_CONTRACT,
+    from: [OrderStatus.PENDING],
+    to: OrderStatus.APPROVED,
+    actors: [UserRole.USER, UserRole.INFLUENCER],
+  },
+  {
+    event: OrderEvent.REJECT,
+    from: [OrderStatus.PENDING],
+    to: OrderStatus.REJECTED,
+    actors: [UserRole.USER, UserRole.INFLUENCER, UserRole.ADMIN],
+    manual: true,
+    requiresReason: true,
+  },
+  // Nothing has been paid yet, so cancelling needs no refund
+  {
+    event: OrderEvent.CANCEL,
+    from: [OrderStatus.PENDING, OrderStatus.APPROVED],
+    to: OrderStatus.CANCELLED,
+    actors: [UserRole.USER, UserRole.ADMIN],
+    manual: true,
+  },
+  {
+    event: OrderEvent.EXPIRE,
+    from: [OrderStatus.PENDING],
+    to: OrderStatus.CANCELLED,
+    actors: [SYSTEM_ACTOR],
+    requiresReason: true,
+  },
+  { event: OrderEvent.CONFIRM_PAYMENT, from: [OrderStatus.APPROVED], to: OrderStatus.PAID, actors: [SYSTEM_ACTOR] },
+  {
+    event: OrderEvent.START_WORK,
+    from: [OrderStatus.PAID],
+    to: OrderStatus.IN_PROGRESS,
+    actors: [UserRole.INFLUENCER, UserRole.ADMIN],
+    manual: true,
+  },
+  {
+    event: OrderEvent.COMPLETE,
+    from: [OrderStatus.IN_PROGRESS],
+    to: OrderStatus.COMPLETED,
+    actors: [UserRole.INFLUENCER, UserRole.ADMIN],
+    manual: true,
+  },
+  // Paid orders are only cancelled through a refund
+  { event: OrderEvent.REFUND, from: [OrderStatus.PAID], to: OrderStatus.CANCELLED, actors: [UserRole.USER] },
+  {
+    event: OrderEvent.REFUND,
+    from: [OrderStatus.PAID, OrderStatus.IN_PROGRESS, OrderStatus.COMPLETED],
+    to: OrderStatus.CANCELLED,
+    actors: [UserRole.ADMIN],
+  },
+  // Dispute settled in the influencer's favour, no approved deliverable needed
+  {
+    event: OrderEvent.RESOLVE_DISPUTE,
+    from: [OrderStatus.PAID, OrderStatus.IN_PROGRESS],
+    to: OrderStatus.COMPLETED,
+    actors: [UserRole.ADMIN],
+    explicit: true,
+    requiresReason: true,
+  },
+];
+
+/**
+ * Finds the transition an actor may use to move an order between two statuses.
+ * Throws BadRequest when no such transition exists and Forbidden when it exists for other actors only.
+ */
+export function resolveOrderTransition(
+  from: OrderStatus,
+  to: OrderStatus,
+  actor: OrderActor,
+  options?: { event?: OrderEvent; manual?: boolean },
+): OrderTransitionDefinition {
+  const candidates = ORDER_TRANSITIONS.filter(
+    (transition) =>
+      transition.to === to &&
+      transition.from.includes(from) &&
+      (options?.event ? transition.event === options.event : !transition.explicit) &&
+      (!options?.manual || transition.manual),
+  );
+  if (!candidates.length) {
+    throw new BadRequestException(`Invalid status transition from ${from} to ${to}`);
+  }
+
+  const transition = candidates.find((candidate) => candidate.actors.includes(actor));
+  if (!transition) {
+    throw new ForbiddenException(`${actor} cannot move an order from ${from} to ${to}`);
+  }
+  return transition;
+}
@@ -1,17 +1,29 @@
-import { Controller, Get, Post, Body, Param, Req, Put } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiBearerAuth } from '@nestjs/swagger';
+import { Controller, Get, Post, Body, Param, Req, Put, Headers, HttpCode, RawBodyRequest, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiBearerAuth, ApiHeader } from '@nestjs/swagger';
 import { Request } from 'express';
 import { OrderService } from './order.service';
 import { UpdateOrderStatusDto } from './dto/update-order-status.dto';
 import { Roles } from '../common/decorators/role.decorator';
+import { Public } from '../common/decorators/public.decorator';
 import { UserRole } from '../user/schemas/user.schema';
 import { SignContractDto } from './dto/sign-contract.dto';
+import { ProcessPaymentDto } from './dto/process-payment.dto';
+import { RefundOrderDto } from './dto/refund-order.dto';
+import { GetOrdersQueryDto } from './dto/get-orders-query.dto';
+import { OrderDeliverableService } from './order-deliverable.service';
+import { OrderInvoiceService } from './order-invoice.service';
+import { ReviewDeliverableDto, SubmitDeliverableDto } from './dto/deliverable.dto';
+import { UploadUrlDto } from 'src/dto/upload-url.dto';
 
 @ApiTags('Order Management (Beta)')
 @Controller('orders')
 @ApiBearerAuth('access-token')
 export class OrderController {
-  constructor(private readonly orderService: OrderService) {}
+  constructor(
+    private readonly orderService: OrderService,
+    private readonly orderDeliverableService: OrderDeliverableService,
+    private readonly orderInvoiceService: OrderInvoiceService,
+  ) {}
 
   @Post()
   @ApiOperation({ summary: 'Create a new order from cart items' })
@@ -24,12 +36,26 @@ export class OrderController {
   }
 
   @Get()
-  @ApiOperation({ summary: 'Get all orders for the current user' })
-  @ApiResponse({ status: 200, description: 'Returns all orders' })
-  @Roles(UserRole.USER)
-  async getUserOrders(@Req() req: Request) {
-    const userId = req?.user?.userId!;
-    return this.orderService.getUserOrders(userId);
+  @ApiOperation({
+    summary: 'List orders',
+    description: 'Clients get their own orders, influencers the orders they are assigned to and admins every order',
+  })
+  @ApiResponse({ status: 200, description: 'Returns a page of orders' })
+  @Roles(UserRole.USER, UserRole.INFLUENCER, UserRole.ADMIN)
+  async getOrders(@Req() req: Request, @Query() query: GetOrdersQueryDto) {
+    return this.orderService.getOrders(req?.user?.userId!, req?.user?.role!, query);
+  }
+
+  @Get('groups/:orderGroupId')
+  @ApiOperation({
+    summary: 'Get a checkout (order group)',
+    description: 'All orders created from one cart with aggregated totals, payment status and PDF invoices to download',
+  })
+  @ApiParam({ name: 'orderGroupId', description: 'Order group ID shared by the orders of one checkout' })
+  @ApiResponse({ status: 404, description: 'Order group not found' })
+  @Roles(UserRole.USER, UserRole.ADMIN)
+  async getOrderGroup(@Req() req: Request, @Param('orderGroupId') orderGroupId: string) {
+    return this.orderInvoiceService.getOrderGroup(orderGroupId, req?.user?.userId!, req?.user?.role!);
   }
 
   @Get('pending-approval')
@@ -52,6 +78,16 @@ export class OrderController {
     return this.orderService.getOrder(userId, id);
   }
 
+  @Get(':id/history')
+  @ApiOperation({ summary: 'Get the status history of an order' })
+  @ApiParam({ name: 'id', description: 'Order ID' })
+  @ApiResponse({ status: 200, description: 'Who changed the status, from what, to what, when and why' })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  @Roles(UserRole.USER, UserRole.INFLUENCER, UserRole.ADMIN)
+  async getOrderHistory(@Req() req: Request, @Param('id') id: string) {
+    return this.orderService.getOrderHistory(id, req?.user?.userId!, req?.user?.role!);
+  }
+
   @Put(':orderId/status')
   @ApiOperation({ summary: 'Update order status' })
   @ApiParam({ name: 'orderId', description: 'Order ID' })
@@ -72,13 +108,80 @@ export class OrderController {
   @Post(':id/payment')
   @ApiOperation({ summary: 'Process payment for an order' })
   @ApiParam({ name: 'id', description: 'Order ID' })
-  @ApiResponse({ status: 200, description: 'Payment processed successfully' })
+  @ApiResponse({ status: 200, description: 'Payment processed successfully or pending gateway confirmation' })
   @ApiResponse({ status: 400, description: 'Payment failed or invalid order status' })
   @ApiResponse({ status: 404, description: 'Order not found' })
   @Roles(UserRole.USER)
-  async processPayment(@Req() req: Request, @Param('id') id: string) {
+  async processPayment(@Req() req: Request, @Param('id') id: string, @Body() body: ProcessPaymentDto) {
     const userId = req?.user?.userId!;
-    return this.orderService.processPayment(id, userId);
+    return this.orderService.processPayment(id, userId, body?.paymentMethodId);
+  }
+
+  @Post(':id/refund')
+  @ApiOperation({ summary: 'Refund a paid order and cancel it (admin, or client within the refund window)' })
+  @ApiParam({ name: 'id', description: 'Order ID' })
+  @ApiResponse({ status: 201, description: 'Order refunded and cancelled' })
+  @ApiResponse({ status: 400, description: 'Order cannot be refunded or refund failed' })
+  @ApiResponse({ status: 403, description: 'Refund not allowed for this user' })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  @Roles(UserRole.USER, UserRole.ADMIN)
+  async refundOrder(@Req() req: Request, @Param('id') id: string, @Body() refundOrderDto: RefundOrderDto) {
+    const userId = req?.user?.userId!;
+    return this.orderService.refundOrder(id, userId, req?.user?.role!, refundOrderDto);
+  }
+
+  @Get(':id/deliverables')
+  @ApiOperation({ summary: 'List deliverables (scripts, drafts and final content) of an order' })
+  @ApiParam({ name: 'id', description: 'Order ID' })
+  @Roles(UserRole.USER, UserRole.INFLUENCER, UserRole.ADMIN)
+  async getDeliverables(@Req() req: Request, @Param('id') id: string) {
+    return this.orderDeliverableService.getDeliverables(id, req?.user?.userId!, req?.user?.role!);
+  }
+
+  @Post(':id/deliverables/upload-url')
+  @ApiOperation({
+    summary: 'Get a signed URL for uploading a deliverable file (influencer)',
+    description: 'Only keys issued here for the order and the influencer are accepted in a deliverable',
+  })
+  @ApiParam({ name: 'id', description: 'Order ID' })
+  @Roles(UserRole.INFLUENCER)
+  async getDeliverableUploadUrl(@Req() req: Request, @Param('id') id: string, @Body() body: UploadUrlDto) {
+    return this.orderDeliverableService.getUploadUrl(id, req?.user?.userId!, body);
+  }
+
+  @Post(':id/deliverables')
+  @ApiOperation({ summary: 'Submit a deliverable for client review (influencer)' })
+  @ApiParam({ name: 'id', description: 'Order ID' })
+  @ApiResponse({ status: 400, description: 'Order not in progress or a deliverable is already awaiting review' })
+  @Roles(UserRole.INFLUENCER)
+  async submitDeliverable(@Req() req: Request, @Param('id') id: string, @Body() body: SubmitDeliverableDto) {
+    return this.orderDeliverableService.submitDeliverable(id, req?.user?.userId!, body);
+  }
+
+  @Post(':id/deliverables/:deliverableId/review')
+  @ApiOperation({ summary: 'Approve a deliverable or request changes (client)' })
+  @ApiParam({ name: 'id', description: 'Order ID' })
+  @ApiParam({ name: 'deliverableId', description: 'Deliverable ID' })
+  @ApiResponse({ status: 400, description: 'Already reviewed or revision limit reached' })
+  @Roles(UserRole.USER)
+  async reviewDeliverable(
+    @Req() req: Request,
+    @Param('id') id: string,
+    @Param('deliverableId') deliverableId: string,
+    @Body() body: ReviewDeliverableDto,
+  ) {
+    return this.orderDeliverableService.reviewDeliverable(id, deliverableId, req?.user?.userId!, body);
+  }
+
+  @Post('payments/webhook')
+  @Public()
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Receive payment gateway events (HMAC signed)' })
+  @ApiHeader({ name: 'x-payment-signature', description: 'Hex HMAC-SHA256 of the raw request body' })
+  @ApiResponse({ status: 200, description: 'Event received' })
+  @ApiResponse({ status: 401, description: 'Invalid webhook signature' })
+  async handlePaymentWebhook(@Req() req: RawBodyRequest<Request>, @Headers('x-payment-signature') signature: string) {
+    return this.orderService.handlePaymentWebhook(req.rawBody, signature);
   }
 
   @Post(':orderId/contract/sign')
@@ -8,8 +8,20 @@ import { CartModule } from '../cart/cart.module';
 import { InfluencerServiceModule } from '../influencer-service/influencer-service.module';
 import { AvailabilityModule } from '../availability/availability.module';
 import { Payment, PaymentSchema } from './schemas/payment.schema';
+import { PaymentEvent, PaymentEventSchema } from './schemas/payment-event.schema';
+import { Deliverable, DeliverableSchema } from './schemas/deliverable.schema';
+import { OrderDeliverableService } from './order-deliverable.service';
+import { OrderStateMachine } from './order-state-machine.service';
+import { OrderInvoiceService } from './order-invoice.service';
+import { Invoice, InvoiceSchema, InvoiceSequence, InvoiceSequenceSchema } from './schemas/invoice.schema';
 import { Contract, ContractSchema } from 'src/influencer-service/schemas/contract-schema';
 import { S3Module } from 'src/common/s3/s3.module';
+import { PAYMENT_GATEWAY } from './payment-gateway/payment-gateway.interface';
+import { FakePaymentGateway } from './payment-gateway/fake-payment.gateway';
+import { LedgerModule } from 'src/ledger/ledger.module';
+import { PricingModule } from 'src/pricing/pricing.module';
+import { CouponModule } from 'src/coupon/coupon.module';
+import { BookingModule } from 'src/booking/booking.module';
 
 @Module({
   imports: [
@@ -17,15 +29,30 @@ import { S3Module } from 'src/common/s3/s3.module';
       { name: Order.name, schema: OrderSchema },
       { name: Contract.name, schema: ContractSchema },
       { name: Payment.name, schema: PaymentSchema },
+      { name: PaymentEvent.name, schema: PaymentEventSchema },
+      { name: Deliverable.name, schema: DeliverableSchema },
+      { name: Invoice.name, schema: InvoiceSchema },
+      { name: InvoiceSequence.name, schema: InvoiceSequenceSchema },
     ]),
     CartModule,
     InfluencerServiceModule,
     AvailabilityModule,
     ScheduleModule.forRoot(),
     S3Module,
+    LedgerModule,
+    PricingModule,
+    CouponModule,
+    BookingModule,
   ],
   controllers: [OrderController],
-  providers: [OrderService],
-  exports: [OrderService],
+  providers: [
+    OrderService,
+    OrderDeliverableService,
+    OrderStateMachine,
+    OrderInvoiceService,
+    // Swap the fake for a real provider implementation once one is integrated
+    { provide: PAYMENT_GATEWAY, useClass: FakePaymentGateway },
+  ],
+  exports: [OrderService, OrderStateMachine],
 })
 export class OrderModule {}
@@ -0,0 +1,168 @@
+import { Types } from 'mongoose';
+import { OrderService } from './order.service';
+import { OrderStatus } from './schemas/order.schema';
+import { PaymentStatus } from './schemas/payment.schema';
+import { FakePaymentGateway } from './payment-gateway/fake-payment.gateway';
+
+type FakeOrder = {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  orderGroupId: string;
+  currency: string;
+  pricing: Record<string, number | string>;
+  pendingPaymentId?: Types.ObjectId;
+  item: { status: OrderStatus; isPaid: boolean; contractSignatures: Record<string, boolean>; deliveryDate: Date };
+};
+type FakePayment = { _id: Types.ObjectId; status: PaymentStatus; orders: Types.ObjectId[]; [field: string]: unknown };
+// The query shapes processPayment sends, as one loose type
+interface Filter {
+  _id: Types.ObjectId & { $in: Types.ObjectId[] };
+  orderGroupId?: string;
+  orders: Types.ObjectId;
+  status?: PaymentStatus;
+  pendingPaymentId?: Types.ObjectId & { $exists?: boolean };
+  'item.status'?: OrderStatus;
+}
+interface Update {
+  $set?: { pendingPaymentId?: Types.ObjectId; status: PaymentStatus };
+}
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+const includesId = (ids: Types.ObjectId[], id: Types.ObjectId) => ids.some((other) => other.equals(id));
+
+// Just enough of the Order and Payment models for processPayment; every call yields so concurrent requests interleave
+function createModels(orders: FakeOrder[]) {
+  const payments: FakePayment[] = [];
+
+  const orderModel = {
+    findOne: async (filter: Filter) => (await tick(), orders.find((order) => order._id.equals(filter._id))),
+    findById: async (id: Types.ObjectId | string) => (await tick(), orders.find((order) => order._id.equals(id))),
+    find: async (filter: Filter) => {
+      await tick();
+      if (filter.orderGroupId) {
+        return orders.filter((order) => order.orderGroupId === filter.orderGroupId && order.item.status === OrderStatus.APPROVED);
+      }
+      return orders.filter((order) => includesId(filter._id.$in, order._id) && order.item.status === filter['item.status']);
+    },
+    // Applied in one go, like a single updateMany on the server
+    updateMany: async (filter: Filter, update: Update) => {
+      await tick();
+      let matched: FakeOrder[] = [];
+      if (filter.pendingPaymentId?.$exists === false) {
+        matched = orders.filter((order) => includesId(filter._id.$in, order._id) && !order.pendingPaymentId);
+      } else if (filter.pendingPaymentId) {
+        matched = orders.filter((order) => order.pendingPaymentId?.equals(filter.pendingPaymentId));
+      }
+      matched.forEach((order) => {
+        order.pendingPaymentId = update.$set?.pendingPaymentId;
+      });
+      return { modifiedCount: matched.length };
+    },
+  };
+
+  const paymentModel = {
+    findOne: async (filter: Filter) => (
+      await tick(), payments.find((payment) => payment.status === filter.status && includesId(payment.orders, filter.orders))
+    ),
+    findById: async (id: Types.ObjectId) => (await tick(), payments.find((payment) => payment._id.equals(id))),
+    create: async (doc: FakePayment) => {
+      await tick();
+      const payment = { ...doc, save: () => Promise.resolve() };
+      payments.push(payment);
+      return payment;
+    },
+    findOneAndUpdate: async (filter: Filter, update: Update) => {
+      await tick();
+      const payment = payments.find((other) => other._id.equals(filter._id) && other.status === filter.status);
+      if (payment && update.$set) payment.status = update.$set.status;
+      return payment ?? null;
+    },
+  };
+
+  return { orderModel, paymentModel, payments };
+}
+
+function createOrder(orderGroupId: string, userId: Types.ObjectId, total: number): FakeOrder {
+  return {
+    _id: new Types.ObjectId(),
+    userId,
+    orderGroupId,
+    currency: 'USD',
+    pricing: { currency: 'USD', subtotal: total, discount: 0, platformFeeRate: 0, platformFee: 0, taxRate: 0, tax: 0, total },
+    item: {
+      status: OrderStatus.APPROVED,
+      isPaid: false,
+      contractSignatures: { clientSigned: true, influencerSigned: true },
+      deliveryDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+    },
+  };
+}
+
+describe('OrderService.processPayment', () => {
+  const userId = new Types.ObjectId();
+  let gateway: FakePaymentGateway;
+  let stateMachine: { transition: jest.Mock };
+
+  beforeEach(() => {
+    gateway = new FakePaymentGateway();
+    stateMachine = {
+      transition: jest.fn((order: FakeOrder, to: OrderStatus) => {
+        order.item.status = to;
+        order.item.isPaid = to === OrderStatus.PAID;
+        return Promise.resolve(order);
+      }),
+    };
+  });
+
+  const createService = (models: ReturnType<typeof createModels>) =>
+    new OrderService(
+      ...([
+        models.orderModel,
+        models.paymentModel,
+        {},
+        {},
+        {},
+        {},
+        {},
+        {},
+        {},
+        stateMachine,
+        {},
+        {},
+        {},
+        gateway,
+      ] as unknown as ConstructorParameters<typeof OrderService>),
+    );
+
+  it('should charge an order group once when two of its orders are paid at the same time', async () => {
+    const orders = [createOrder('group-1', userId, 5000), createOrder('group-1', userId, 3000)];
+    const models = createModels(orders);
+    const service = createService(models);
+    const createIntent = jest.spyOn(gateway, 'createIntent');
+
+    const results = await Promise.allSettled(orders.map((order) => service.processPayment(String(order._id), String(userId))));
+
+    expect(createIntent).toHaveBeenCalledTimes(1);
+    expect(createIntent).toHaveBeenCalledWith(expect.objectContaining({ amount: 8000 }));
+    expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+    expect(models.payments.filter((payment) => payment.status === PaymentStatus.PAID)).toHaveLength(1);
+    expect(orders.every((order) => order.item.status === OrderStatus.PAID && !order.pendingPaymentId)).toBe(true);
+  });
+
+  it('should settle a group a coupon fully covers without calling the gateway', async () => {
+    const order = createOrder('group-2', userId, 0);
+    const models = createModels([order]);
+    const createIntent = jest.spyOn(gateway, 'createIntent');
+
+    await createService(models).processPayment(String(order._id), String(userId));
+
+    expect(createIntent).not.toHaveBeenCalled();
+    expect(models.payments).toEqual([expect.objectContaining({ amount: 0, status: PaymentStatus.PAID })]);
+    expect(stateMachine.transition).toHaveBeenCalledWith(
+      order,
+      OrderStatus.PAID,
+      expect.objectContaining({ reason: 'Nothing to charge' }),
+    );
+    expect(order.pendingPaymentId).toBeUndefined();
+  });
+});
@@ -1,17 +1,26 @@
 import {
   BadRequestException,
+  ConflictException,
   ForbiddenException,
+  HttpException,
+  Inject,
   Injectable,
   InternalServerErrorException,
+  Logger,
   NotFoundException,
+  ServiceUnavailableException,
+  UnauthorizedException,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import { jsPDF } from 'jspdf';
 import sizeOf from 'image-size';
-import { Order, OrderStatus } from './schemas/order.schema';
+import { Order, OrderRefund, OrderStatus, RefundStatus } from './schemas/order.schema';
 import { CartService } from '../cart/cart.service';
 import { UpdateOrderStatusDto } from './dto/update-order-status.dto';
+import { RefundOrderDto } from './dto/refund-order.dto';
+import { GetOrdersQueryDto, OrderSortField, SortOrder } from './dto/get-orders-query.dto';
 import { UserRole } from '../user/schemas/user.schema';
 import { InfluencerServiceService } from '../influencer-service/influencer-service.service';
 import { AvailabilityService } from '../availability/availability.service';
@@ -22,16 +31,53 @@ import { Contract } from 'src/influencer-service/schemas/contract-schema';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { S3Service } from 'src/common/s3/s3.service';
+import { PaginationResponse } from 'src/@types/pagination-response.interface';
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import {
+  PAYMENT_GATEWAY,
+  PaymentGateway,
+  PaymentIntent,
+  PaymentIntentStatus,
+  PaymentRefund,
+  PaymentWebhookEvent,
+} from './payment-gateway/payment-gateway.interface';
+import { PaymentEvent, PaymentEventStatus } from './schemas/payment-event.schema';
+import { LedgerService } from 'src/ledger/ledger.service';
+import { OrderStateMachine, OrderTransitionContext } from './order-state-machine.service';
+import { OrderEvent, SYSTEM_ACTOR } from './order-state-machine';
+import { PricingService } from 'src/pricing/pricing.service';
+import { sumPrices } from 'src/pricing/pricing.utils';
+import { CouponService } from 'src/coupon/coupon.service';
+import { BookingService } from 'src/booking/booking.service';
+import { User } from 'src/user/schemas/user.schema';
+import { DEFAULT_TIME_ZONE, earliestDeliveryDate } from 'src/availability/time-zone.utils';
+import { startOfUtcDay } from 'src/availability/availability-template.utils';
+
+interface AttachedBooking {
+  bookingId: Types.ObjectId;
+  orderId: Types.ObjectId;
+  expiresAt: Date;
+}
 
 @Injectable()
 export class OrderService {
+  private readonly logger = new Logger(OrderService.name);
+
   constructor(
     @InjectModel(Order.name) private orderModel: Model<Order>,
     @InjectModel(Payment.name) private paymentModel: Model<Payment>,
+    @InjectModel(PaymentEvent.name) private paymentEventModel: Model<PaymentEvent>,
     private readonly cartService: CartService,
     private readonly influencerServiceService: InfluencerServiceService,
     private readonly s3Service: S3Service,
     private readonly availabilityService: AvailabilityService,
+    private readonly configService: ConfigService,
+    private readonly ledgerService: LedgerService,
+    private readonly orderStateMachine: OrderStateMachine,
+    private readonly pricingService: PricingService,
+    private readonly couponService: CouponService,
+    private readonly bookingService: BookingService,
+    @Inject(PAYMENT_GATEWAY) private readonly paymentGateway: PaymentGateway,
   ) {}
 
   async createOrder(userId: string): Promise<Order[]> {
@@ -51,8 +97,21 @@ export class OrderService {
     // Generate a common orderGroupId for this checkout
     const orderGroupId = new Types.ObjectId().toHexString();
 
-    // For each cart item, create a separate order
-    const createdOrders: Order[] = [];
+    // Checked again here: the code may have expired or been used up since it was applied
+    const currency = cart.items[0].currency || this.pricingService.getDefaultCurrency();
+    const coupon = cart.couponCode ? await this.couponService.evaluateCoupon(cart.couponCode, userId, cart.items) : undefined;
+
+    // Same engine as the cart summary, so the client is charged what they were shown
+    const quote = await this.pricingService.quote(
+      userId,
+      cart.items.map((cartItem) => cartItem.price),
+      currency,
+      coupon?.discounts,
+    );
+
+    // Every item is checked before anything is written, so an invalid item leaves no order or booking behind
+    const checkoutItems: { orderId: Types.ObjectId; cartItem: (typeof cart.items)[number]; influencerIds: Types.ObjectId[] }[] =
+      [];
     for (const cartItem of cart.items) {
       // Get latest service data
       const service = await this.influencerServiceService.getInfluencerServiceByServiceId(cartItem.serviceId.toString(), {
@@ -72,29 +131,64 @@ export class OrderService {
         throw new BadRequestException('Location is required for this service');
       }
 
-      // Validate deliveryDate is at least minimumDaysForCompletion from today
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const minDate = new Date(today);
-      minDate.setDate(today.getDate() + (service.minimumDaysForCompletion || 1));
-      if (!cartItem.deliveryDate || cartItem.deliveryDate < minDate) {
+      // Validate deliveryDate is at least minimumDaysForCompletion from the influencers' today
+      const minDate = earliestDeliveryDate(
+        service.minimumDaysForCompletion || 1,
+        (service.users as unknown as User[]).map((user) => user?.timeZone || DEFAULT_TIME_ZONE),
+      );
+      if (!cartItem.deliveryDate || startOfUtcDay(cartItem.deliveryDate) < minDate) {
         throw new BadRequestException(`Delivery date must be at least ${service.minimumDaysForCompletion || 1} days from today.`);
       }
 
-      // Create order for this service
-      const order = await this.orderModel.create({
-        userId: new Types.ObjectId(userId),
-        orderGroupId,
-        item: {
-          serviceId: cartItem.serviceId,
-          influencerIds: service.users.map((user: any) => new Types.ObjectId(user?._id || user)),
-          deliveryDate: cartItem.deliveryDate,
-          location: cartItem.location,
-          price: cartItem.price,
-        },
-        totalAmount: cartItem.price,
+      checkoutItems.push({
+        orderId: new Types.ObjectId(),
+        cartItem,
+        influencerIds: service.users.map((user: any) => new Types.ObjectId(user?._id || user)),
       });
-      createdOrders.push(order);
+    }
+
+    // For each cart item, create a separate order
+    const createdOrders: Order[] = [];
+    const attachedBookings: AttachedBooking[] = [];
+    try {
+      for (const [index, { orderId, cartItem, influencerIds }] of checkoutItems.entries()) {
+        const order = await this.orderModel.create({
+          _id: orderId,
+          userId: new Types.ObjectId(userId),
+          orderGroupId,
+          item: {
+            serviceId: cartItem.serviceId,
+            influencerIds,
+            deliveryDate: cartItem.deliveryDate,
+            location: cartItem.location,
+            bookingId: cartItem.bookingId,
+            startsAt: cartItem.startsAt,
+            endsAt: cartItem.endsAt,
+            price: cartItem.price,
+            statusHistory: [this.orderStateMachine.initialStatusChange(userId)],
+          },
+          totalAmount: quote.lines[index].total,
+          currency,
+          pricing: quote.lines[index],
+          couponCode: coupon?.coupon.code,
+        });
+        createdOrders.push(order);
+      }
+
+      // The holds stop expiring with the cart once the orders take them over
+      for (const { orderId, cartItem } of checkoutItems) {
+        if (!cartItem.bookingId) continue;
+        const expiresAt = await this.bookingService.attachToOrder(cartItem.bookingId, orderId);
+        attachedBookings.push({ bookingId: cartItem.bookingId, orderId, expiresAt });
+      }
+
+      // Redeemed last, so a checkout that fails does not use the coupon up
+      if (coupon) {
+        await this.couponService.redeemCoupon(coupon.coupon, userId, orderGroupId, quote.total.discount, currency);
+      }
+    } catch (error) {
+      await this.rollbackCheckout(createdOrders, attachedBookings);
+      throw error;
     }
 
     // Clear the entire cart after order creation
@@ -103,6 +197,16 @@ export class OrderService {
     return createdOrders;
   }
 
+  // Undoes a failed checkout, the cart is left as it was so the client can retry
+  private async rollbackCheckout(orders: Order[], attachedBookings: AttachedBooking[]) {
+    for (const { bookingId, orderId, expiresAt } of attachedBookings) {
+      await this.bookingService.detachFromOrder(bookingId, orderId, expiresAt);
+    }
+    if (orders.length) {
+      await this.orderModel.deleteMany({ _id: { $in: orders.map((order) => order._id) } });
+    }
+  }
+
   // Add this function to map DB status to user-facing status
   private mapOrderStatusForUser(order: Order, userId: string, userRole: UserRole): string {
     const status = order.item.status;
@@ -162,15 +266,72 @@ export class OrderService {
     return { ...order.toObject(), orderStatus };
   }
 
-  async getUserOrders(userId: string): Promise<any[]> {
+  async getOrderHistory(orderId: string, userId: string, userRole: UserRole) {
+    const order = await this.orderModel.findById(orderId).select('userId item.status item.influencerIds item.statusHistory');
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+    if (userRole === UserRole.USER && order.userId.toString() !== userId) {
+      throw new ForbiddenException('You can only view your own orders');
+    }
+    if (userRole === UserRole.INFLUENCER && !order.item.influencerIds.some((id) => id.toString() === userId)) {
+      throw new ForbiddenException('You are not assigned to this order');
+    }
+
+    return { orderId: order._id, status: order.item.status, history: order.item.statusHistory || [] };
+  }
+
+  /**
+   * Lists orders visible to the caller: clients see their own orders, influencers the orders
+   * they are assigned to and admins every order.
+   */
+  async getOrders(
+    userId: string,
+    userRole: UserRole,
+    query: GetOrdersQueryDto,
+  ): Promise<PaginationResponse<Record<string, unknown>>> {
+    const page = Math.max(1, Number(query.page || 1));
+    const limit = Math.max(1, Number(query.limit || 10));
+
+    const filter: Record<string, unknown> = {};
+    if (userRole === UserRole.USER) filter.userId = new Types.ObjectId(userId);
+    if (userRole === UserRole.INFLUENCER) filter['item.influencerIds'] = new Types.ObjectId(userId);
+    if (query.status) filter['item.status'] = query.status;
+    if (query.serviceId) filter['item.serviceId'] = new Types.ObjectId(query.serviceId);
+    if (query.orderGroupId) filter.orderGroupId = query.orderGroupId;
+    if (query.deliveryDateFrom || query.deliveryDateTo) {
+      const deliveryDate: Record<string, Date> = {};
+      if (query.deliveryDateFrom) deliveryDate.$gte = new Date(query.deliveryDateFrom);
+      if (query.deliveryDateTo) {
+        const to = new Date(query.deliveryDateTo);
+        // A plain date includes the whole day
+        if (/^\d{4}-\d{2}-\d{2}$/.test(query.deliveryDateTo)) to.setUTCHours(23, 59, 59, 999);
+        deliveryDate.$lte = to;
+      }
+      filter['item.deliveryDate'] = deliveryDate;
+    }
+
+    const sortField = {
+      [OrderSortField.CREATED_AT]: 'createdAt',
+      [OrderSortField.DELIVERY_DATE]: 'item.deliveryDate',
+      [OrderSortField.TOTAL_AMOUNT]: 'totalAmount',
+    }[query.sortBy || OrderSortField.CREATED_AT];
+    const direction = query.sortOrder === SortOrder.ASC ? 1 : -1;
+
     const orders = await this.orderModel
-      .find({ userId: new Types.ObjectId(userId) })
+      .find(filter)
+      .sort({ [sortField]: direction, _id: direction })
+      .skip((page - 1) * limit)
+      .limit(limit)
       .populate({ path: 'item.serviceId', populate: { path: 'contract' } });
-    return orders.map((order) => {
-      const userRole = order.userId.toString() === userId ? UserRole.USER : UserRole.INFLUENCER;
-      const orderStatus = this.mapOrderStatusForUser(order, userId, userRole);
-      return { ...order.toObject(), orderStatus };
-    });
+    const totalDocs = await this.orderModel.countDocuments(filter);
+
+    return {
+      totalDocs,
+      page,
+      limit,
+      docs: orders.map((order) => ({ ...order.toObject(), orderStatus: this.mapOrderStatusForUser(order, userId, userRole) })),
+    };
   }
 
   async updateOrderStatus(
@@ -198,29 +359,19 @@ export class OrderService {
         throw new ForbiddenException('You can only update your own orders');
       }
     }
-    // Validate status transition
-    this.validateStatusTransition(item.status, updateOrderStatusDto.status, userRole);
-    // Validate rejection reason
-    if (updateOrderStatusDto.status === OrderStatus.REJECTED && !updateOrderStatusDto.rejectionReason) {
-      throw new BadRequestException('Rejection reason is required when rejecting an order item');
-    }
-    // Update item status
-    if (updateOrderStatusDto.status === OrderStatus.REJECTED) {
-      item.status = updateOrderStatusDto.status;
-      item.rejectedBy = new Types.ObjectId(userId);
-      item.rejectionReason = updateOrderStatusDto.rejectionReason;
-    } else if (updateOrderStatusDto.status === OrderStatus.APPROVED) {
-      item.status = updateOrderStatusDto.status;
-      item.approvedBy = new Types.ObjectId(userId);
-    } else {
-      item.status = updateOrderStatusDto.status;
-    }
-    await order.save();
-    return order;
+    return this.orderStateMachine.transition(order, updateOrderStatusDto.status, {
+      actor: userRole,
+      userId,
+      reason: updateOrderStatusDto.rejectionReason || updateOrderStatusDto.reason,
+      manual: true,
+    });
   }
 
-  async processPayment(orderId: string, userId: string): Promise<Order | null> {
-    const order = await this.getOrder(userId, orderId);
+  async processPayment(orderId: string, userId: string, paymentMethodId?: string): Promise<Order | null> {
+    const order = await this.orderModel.findOne({ _id: new Types.ObjectId(orderId), userId: new Types.ObjectId(userId) });
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
     const item = order.item;
     if (!item) {
       throw new BadRequestException('Order item not found');
@@ -229,36 +380,390 @@ export class OrderService {
     if (!item.contractSignatures?.clientSigned || !item.contractSignatures?.influencerSigned) {
       throw new BadRequestException('Both client and influencer must sign the contract before payment.');
     }
+    if (item.status !== OrderStatus.APPROVED || item.isPaid) {
+      throw new BadRequestException(`Order cannot be paid in status ${item.status}`);
+    }
     if (!item.deliveryDate || item.deliveryDate < new Date()) {
       throw new BadRequestException('Delivery date is invalid or in the past.');
     }
-    // Find all orders in the same group
-    const ordersInGroup = await this.orderModel.find({ orderGroupId: order.orderGroupId });
-    const totalAmount = ordersInGroup.reduce((sum, o) => sum + (o.item?.price || 0), 0);
-    // Create payment document
+
+    // A payment still waiting on the gateway must settle (or fail) before a new attempt
+    const pendingPayment = await this.paymentModel.findOne({ orders: order._id, status: PaymentStatus.PENDING });
+    if (pendingPayment?.paymentGatewayId) {
+      const intent = await this.paymentGateway.getStatus(pendingPayment.paymentGatewayId);
+      const synced = await this.applyPaymentIntent(pendingPayment, intent);
+      if (synced.status !== PaymentStatus.FAILED) {
+        throw new BadRequestException('A payment for this order is already in progress');
+      }
+    }
+
+    // Charge every approved, unpaid order of the same checkout together
+    const ordersInGroup = await this.orderModel.find({
+      orderGroupId: order.orderGroupId,
+      'item.status': OrderStatus.APPROVED,
+      'item.isPaid': { $ne: true },
+    });
+    const currency = order.currency;
+    const pricing = sumPrices(
+      ordersInGroup.map((o) => o.pricing),
+      currency,
+    );
+    const totalAmount = pricing.total;
+
+    // Claims every order of the group for this payment, or none, so concurrent requests cannot charge the group twice
+    const paymentId = new Types.ObjectId();
+    const orderIds = ordersInGroup.map((o) => o._id as Types.ObjectId);
+    const claim = await this.orderModel.updateMany(
+      { _id: { $in: orderIds }, pendingPaymentId: { $exists: false } },
+      { $set: { pendingPaymentId: paymentId } },
+    );
+    if (claim.modifiedCount !== orderIds.length) {
+      await this.releasePaymentClaim(paymentId);
+      throw new BadRequestException('A payment for this order is already in progress');
+    }
+
+    // Payment stays PENDING until the gateway confirms the charge
     const payment = await this.paymentModel.create({
+      _id: paymentId,
       orderGroupId: order.orderGroupId,
       userId: order.userId,
       amount: totalAmount,
-      orderStatus: PaymentStatus.PAID,
+      currency,
+      pricing,
+      status: PaymentStatus.PENDING,
       orders: ordersInGroup.map((o) => o._id),
-      paymentGatewayId: 'MOCK_PAYMENT_' + Date.now(),
     });
-    // Link payment to all orders in the group
-    await this.orderModel.updateMany(
-      { orderGroupId: order.orderGroupId },
+
+    // Fully covered by a coupon: there is nothing to charge, and gateways refuse zero amounts
+    if (totalAmount === 0) {
+      const settled = await this.paymentModel.findOneAndUpdate(
+        { _id: payment._id, status: PaymentStatus.PENDING },
+        { $set: { status: PaymentStatus.PAID, 'meta.noCharge': true } },
+        { new: true },
+      );
+      if (settled) await this.applyPaymentStatus(settled, 'Nothing to charge');
+      return this.orderModel.findById(orderId);
+    }
+
+    let intent: PaymentIntent;
+    try {
+      intent = await this.paymentGateway.createIntent({
+        amount: totalAmount,
+        currency,
+        metadata: { paymentId: String(payment._id), orderGroupId: order.orderGroupId },
+      });
+      payment.paymentGatewayId = intent.id;
+      await payment.save();
+      intent = await this.paymentGateway.confirm(intent.id, { paymentMethodId });
+    } catch (error) {
+      payment.status = PaymentStatus.FAILED;
+      payment.meta = { ...payment.meta, failureReason: error.message };
+      await payment.save();
+      await this.releasePaymentClaim(paymentId);
+      throw new BadRequestException(`Payment failed: ${error.message}`);
+    }
+
+    const settled = await this.applyPaymentIntent(payment, intent);
+    if (settled.status === PaymentStatus.FAILED) {
+      throw new BadRequestException(`Payment failed: ${intent.failureReason || 'declined by payment gateway'}`);
+    }
+
+    // Return the updated order
+    return this.orderModel.findById(orderId);
+  }
+
+  /**
+   * Moves a payment to the state reported by the gateway and marks its orders as paid once the charge succeeds.
+   * Only PENDING payments transition, so replayed or late gateway updates are no-ops.
+   */
+  private async applyPaymentIntent(payment: Payment, intent: PaymentIntent, eventAt?: Date): Promise<Payment> {
+    let status = this.toPaymentStatus(intent.status);
+    let failureReason = intent.failureReason;
+
+    // Orders are only paid for when the charge is exactly what the payment asked for; anything else is left for an admin
+    const mismatch = status === PaymentStatus.PAID ? this.paymentIntentMismatch(payment, intent) : undefined;
+    if (mismatch) {
+      this.logger.error(`Payment ${String(payment._id)} not marked paid: ${mismatch}`);
+      status = PaymentStatus.FAILED;
+      failureReason = mismatch;
+    }
+
+    const updated = await this.paymentModel.findOneAndUpdate(
+      { _id: payment._id, status: PaymentStatus.PENDING },
       {
         $set: {
-          paymentId: payment._id,
-          paymentDate: new Date(),
-          totalAmount: totalAmount,
-          'item.isPaid': true,
-          'item.status': OrderStatus.PAID,
+          status,
+          'meta.intentStatus': intent.status,
+          'meta.failureReason': failureReason,
+          ...(mismatch && { 'meta.needsReview': true }),
+          ...(eventAt && { 'meta.lastEventAt': eventAt }),
         },
       },
+      { new: true },
     );
-    // Return the updated order
-    return this.orderModel.findById(orderId);
+    if (!updated) {
+      return (await this.paymentModel.findById(payment._id)) || payment;
+    }
+
+    return this.applyPaymentStatus(updated, 'Payment confirmed by gateway');
+  }
+
+  // Moves the orders of a payment along with its new status
+  private async applyPaymentStatus(payment: Payment, reason: string): Promise<Payment> {
+    if (payment.status === PaymentStatus.PAID) {
+      const paidOrders = await this.orderModel.find({ _id: { $in: payment.orders }, 'item.status': OrderStatus.APPROVED });
+      for (const paidOrder of paidOrders) {
+        await this.orderStateMachine.transition(paidOrder, OrderStatus.PAID, { actor: SYSTEM_ACTOR, reason, payment });
+      }
+    } else if (payment.status === PaymentStatus.PENDING) {
+      await this.orderModel.updateMany({ _id: { $in: payment.orders } }, { $set: { paymentId: payment._id } });
+    }
+    if (payment.status !== PaymentStatus.PENDING) {
+      await this.releasePaymentClaim(payment._id as Types.ObjectId);
+    }
+    return payment;
+  }
+
+  // Lets the orders of a settled or abandoned payment be charged again
+  private async releasePaymentClaim(paymentId: Types.ObjectId) {
+    await this.orderModel.updateMany({ pendingPaymentId: paymentId }, { $unset: { pendingPaymentId: 1 } });
+  }
+
+  /**
+   * Verifies and applies a gateway webhook delivery. Every event is recorded once by its id,
+   * so retries from the gateway are acknowledged without touching payments or orders again.
+   */
+  async handlePaymentWebhook(rawBody: Buffer | undefined, signature: string | undefined) {
+    this.verifyWebhookSignature(rawBody, signature);
+
+    let event: PaymentWebhookEvent;
+    try {
+      event = JSON.parse(rawBody!.toString('utf8'));
+    } catch {
+      throw new BadRequestException('Invalid webhook payload');
+    }
+    const intent = event?.data?.intent;
+    if (!event?.id || !event.type || !intent?.id) {
+      throw new BadRequestException('Invalid webhook payload');
+    }
+    const occurredAt = event.created ? new Date(event.created * 1000) : new Date();
+
+    let paymentEvent = await this.paymentEventModel.findOne({ eventId: event.id });
+    if (paymentEvent && paymentEvent.status !== PaymentEventStatus.RECEIVED) {
+      return { received: true, duplicate: true };
+    }
+    if (!paymentEvent) {
+      try {
+        paymentEvent = await this.paymentEventModel.create({
+          eventId: event.id,
+          type: event.type,
+          paymentIntentId: intent.id,
+          occurredAt,
+          payload: event,
+        });
+      } catch (error) {
+        // Another delivery of the same event won the race
+        if (error?.code === 11000) return { received: true, duplicate: true };
+        throw error;
+      }
+    }
+
+    const payment = await this.paymentModel.findOne({ paymentGatewayId: intent.id });
+    let ignoredReason: string | undefined;
+    if (!payment) {
+      ignoredReason = 'No payment found for payment intent';
+    } else if (payment.meta?.lastEventAt && new Date(payment.meta.lastEventAt) > occurredAt) {
+      ignoredReason = 'Event is older than the last applied event';
+    } else if (payment.status !== PaymentStatus.PENDING) {
+      ignoredReason = `Payment already ${payment.status}`;
+    } else {
+      await this.applyPaymentIntent(payment, intent, occurredAt);
+    }
+
+    paymentEvent.paymentId = payment?._id as Types.ObjectId | undefined;
+    paymentEvent.status = ignoredReason ? PaymentEventStatus.IGNORED : PaymentEventStatus.PROCESSED;
+    paymentEvent.ignoredReason = ignoredReason;
+    paymentEvent.processedAt = new Date();
+    await paymentEvent.save();
+
+    return { received: true, duplicate: false };
+  }
+
+  private verifyWebhookSignature(rawBody: Buffer | undefined, signature: string | undefined) {
+    const secret = this.configService.get<string>('PAYMENT_WEBHOOK_SECRET');
+    if (!secret) {
+      throw new InternalServerErrorException('Payment webhook secret is not configured');
+    }
+    if (!rawBody || !signature) {
+      throw new UnauthorizedException('Missing webhook signature');
+    }
+
+    const expected = createHmac('sha256', secret).update(rawBody).digest();
+    const received = Buffer.from(signature.replace(/^sha256=/, ''), 'hex');
+    if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+      throw new UnauthorizedException('Invalid webhook signature');
+    }
+  }
+
+  private paymentIntentMismatch(payment: Payment, intent: PaymentIntent): string | undefined {
+    if (intent.amount !== payment.amount || intent.currency?.toUpperCase() !== payment.currency) {
+      return `Gateway charged ${intent.amount} ${intent.currency} instead of ${payment.amount} ${payment.currency}`;
+    }
+    return undefined;
+  }
+
+  private toPaymentStatus(intentStatus: PaymentIntentStatus): PaymentStatus {
+    switch (intentStatus) {
+      case PaymentIntentStatus.SUCCEEDED:
+        return PaymentStatus.PAID;
+      case PaymentIntentStatus.FAILED:
+      case PaymentIntentStatus.CANCELLED:
+        return PaymentStatus.FAILED;
+      default:
+        return PaymentStatus.PENDING;
+    }
+  }
+
+  /**
+   * Refunds a paid order against its group payment and cancels it.
+   * Admins may refund any paid order (fully or by line items); clients may only fully refund
+   * their own orders that have not started, within REFUND_WINDOW_HOURS of payment.
+   * The refund is recorded as pending before the gateway is called; a refund left pending is
+   * completed by the next refund request of the order instead of starting another one.
+   */
+  async refundOrder(orderId: string, userId: string, userRole: UserRole, refundOrderDto: RefundOrderDto): Promise<Order> {
+    const order = await this.orderModel.findById(orderId);
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+    const item = order.item;
+    if (!item?.isPaid || !order.paymentId) {
+      throw new BadRequestException('Only paid orders can be refunded');
+    }
+
+    const transitionContext = { actor: userRole, userId, reason: refundOrderDto.reason, event: OrderEvent.REFUND };
+    const pendingRefund = order.refunds.find((refund) => refund.status === RefundStatus.PENDING);
+    if (pendingRefund) {
+      if (userRole !== UserRole.ADMIN && order.userId.toString() !== userId) {
+        throw new ForbiddenException('You can only refund your own orders');
+      }
+      return this.completeRefund(order, pendingRefund, transitionContext);
+    }
+
+    if (order.hasOpenDispute) {
+      throw new BadRequestException('This order is disputed, refunds are issued when the dispute is resolved');
+    }
+
+    // Clients can only refund orders where work has not started (see ORDER_TRANSITIONS)
+    await this.orderStateMachine.assertCanTransition(order, OrderStatus.CANCELLED, transitionContext);
+
+    if (userRole !== UserRole.ADMIN) {
+      if (order.userId.toString() !== userId) {
+        throw new ForbiddenException('You can only refund your own orders');
+      }
+      if (refundOrderDto.lineItems?.length) {
+        throw new ForbiddenException('Only admins can issue partial refunds');
+      }
+      const windowHours = Number(this.configService.get('REFUND_WINDOW_HOURS') ?? 24);
+      const windowEnd = new Date((order.paymentDate || order.get('createdAt')).getTime() + windowHours * 60 * 60 * 1000);
+      if (windowEnd < new Date()) {
+        throw new ForbiddenException('The refund window for this order has expired');
+      }
+    }
+
+    const payment = await this.paymentModel.findById(order.paymentId);
+    if (!payment?.paymentGatewayId || payment.status !== PaymentStatus.PAID) {
+      throw new BadRequestException('No captured payment found for this order');
+    }
+
+    const lineItems = refundOrderDto.lineItems?.length
+      ? refundOrderDto.lineItems
+      : [{ amount: order.totalAmount, reason: refundOrderDto.reason }];
+    const amount = lineItems.reduce((sum, line) => sum + line.amount, 0);
+    if (amount <= 0 || amount > order.totalAmount || amount > payment.amount) {
+      throw new BadRequestException('Refund amount exceeds the amount captured for this order');
+    }
+
+    // Conditional on the amount still being owed and no other refund in flight, so concurrent requests cannot both refund
+    const recorded = await this.orderModel.findOneAndUpdate(
+      { _id: order._id, totalAmount: { $gte: amount }, 'refunds.status': { $ne: RefundStatus.PENDING } },
+      {
+        $push: {
+          refunds: {
+            paymentId: payment._id as Types.ObjectId,
+            status: RefundStatus.PENDING,
+            idempotencyKey: randomUUID(),
+            amount,
+            lineItems,
+            refundedBy: new Types.ObjectId(userId),
+            refundedByRole: userRole,
+            previousStatus: item.status,
+          } as OrderRefund,
+        },
+      },
+      { new: true },
+    );
+    if (!recorded) {
+      throw new ConflictException('Another refund of this order is in progress, please retry');
+    }
+
+    return this.completeRefund(recorded, recorded.refunds[recorded.refunds.length - 1], transitionContext);
+  }
+
+  // Every step can be repeated without effect, so a refund interrupted half way can be completed later
+  private async completeRefund(order: Order, refund: OrderRefund, transitionContext: OrderTransitionContext): Promise<Order> {
+    const payment = await this.paymentModel.findById(refund.paymentId);
+    if (!payment?.paymentGatewayId) {
+      throw new BadRequestException('No captured payment found for this order');
+    }
+    const idempotencyKey = refund.idempotencyKey!;
+
+    let gatewayRefund: PaymentRefund;
+    try {
+      gatewayRefund = await this.paymentGateway.refund(payment.paymentGatewayId, {
+        amount: refund.amount,
+        reason: transitionContext.reason,
+        idempotencyKey,
+      });
+    } catch (error) {
+      // Rejected by the gateway, so nothing was refunded and the refund may be requested again
+      if (error instanceof HttpException && error.getStatus() < 500) {
+        await this.orderModel.updateOne(
+          { _id: order._id },
+          { $pull: { refunds: { idempotencyKey, status: RefundStatus.PENDING } } },
+        );
+        throw new BadRequestException(`Refund failed: ${error.message}`);
+      }
+      // It may have gone through; it stays pending until a retry with the same idempotency key settles it
+      throw new ServiceUnavailableException('The refund could not be confirmed, request it again to complete it');
+    }
+
+    await this.ledgerService.recordRefund(order, refund.amount, `refund:${idempotencyKey}`);
+
+    // Payment and order totals track the net captured money
+    await this.paymentModel.updateOne(
+      { _id: payment._id, refundKeys: { $ne: idempotencyKey } },
+      { $inc: { amount: -refund.amount, refundedAmount: refund.amount }, $push: { refundKeys: idempotencyKey } },
+    );
+    await this.paymentModel.updateOne(
+      { _id: payment._id, amount: { $lte: 0 }, status: PaymentStatus.PAID },
+      { status: PaymentStatus.REFUNDED },
+    );
+
+    if (order.item.status !== OrderStatus.CANCELLED) {
+      order = await this.orderStateMachine.transition(order, OrderStatus.CANCELLED, transitionContext);
+    }
+
+    const completed = await this.orderModel.findOneAndUpdate(
+      { _id: order._id, refunds: { $elemMatch: { idempotencyKey, status: RefundStatus.PENDING } } },
+      {
+        $set: { 'refunds.$.status': RefundStatus.SUCCEEDED, 'refunds.$.gatewayRefundId': gatewayRefund.id },
+        $inc: { totalAmount: -refund.amount },
+      },
+      { new: true },
+    );
+    // Null when a concurrent request completed it first
+    return completed ?? ((await this.orderModel.findById(order._id)) as Order);
   }
 
   addImageToDoc = async (doc: jsPDF, { boxX, boxY, boxWidth, boxHeight, imageUrl }) => {
@@ -291,6 +796,9 @@ export class OrderService {
     if (!item) throw new NotFoundException('Order item not found');
 
     if (!signatureImage) throw new BadRequestException('Signature is required');
+    if (item.status !== OrderStatus.PENDING) {
+      throw new BadRequestException('The contract can only be signed while the order is pending');
+    }
 
     // Permission check
     if (role === UserRole.USER && order.userId.toString() !== userId) {
@@ -316,7 +824,6 @@ export class OrderService {
     }
     if (item.contractSignatures.clientSigned && item.contractSignatures.influencerSigned) {
       item.contractSignatures.signedAt = new Date();
-      item.status = OrderStatus.APPROVED;
 
       // TODO: GENERATE SAND SAVE PDF OF SING
       const service = await this.influencerServiceService.getInfluencerServiceByServiceId(order.item.serviceId + '');
@@ -386,11 +893,23 @@ export class OrderService {
     }
 
     await order.save();
+
+    // Second signature approves the order
+    let signedOrder: Order = order;
+    if (item.contractSignatures.clientSigned && item.contractSignatures.influencerSigned) {
+      signedOrder = await this.orderStateMachine.transition(order, OrderStatus.APPROVED, {
+        actor: role,
+        userId,
+        reason: 'Contract signed by both parties',
+        event: OrderEvent.SIGN_CONTRACT,
+      });
+    }
+
     return {
       clientSigned: item.contractSignatures.clientSigned || false,
       influencerSigned: item.contractSignatures.influencerSigned || false,
       signedAt: item.contractSignatures.signedAt,
-      orderStatus: this.mapOrderStatusForUser(order, userId, role),
+      orderStatus: this.mapOrderStatusForUser(signedOrder, userId, role),
       pdfUrl: item.contractSignatures.contractPdfUrl,
     };
   }
@@ -435,10 +954,17 @@ export class OrderService {
       let halfDuration = deliveryDate && createdAt ? Math.floor((deliveryDate.getTime() - createdAt.getTime()) / 2) : 0;
       let deadline = new Date(createdAt.getTime() + Math.min(minWindow, halfDuration));
       if (now > deadline) {
-        item.status = OrderStatus.CANCELLED;
-        item.rejectionReason = 'Order auto-cancelled due to timeout (not signed in time)';
-        await order.save();
-        cancelledCount++;
+        try {
+          await this.orderStateMachine.transition(order, OrderStatus.CANCELLED, {
+            actor: SYSTEM_ACTOR,
+            event: OrderEvent.EXPIRE,
+            reason: 'Order auto-cancelled due to timeout (not signed in time)',
+          });
+          cancelledCount++;
+        } catch (error) {
+          // Signed or changed while the job was running
+          console.log(`[OrderService] Skipped auto-cancel of order ${order._id}: ${error.message}`);
+        }
       }
     }
     return cancelledCount;
@@ -470,31 +996,4 @@ export class OrderService {
       return { ...order.toObject(), orderStatus };
     });
   }
-
-  private validateStatusTransition(currentStatus: OrderStatus, newStatus: OrderStatus, userRole: UserRole): void {
-    const validTransitions: Record<OrderStatus, OrderStatus[]> = {
-      [OrderStatus.PENDING]: [OrderStatus.PAID, OrderStatus.REJECTED],
-      [OrderStatus.APPROVED]: [],
-      [OrderStatus.PAID]: [OrderStatus.IN_PROGRESS],
-      [OrderStatus.IN_PROGRESS]: [OrderStatus.COMPLETED],
-      [OrderStatus.REJECTED]: [],
-      [OrderStatus.COMPLETED]: [],
-      [OrderStatus.CANCELLED]: [],
-    };
-
-    if (!validTransitions[currentStatus].includes(newStatus)) {
-      throw new BadRequestException(`Invalid status transition from ${currentStatus} to ${newStatus}`);
-    }
-
-    // Validate user role permissions
-    if (userRole === UserRole.USER) {
-      if (newStatus !== OrderStatus.PAID) {
-        throw new BadRequestException('Users can only update order status to PAID');
-      }
-    } else if (userRole === UserRole.INFLUENCER) {
-      if (![OrderStatus.REJECTED, OrderStatus.IN_PROGRESS, OrderStatus.COMPLETED].includes(newStatus)) {
-        throw new BadRequestException('Influencers can only reject or update progress of orders');
-      }
-    }
-  }
 }
@@ -0,0 +1,72 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { FAKE_PAYMENT_METHOD_ASYNC, FAKE_PAYMENT_METHOD_DECLINED, FakePaymentGateway } from './fake-payment.gateway';
+import { PaymentIntentStatus } from './payment-gateway.interface';
+
+describe('FakePaymentGateway', () => {
+  let gateway: FakePaymentGateway;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [FakePaymentGateway],
+    }).compile();
+
+    gateway = module.get<FakePaymentGateway>(FakePaymentGateway);
+  });
+
+  it('should succeed a confirmed intent', async () => {
+    const intent = await gateway.createIntent({ amount: 500, currency: 'USD' });
+    expect(intent.status).toBe(PaymentIntentStatus.REQUIRES_CONFIRMATION);
+
+    const confirmed = await gateway.confirm(intent.id);
+    expect(confirmed.status).toBe(PaymentIntentStatus.SUCCEEDED);
+    expect((await gateway.getStatus(intent.id)).status).toBe(PaymentIntentStatus.SUCCEEDED);
+  });
+
+  it('should fail an intent confirmed with a declined payment method', async () => {
+    const intent = await gateway.createIntent({ amount: 500, currency: 'USD' });
+    const confirmed = await gateway.confirm(intent.id, { paymentMethodId: FAKE_PAYMENT_METHOD_DECLINED });
+
+    expect(confirmed.status).toBe(PaymentIntentStatus.FAILED);
+    expect(confirmed.failureReason).toBeDefined();
+  });
+
+  it('should keep async payments processing until settled', async () => {
+    const intent = await gateway.createIntent({ amount: 500, currency: 'USD' });
+    const confirmed = await gateway.confirm(intent.id, { paymentMethodId: FAKE_PAYMENT_METHOD_ASYNC });
+    expect(confirmed.status).toBe(PaymentIntentStatus.PROCESSING);
+
+    const settled = await gateway.settle(intent.id, true);
+    expect(settled.status).toBe(PaymentIntentStatus.SUCCEEDED);
+  });
+
+  it('should hold manual capture intents until captured', async () => {
+    const intent = await gateway.createIntent({ amount: 500, currency: 'USD', captureMethod: 'manual' });
+    expect((await gateway.confirm(intent.id)).status).toBe(PaymentIntentStatus.REQUIRES_CAPTURE);
+
+    const captured = await gateway.capture(intent.id, 400);
+    expect(captured.status).toBe(PaymentIntentStatus.SUCCEEDED);
+    expect(captured.amount).toBe(400);
+  });
+
+  it('should not refund more than was captured', async () => {
+    const intent = await gateway.createIntent({ amount: 500, currency: 'USD' });
+    await gateway.confirm(intent.id);
+
+    const refund = await gateway.refund(intent.id, { amount: 200 });
+    expect(refund.amount).toBe(200);
+    await expect(gateway.refund(intent.id, { amount: 400 })).rejects.toThrow();
+
+    const rest = await gateway.refund(intent.id);
+    expect(rest.amount).toBe(300);
+  });
+
+  it('should refund once per idempotency key', async () => {
+    const intent = await gateway.createIntent({ amount: 500, currency: 'USD' });
+    await gateway.confirm(intent.id);
+
+    const refund = await gateway.refund(intent.id, { amount: 200, idempotencyKey: 'refund-1' });
+    const repeated = await gateway.refund(intent.id, { amount: 200, idempotencyKey: 'refund-1' });
+    expect(repeated.id).toBe(refund.id);
+    expect((await gateway.getStatus(intent.id)).amountRefunded).toBe(200);
+  });
+});
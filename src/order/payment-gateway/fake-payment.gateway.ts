@@ -0,0 +1,119 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import {
+  CreatePaymentIntentParams,
+  PaymentGateway,
+  PaymentIntent,
+  PaymentIntentStatus,
+  PaymentRefund,
+} from './payment-gateway.interface';
+
+// Magic payment method ids understood by the fake gateway
+export const FAKE_PAYMENT_METHOD_DECLINED = 'pm_fake_declined';
+export const FAKE_PAYMENT_METHOD_ASYNC = 'pm_fake_async';
+
+/**
+ * In-memory payment gateway used for local development and tests.
+ * Every confirmation succeeds unless one of the magic payment methods above is used.
+ */
+@Injectable()
+export class FakePaymentGateway implements PaymentGateway {
+  private readonly intents = new Map<string, PaymentIntent>();
+  private readonly captureMethods = new Map<string, 'automatic' | 'manual'>();
+  private readonly refundsByKey = new Map<string, PaymentRefund>();
+
+  async createIntent(params: CreatePaymentIntentParams): Promise<PaymentIntent> {
+    if (!(params.amount > 0)) throw new BadRequestException('Payment amount must be greater than zero');
+
+    const intent: PaymentIntent = {
+      id: `fake_pi_${randomUUID()}`,
+      amount: params.amount,
+      currency: params.currency,
+      status: PaymentIntentStatus.REQUIRES_CONFIRMATION,
+      amountRefunded: 0,
+      metadata: params.metadata,
+    };
+    this.intents.set(intent.id, intent);
+    this.captureMethods.set(intent.id, params.captureMethod || 'automatic');
+    return await this.snapshot(intent);
+  }
+
+  async confirm(intentId: string, params?: { paymentMethodId?: string }): Promise<PaymentIntent> {
+    const intent = this.findIntent(intentId);
+    if (intent.status !== PaymentIntentStatus.REQUIRES_CONFIRMATION) {
+      throw new BadRequestException(`Payment intent cannot be confirmed in status ${intent.status}`);
+    }
+
+    if (params?.paymentMethodId === FAKE_PAYMENT_METHOD_DECLINED) {
+      intent.status = PaymentIntentStatus.FAILED;
+      intent.failureReason = 'Card declined';
+    } else if (params?.paymentMethodId === FAKE_PAYMENT_METHOD_ASYNC) {
+      intent.status = PaymentIntentStatus.PROCESSING;
+    } else {
+      const manualCapture = this.captureMethods.get(intent.id) === 'manual';
+      intent.status = manualCapture ? PaymentIntentStatus.REQUIRES_CAPTURE : PaymentIntentStatus.SUCCEEDED;
+    }
+    return await this.snapshot(intent);
+  }
+
+  async capture(intentId: string, amount?: number): Promise<PaymentIntent> {
+    const intent = this.findIntent(intentId);
+    if (intent.status !== PaymentIntentStatus.REQUIRES_CAPTURE) {
+      throw new BadRequestException(`Payment intent cannot be captured in status ${intent.status}`);
+    }
+    if (amount !== undefined && (amount <= 0 || amount > intent.amount)) {
+      throw new BadRequestException('Capture amount exceeds the authorised amount');
+    }
+
+    intent.amount = amount ?? intent.amount;
+    intent.status = PaymentIntentStatus.SUCCEEDED;
+    return await this.snapshot(intent);
+  }
+
+  async refund(intentId: string, params?: { amount?: number; reason?: string; idempotencyKey?: string }): Promise<PaymentRefund> {
+    const intent = this.findIntent(intentId);
+    const repeated = params?.idempotencyKey && this.refundsByKey.get(params.idempotencyKey);
+    if (repeated) return { ...repeated };
+    if (intent.status !== PaymentIntentStatus.SUCCEEDED) {
+      throw new BadRequestException(`Payment intent cannot be refunded in status ${intent.status}`);
+    }
+
+    const refundable = intent.amount - intent.amountRefunded;
+    const amount = params?.amount ?? refundable;
+    if (amount <= 0 || amount > refundable) throw new BadRequestException('Refund amount exceeds the refundable amount');
+
+    intent.amountRefunded += amount;
+    const refund: PaymentRefund = { id: `fake_re_${randomUUID()}`, paymentIntentId: intent.id, amount, reason: params?.reason };
+    if (params?.idempotencyKey) this.refundsByKey.set(params.idempotencyKey, refund);
+    return await Promise.resolve({ ...refund });
+  }
+
+  async getStatus(intentId: string): Promise<PaymentIntent> {
+    return await this.snapshot(this.findIntent(intentId));
+  }
+
+  /**
+   * Resolves an intent left in PROCESSING, mimicking the provider settling an asynchronous payment.
+   */
+  async settle(intentId: string, succeeded: boolean): Promise<PaymentIntent> {
+    const intent = this.findIntent(intentId);
+    if (intent.status !== PaymentIntentStatus.PROCESSING) {
+      throw new BadRequestException(`Payment intent cannot be settled in status ${intent.status}`);
+    }
+
+    intent.status = succeeded ? PaymentIntentStatus.SUCCEEDED : PaymentIntentStatus.FAILED;
+    if (!succeeded) intent.failureReason = 'Payment failed during processing';
+    return await this.snapshot(intent);
+  }
+
+  private findIntent(intentId: string) {
+    const intent = this.intents.get(intentId);
+    if (!intent) throw new NotFoundException('Payment intent not found');
+    return intent;
+  }
+
+  // Callers get a copy so they cannot mutate the stored intent
+  private snapshot(intent: PaymentIntent): Promise<PaymentIntent> {
+    return Promise.resolve({ ...intent });
+  }
+}
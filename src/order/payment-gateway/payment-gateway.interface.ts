@@ -0,0 +1,59 @@
+// Injection token for the active payment gateway implementation
+export const PAYMENT_GATEWAY = 'PAYMENT_GATEWAY';
+
+export enum PaymentIntentStatus {
+  REQUIRES_CONFIRMATION = 'requires_confirmation',
+  PROCESSING = 'processing',
+  REQUIRES_CAPTURE = 'requires_capture',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
+
+export interface PaymentIntent {
+  id: string;
+  amount: number;
+  currency: string;
+  status: PaymentIntentStatus;
+  amountRefunded: number;
+  failureReason?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface PaymentRefund {
+  id: string;
+  paymentIntentId: string;
+  amount: number;
+  reason?: string;
+}
+
+export interface CreatePaymentIntentParams {
+  // Integer minor units, as most gateways expect
+  amount: number;
+  currency: string;
+  metadata?: Record<string, string>;
+  // Manual capture holds the funds until capture() is called
+  captureMethod?: 'automatic' | 'manual';
+}
+
+// Body of a signed webhook delivery sent by the gateway
+export interface PaymentWebhookEvent {
+  id: string;
+  type: string;
+  // Unix timestamp (seconds) of when the gateway emitted the event
+  created: number;
+  data: { intent: PaymentIntent };
+}
+
+/**
+ * Contract every payment provider (Stripe, Tap, the local fake, ...) has to implement.
+ * OrderService only talks to this interface, never to a provider SDK directly.
+ */
+export interface PaymentGateway {
+  createIntent(params: CreatePaymentIntentParams): Promise<PaymentIntent>;
+  confirm(intentId: string, params?: { paymentMethodId?: string }): Promise<PaymentIntent>;
+  capture(intentId: string, amount?: number): Promise<PaymentIntent>;
+  // Repeating a refund with the same idempotency key returns the first refund instead of refunding again
+  refund(intentId: string, params?: { amount?: number; reason?: string; idempotencyKey?: string }): Promise<PaymentRefund>;
+  getStatus(intentId: string): Promise<PaymentIntent>;
+}
@@ -0,0 +1,48 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export enum DeliverableStatus {
+  SUBMITTED = 'SUBMITTED',
+  CHANGES_REQUESTED = 'CHANGES_REQUESTED',
+  APPROVED = 'APPROVED',
+}
+
+@Schema({ timestamps: true })
+export class Deliverable extends Document {
+  @Prop({ type: Types.ObjectId, ref: 'Order', required: true })
+  orderId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  submittedBy: Types.ObjectId;
+
+  // Submission number within the order, starting at 1
+  @Prop({ type: Number, required: true, min: 1 })
+  version: number;
+
+  @Prop({ type: String })
+  text?: string;
+
+  // S3 object keys uploaded through the signed upload URL
+  @Prop({ type: [String], default: [] })
+  fileKeys: string[];
+
+  // Final content (as opposed to a script or draft); approving it allows completing the order
+  @Prop({ type: Boolean, default: false })
+  isFinal: boolean;
+
+  @Prop({ type: String, enum: DeliverableStatus, default: DeliverableStatus.SUBMITTED })
+  status: DeliverableStatus;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  reviewedBy?: Types.ObjectId;
+
+  @Prop({ type: Date })
+  reviewedAt?: Date;
+
+  @Prop({ type: String })
+  reviewComment?: string;
+}
+
+export const DeliverableSchema = SchemaFactory.createForClass(Deliverable);
+
+DeliverableSchema.index({ orderId: 1, version: 1 }, { unique: true });
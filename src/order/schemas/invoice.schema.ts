@@ -0,0 +1,72 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { PriceBreakdown } from 'src/pricing/schemas/price-breakdown.schema';
+
+@Schema({ _id: false })
+export class InvoiceLineItem {
+  @Prop({ type: Types.ObjectId, ref: 'Order', required: true })
+  orderId: Types.ObjectId;
+
+  @Prop({ type: String, required: true })
+  description: string;
+
+  @Prop({ type: Date })
+  deliveryDate?: Date;
+
+  // Service price in minor units, before fee and tax
+  @Prop({ type: Number, required: true, min: 0 })
+  amount: number;
+}
+
+/**
+ * One invoice per captured payment. Invoices are never changed once issued;
+ * refunds are tracked on the order and payment.
+ */
+@Schema({ timestamps: true })
+export class Invoice extends Document {
+  // e.g. INV-2025-000042, sequential per year
+  @Prop({ type: String, required: true, unique: true })
+  invoiceNumber: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Payment', required: true, unique: true })
+  paymentId: Types.ObjectId;
+
+  @Prop({ type: String, required: true })
+  orderGroupId: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ type: String, required: true, uppercase: true })
+  currency: string;
+
+  @Prop({ type: [SchemaFactory.createForClass(InvoiceLineItem)], default: [] })
+  lineItems: InvoiceLineItem[];
+
+  // Fee and tax of the invoiced orders, in minor units
+  @Prop({ type: SchemaFactory.createForClass(PriceBreakdown), required: true })
+  pricing: PriceBreakdown;
+
+  @Prop({ type: Date, required: true })
+  issuedAt: Date;
+
+  // S3 key of the generated PDF, empty until the upload succeeded
+  @Prop({ type: String })
+  fileKey?: string;
+}
+
+export const InvoiceSchema = SchemaFactory.createForClass(Invoice);
+
+InvoiceSchema.index({ orderGroupId: 1 });
+
+// Last invoice number handed out per year
+@Schema()
+export class InvoiceSequence extends Document {
+  @Prop({ type: Number, required: true, unique: true })
+  year: number;
+
+  @Prop({ type: Number, required: true, default: 0 })
+  seq: number;
+}
+
+export const InvoiceSequenceSchema = SchemaFactory.createForClass(InvoiceSequence);
@@ -1,5 +1,6 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import { PriceBreakdown } from '../../pricing/schemas/price-breakdown.schema';
 
 export enum OrderStatus {
   PENDING = 'PENDING',
@@ -18,6 +19,38 @@ export enum PaymentStatus {
   REFUNDED = 'REFUNDED',
 }
 
+// A refund is recorded as pending before the gateway is called and completed once it is booked
+export enum RefundStatus {
+  PENDING = 'PENDING',
+  SUCCEEDED = 'SUCCEEDED',
+}
+
+@Schema({ _id: false })
+export class OrderStatusChange {
+  // Empty for the initial status
+  @Prop({ type: String, enum: OrderStatus })
+  from?: OrderStatus;
+
+  @Prop({ type: String, enum: OrderStatus, required: true })
+  to: OrderStatus;
+
+  @Prop({ type: String, required: true })
+  event: string;
+
+  // User role, or SYSTEM for automatic transitions
+  @Prop({ type: String, required: true })
+  actor: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  changedBy?: Types.ObjectId;
+
+  @Prop({ type: String })
+  reason?: string;
+
+  @Prop({ type: Date, required: true })
+  changedAt: Date;
+}
+
 @Schema({ timestamps: true })
 export class OrderItem {
   _id: Types.ObjectId;
@@ -60,6 +93,18 @@ export class OrderItem {
   @Prop({ type: String })
   location?: string;
 
+  // Time slot held with the influencers, booked on payment and released on cancellation or rejection
+  @Prop({ type: Types.ObjectId, ref: 'Booking' })
+  bookingId?: Types.ObjectId;
+
+  // Period of the booked time slot
+  @Prop({ type: Date })
+  startsAt?: Date;
+
+  @Prop({ type: Date })
+  endsAt?: Date;
+
+  // Service price in integer minor units of the order currency
   @Prop({ required: true, min: 0 })
   price: number;
 
@@ -77,6 +122,54 @@ export class OrderItem {
 
   @Prop({ type: Boolean, default: false })
   isPaid: boolean;
+
+  @Prop({ type: [SchemaFactory.createForClass(OrderStatusChange)], default: [] })
+  statusHistory: OrderStatusChange[];
+}
+
+@Schema({ _id: false })
+export class RefundLineItem {
+  // Minor units
+  @Prop({ required: true, min: 0 })
+  amount: number;
+
+  @Prop({ type: String, required: true })
+  reason: string;
+}
+
+@Schema({ timestamps: true })
+export class OrderRefund {
+  _id: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Payment', required: true })
+  paymentId: Types.ObjectId;
+
+  @Prop({ type: String })
+  gatewayRefundId?: string;
+
+  @Prop({ type: String, enum: RefundStatus, default: RefundStatus.SUCCEEDED })
+  status: RefundStatus;
+
+  // Sent to the gateway, so retrying an interrupted refund cannot refund twice
+  @Prop({ type: String })
+  idempotencyKey?: string;
+
+  @Prop({ required: true, min: 0 })
+  amount: number;
+
+  @Prop({ type: [SchemaFactory.createForClass(RefundLineItem)], default: [] })
+  lineItems: RefundLineItem[];
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  refundedBy: Types.ObjectId;
+
+  @Prop({ type: String, required: true })
+  refundedByRole: string;
+
+  @Prop({ type: String, enum: OrderStatus, required: true })
+  previousStatus: OrderStatus;
+
+  createdAt?: Date;
 }
 
 @Schema({ timestamps: true })
@@ -90,17 +183,44 @@ export class Order extends Document {
   @Prop({ type: OrderItem, required: true })
   item: OrderItem;
 
+  // What the client owes in minor units: pricing.total minus refunds
   @Prop({ required: true, min: 0 })
   totalAmount: number;
 
+  @Prop({ type: String, required: true, uppercase: true })
+  currency: string;
+
+  // Fee and tax breakdown fixed when the order was created
+  @Prop({ type: SchemaFactory.createForClass(PriceBreakdown), required: true })
+  pricing: PriceBreakdown;
+
+  // Coupon redeemed by the checkout, its discount is part of `pricing`
+  @Prop({ type: String })
+  couponCode?: string;
+
   @Prop()
   paymentDate?: Date;
 
   @Prop({ type: Types.ObjectId, ref: 'Payment' })
   paymentId?: Types.ObjectId;
 
+  // Payment charging the order right now; claimed before the gateway is called so the order is never charged twice at once
+  @Prop({ type: Types.ObjectId, ref: 'Payment' })
+  pendingPaymentId?: Types.ObjectId;
+
   @Prop({ type: Date })
   completedAt?: Date;
+
+  @Prop({ type: Date })
+  cancelledAt?: Date;
+
+  // Set while a dispute is open; blocks completion and escrow release
+  @Prop({ type: Boolean, default: false })
+  hasOpenDispute: boolean;
+
+  // Audit trail of money returned to the client for this order
+  @Prop({ type: [SchemaFactory.createForClass(OrderRefund)], default: [] })
+  refunds: OrderRefund[];
 }
 
 export const OrderSchema = SchemaFactory.createForClass(Order);
@@ -0,0 +1,44 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export enum PaymentEventStatus {
+  RECEIVED = 'RECEIVED',
+  PROCESSED = 'PROCESSED',
+  IGNORED = 'IGNORED',
+}
+
+@Schema({ timestamps: true })
+export class PaymentEvent extends Document {
+  // Gateway event id, used to drop replayed deliveries
+  @Prop({ type: String, required: true, unique: true })
+  eventId: string;
+
+  @Prop({ type: String, required: true })
+  type: string;
+
+  @Prop({ type: String, required: true })
+  paymentIntentId: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Payment' })
+  paymentId?: Types.ObjectId;
+
+  @Prop({ type: String, enum: PaymentEventStatus, default: PaymentEventStatus.RECEIVED })
+  status: PaymentEventStatus;
+
+  // Why the event did not change any state
+  @Prop({ type: String })
+  ignoredReason?: string;
+
+  @Prop({ type: Date, required: true })
+  occurredAt: Date;
+
+  @Prop({ type: Date })
+  processedAt?: Date;
+
+  @Prop({ type: Object })
+  payload?: Record<string, any>;
+}
+
+export const PaymentEventSchema = SchemaFactory.createForClass(PaymentEvent);
+
+PaymentEventSchema.index({ paymentIntentId: 1, occurredAt: 1 });
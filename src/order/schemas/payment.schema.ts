@@ -1,5 +1,6 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import { PriceBreakdown } from '../../pricing/schemas/price-breakdown.schema';
 
 export enum PaymentStatus {
   PENDING = 'PENDING',
@@ -16,9 +17,24 @@ export class Payment extends Document {
   @Prop({ type: Types.ObjectId, required: true, ref: 'User' })
   userId: Types.ObjectId;
 
+  // Net captured amount in minor units, reduced by every refund
   @Prop({ type: Number, required: true })
   amount: number;
 
+  @Prop({ type: Number, default: 0 })
+  refundedAmount: number;
+
+  // Idempotency keys of the refunds already taken off `amount`
+  @Prop({ type: [String], default: [] })
+  refundKeys: string[];
+
+  @Prop({ type: String, required: true, uppercase: true })
+  currency: string;
+
+  // Combined breakdown of the orders charged together
+  @Prop({ type: SchemaFactory.createForClass(PriceBreakdown) })
+  pricing?: PriceBreakdown;
+
   @Prop({ type: String, enum: PaymentStatus, default: PaymentStatus.PENDING })
   status: PaymentStatus;
 
@@ -32,4 +48,4 @@ export class Payment extends Document {
   orders: Types.ObjectId[];
 }
 
-export const PaymentSchema = SchemaFactory.createForClass(Payment);
\ No newline at end of file
+export const PaymentSchema = SchemaFactory.createForClass(Payment);
@@ -0,0 +1,9 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNumber, IsPositive } from 'class-validator';
+
+export class SetExchangeRateDto {
+  @ApiProperty({ description: 'Units of the currency per 1 USD', example: 0.92 })
+  @IsNumber()
+  @IsPositive()
+  rate: number;
+}
@@ -0,0 +1,33 @@
+/**
+ * Fallback conversion rates: units of each currency per 1 EXCHANGE_RATE_BASE.
+ * Rates maintained by admins take precedence. Only used to display converted prices;
+ * clients are always charged in the settlement currency of the service.
+ */
+export const EXCHANGE_RATE_BASE = 'USD';
+
+export const DEFAULT_EXCHANGE_RATES: Record<string, number> = {
+  AED: 3.6725,
+  AUD: 1.52,
+  BRL: 5.4,
+  CAD: 1.37,
+  CHF: 0.88,
+  CNY: 7.2,
+  DKK: 6.85,
+  EGP: 48.5,
+  EUR: 0.92,
+  GBP: 0.79,
+  INR: 83.5,
+  JPY: 150,
+  KRW: 1350,
+  KWD: 0.307,
+  MXN: 18,
+  NOK: 10.7,
+  NZD: 1.65,
+  PLN: 3.95,
+  SAR: 3.75,
+  SEK: 10.5,
+  SGD: 1.34,
+  TRY: 32.5,
+  USD: 1,
+  ZAR: 18.5,
+};
@@ -0,0 +1,34 @@
+import { Body, Controller, Get, Param, Put, Req } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Request } from 'express';
+import { Public } from 'src/common/decorators/public.decorator';
+import { Roles } from 'src/common/decorators/role.decorator';
+import { UserRole } from 'src/user/schemas/user.schema';
+import { PricingService } from './pricing.service';
+import { SetExchangeRateDto } from './dto/set-exchange-rate.dto';
+
+@ApiTags('Exchange Rates')
+@ApiBearerAuth('access-token')
+@Controller('exchange-rates')
+export class PricingController {
+  constructor(private readonly pricingService: PricingService) {}
+
+  @Get()
+  @Public()
+  @ApiOperation({
+    summary: 'Get the conversion rates used to display prices',
+    description: 'Units of each currency per 1 base currency. Payments are always charged in the currency of the service',
+  })
+  async getExchangeRates() {
+    return this.pricingService.getExchangeRates();
+  }
+
+  @Put(':currency')
+  @ApiOperation({ summary: 'Set the conversion rate of a currency (admin)' })
+  @ApiParam({ name: 'currency', description: 'ISO 4217 currency code', example: 'EUR' })
+  @ApiResponse({ status: 400, description: 'Invalid currency code or rate' })
+  @Roles(UserRole.ADMIN)
+  async setExchangeRate(@Req() req: Request, @Param('currency') currency: string, @Body() body: SetExchangeRateDto) {
+    return this.pricingService.setExchangeRate(currency, body.rate, req?.user?.userId!);
+  }
+}
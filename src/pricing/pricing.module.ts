@@ -0,0 +1,27 @@
+/**
+ * Pricing Module
+ *
+ * Checkout price calculation in integer minor units:
+ * - Platform service fee
+ * - VAT / sales tax by client country
+ * - Exchange rates to display prices in the client's preferred currency
+ */
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { PricingService } from './pricing.service';
+import { PricingController } from './pricing.controller';
+import { User, UserSchema } from 'src/user/schemas/user.schema';
+import { ExchangeRate, ExchangeRateSchema } from './schemas/exchange-rate.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: User.name, schema: UserSchema },
+      { name: ExchangeRate.name, schema: ExchangeRateSchema },
+    ]),
+  ],
+  controllers: [PricingController],
+  providers: [PricingService],
+  exports: [PricingService],
+})
+export class PricingModule {}
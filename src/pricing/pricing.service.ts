@@ -0,0 +1,136 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { isISO4217CurrencyCode } from 'class-validator';
+import { Model, Types } from 'mongoose';
+import { User, UserDocument } from 'src/user/schemas/user.schema';
+import { PriceBreakdown } from './schemas/price-breakdown.schema';
+import { ExchangeRate } from './schemas/exchange-rate.schema';
+import { TAX_RATES_BY_COUNTRY } from './tax-rates';
+import { DEFAULT_EXCHANGE_RATES, EXCHANGE_RATE_BASE } from './exchange-rates';
+import { calculatePrice, convertAmount, sumPrices } from './pricing.utils';
+
+export interface PriceQuote {
+  lines: PriceBreakdown[];
+  total: PriceBreakdown;
+}
+
+/**
+ * Single source of truth for what a client pays. Used for the cart summary and again when
+ * orders are created, so the checkout total always matches what was shown.
+ */
+@Injectable()
+export class PricingService {
+  constructor(
+    @InjectModel(User.name) private readonly userModel: Model<UserDocument>,
+    @InjectModel(ExchangeRate.name) private readonly exchangeRateModel: Model<ExchangeRate>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  getDefaultCurrency(): string {
+    return (this.configService.get<string>('PAYMENT_CURRENCY') || 'USD').toUpperCase();
+  }
+
+  getPlatformFeeRate(): number {
+    return Number(this.configService.get('PLATFORM_FEE_PERCENT') ?? 0);
+  }
+
+  getTaxRate(country?: string): number {
+    const rate = country ? TAX_RATES_BY_COUNTRY[country.toUpperCase()] : undefined;
+    return rate ?? Number(this.configService.get('DEFAULT_TAX_PERCENT') ?? 0);
+  }
+
+  /**
+   * Prices each line (service price in minor units) for a client and adds them up.
+   * `discounts` are per line, in the same order as `prices`.
+   */
+  async quote(
+    clientId: string,
+    prices: number[],
+    currency: string = this.getDefaultCurrency(),
+    discounts: number[] = [],
+  ): Promise<PriceQuote> {
+    const client = await this.userModel.findById(clientId).select('country').lean();
+    const rates = { platformFeeRate: this.getPlatformFeeRate(), taxRate: this.getTaxRate(client?.country) };
+
+    const lines = prices.map((price, index) => calculatePrice(price, currency, rates, discounts[index]));
+    return { lines, total: sumPrices(lines, currency) };
+  }
+
+  /**
+   * Every known rate against EXCHANGE_RATE_BASE; admin-maintained rates override the fallback table.
+   */
+  async getExchangeRates(): Promise<{ base: string; rates: Record<string, number> }> {
+    const stored = await this.exchangeRateModel.find().lean();
+    const rates = { ...DEFAULT_EXCHANGE_RATES };
+    for (const { currency, rate } of stored) {
+      rates[currency] = rate;
+    }
+    return { base: EXCHANGE_RATE_BASE, rates };
+  }
+
+  async setExchangeRate(currency: string, rate: number, adminId: string): Promise<ExchangeRate> {
+    currency = currency.toUpperCase();
+    if (!isISO4217CurrencyCode(currency)) {
+      throw new BadRequestException('Invalid currency code');
+    }
+    if (currency === EXCHANGE_RATE_BASE && rate !== 1) {
+      throw new BadRequestException(`The rate of the base currency ${EXCHANGE_RATE_BASE} is always 1`);
+    }
+    return this.exchangeRateModel.findOneAndUpdate(
+      { currency },
+      { rate, updatedBy: new Types.ObjectId(adminId) },
+      { upsert: true, new: true, runValidators: true },
+    );
+  }
+
+  /**
+   * A price converted to the client's preferred display currency. Undefined when the client has no
+   * preference, it matches the settlement currency or no rate is known; the charge itself never changes.
+   */
+  async toDisplayCurrency(pricing: PriceBreakdown | undefined, clientId?: string): Promise<PriceBreakdown | undefined> {
+    const display = pricing && (await this.getDisplayConversion(pricing.currency, clientId));
+    if (!display) return undefined;
+
+    // Components are converted one by one so the total still adds up
+    const subtotal = display.convert(pricing.subtotal);
+    const discount = display.convert(pricing.discount || 0);
+    const platformFee = display.convert(pricing.platformFee);
+    const tax = display.convert(pricing.tax);
+    return {
+      ...pricing,
+      currency: display.currency,
+      subtotal,
+      discount,
+      platformFee,
+      tax,
+      total: subtotal - discount + platformFee + tax,
+    };
+  }
+
+  // Same as toDisplayCurrency for a single amount, e.g. the list price of a service
+  async toDisplayAmount(
+    amount: number,
+    currency: string,
+    clientId?: string,
+  ): Promise<{ amount: number; currency: string } | undefined> {
+    const display = await this.getDisplayConversion(currency, clientId);
+    return display && { amount: display.convert(amount), currency: display.currency };
+  }
+
+  private async getDisplayConversion(from: string, clientId?: string) {
+    if (!clientId || !Types.ObjectId.isValid(clientId)) return undefined;
+    const client = await this.userModel.findById(clientId).select('preferredCurrency').lean();
+    const to = client?.preferredCurrency;
+    from = from.toUpperCase();
+    if (!to || to === from) return undefined;
+
+    const { rates } = await this.getExchangeRates();
+    if (!rates[from] || !rates[to]) return undefined;
+    return {
+      currency: to,
+      convert: (amount: number) =>
+        convertAmount(amount, { currency: from, rate: rates[from] }, { currency: to, rate: rates[to] }),
+    };
+  }
+}
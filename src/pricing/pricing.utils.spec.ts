@@ -0,0 +1,57 @@
+import { calculatePrice, convertAmount, formatMoney, sumPrices, toMinorUnits } from './pricing.utils';
+
+describe('pricing utils', () => {
+  it('should convert using the minor unit of each currency', () => {
+    expect(toMinorUnits(12.34, 'USD')).toBe(1234);
+    expect(toMinorUnits(1500, 'JPY')).toBe(1500);
+    expect(toMinorUnits(1.5, 'KWD')).toBe(1500);
+    expect(formatMoney(123456, 'usd')).toBe('1234.56 USD');
+  });
+
+  it('should add the platform fee and tax the fee as well', () => {
+    expect(calculatePrice(10000, 'EUR', { platformFeeRate: 5, taxRate: 20 })).toEqual({
+      currency: 'EUR',
+      subtotal: 10000,
+      discount: 0,
+      platformFeeRate: 5,
+      platformFee: 500,
+      taxRate: 20,
+      tax: 2100,
+      total: 12600,
+    });
+  });
+
+  it('should round fee and tax half up to whole minor units', () => {
+    const price = calculatePrice(1999, 'USD', { platformFeeRate: 2.5, taxRate: 8.1 });
+    expect(price.platformFee).toBe(50);
+    expect(price.tax).toBe(166);
+    expect(price.total).toBe(1999 + 50 + 166);
+  });
+
+  it('should reject fractional amounts', () => {
+    expect(() => calculatePrice(19.99, 'USD', { platformFeeRate: 0, taxRate: 0 })).toThrow();
+  });
+
+  it('should sum lines without re-rounding', () => {
+    const line = calculatePrice(333, 'USD', { platformFeeRate: 10, taxRate: 10 });
+    const total = sumPrices([line, line, line], 'USD');
+    expect(total.total).toBe(line.total * 3);
+    expect(total.subtotal + total.platformFee + total.tax).toBe(total.total);
+  });
+
+  it('should take the discount off before the fee and tax', () => {
+    const price = calculatePrice(10000, 'EUR', { platformFeeRate: 5, taxRate: 20 }, 2000);
+    expect(price.platformFee).toBe(400);
+    expect(price.tax).toBe(1680);
+    expect(price.total).toBe(8000 + 400 + 1680);
+    expect(calculatePrice(500, 'EUR', { platformFeeRate: 5, taxRate: 20 }, 2000).total).toBe(0);
+  });
+
+  it('should convert between currencies with different minor units', () => {
+    const usd = { currency: 'USD', rate: 1 };
+    expect(convertAmount(10000, usd, { currency: 'EUR', rate: 0.92 })).toBe(9200);
+    expect(convertAmount(1999, usd, { currency: 'JPY', rate: 150 })).toBe(2999);
+    expect(convertAmount(15000, { currency: 'JPY', rate: 150 }, { currency: 'KWD', rate: 0.307 })).toBe(30700);
+    expect(convertAmount(1234, usd, usd)).toBe(1234);
+  });
+});
@@ -0,0 +1,98 @@
+import { PriceBreakdown } from './schemas/price-breakdown.schema';
+
+// ISO 4217 currencies whose minor unit is not 1/100
+const CURRENCY_EXPONENTS: Record<string, number> = {
+  BHD: 3,
+  CLP: 0,
+  IQD: 3,
+  ISK: 0,
+  JOD: 3,
+  JPY: 0,
+  KRW: 0,
+  KWD: 3,
+  LYD: 3,
+  OMR: 3,
+  TND: 3,
+  UGX: 0,
+  VND: 0,
+};
+
+export function currencyExponent(currency: string): number {
+  return CURRENCY_EXPONENTS[currency.toUpperCase()] ?? 2;
+}
+
+export function toMinorUnits(amount: number, currency: string): number {
+  return Math.round(amount * 10 ** currencyExponent(currency));
+}
+
+export function fromMinorUnits(amount: number, currency: string): number {
+  return amount / 10 ** currencyExponent(currency);
+}
+
+// e.g. 123456 USD -> "1234.56 USD"
+export function formatMoney(amount: number, currency: string): string {
+  return `${fromMinorUnits(amount, currency).toFixed(currencyExponent(currency))} ${currency.toUpperCase()}`;
+}
+
+/**
+ * Converts an amount in minor units using rates quoted against the same base currency,
+ * rounded half up to whole minor units of the target currency.
+ */
+export function convertAmount(
+  amount: number,
+  from: { currency: string; rate: number },
+  to: { currency: string; rate: number },
+): number {
+  if (from.currency.toUpperCase() === to.currency.toUpperCase()) return amount;
+  // Shift by the difference in minor units instead of going through decimals, e.g. 19.99 * 150 = 2998.4999...
+  const shift = currencyExponent(to.currency) - currencyExponent(from.currency);
+  const converted = (amount * to.rate) / from.rate;
+  return Math.round(shift >= 0 ? converted * 10 ** shift : converted / 10 ** -shift);
+}
+
+/**
+ * Prices one line. The discount comes off the subtotal, the fee is a percentage of the discounted subtotal
+ * and tax applies to the discounted subtotal plus the fee; fee and tax are rounded half up to whole minor units.
+ */
+export function calculatePrice(
+  subtotal: number,
+  currency: string,
+  rates: { platformFeeRate: number; taxRate: number },
+  discount = 0,
+): PriceBreakdown {
+  if (!Number.isInteger(subtotal) || subtotal < 0 || !Number.isInteger(discount) || discount < 0) {
+    throw new Error('Prices must be non-negative integer minor units');
+  }
+  discount = Math.min(discount, subtotal);
+  const platformFee = Math.round(((subtotal - discount) * rates.platformFeeRate) / 100);
+  const tax = Math.round(((subtotal - discount + platformFee) * rates.taxRate) / 100);
+  return {
+    currency: currency.toUpperCase(),
+    subtotal,
+    discount,
+    platformFeeRate: rates.platformFeeRate,
+    platformFee,
+    taxRate: rates.taxRate,
+    tax,
+    total: subtotal - discount + platformFee + tax,
+  };
+}
+
+// Adds up already rounded lines so the total always equals the sum of its parts
+export function sumPrices(lines: PriceBreakdown[], currency: string): PriceBreakdown {
+  if (lines.some((line) => line.currency !== currency.toUpperCase())) {
+    throw new Error('Cannot add prices in different currencies');
+  }
+  const sum = (field: 'subtotal' | 'discount' | 'platformFee' | 'tax' | 'total') =>
+    lines.reduce((total, line) => total + (line[field] || 0), 0);
+  return {
+    currency: currency.toUpperCase(),
+    subtotal: sum('subtotal'),
+    discount: sum('discount'),
+    platformFeeRate: lines[0]?.platformFeeRate ?? 0,
+    platformFee: sum('platformFee'),
+    taxRate: lines[0]?.taxRate ?? 0,
+    tax: sum('tax'),
+    total: sum('total'),
+  };
+}
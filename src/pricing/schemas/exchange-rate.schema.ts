@@ -0,0 +1,21 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+/**
+ * Admin-maintained conversion rate, overriding the built-in fallback for the currency.
+ */
+@Schema({ timestamps: true })
+export class ExchangeRate extends Document {
+  // ISO 4217 code
+  @Prop({ type: String, required: true, unique: true, uppercase: true })
+  currency: string;
+
+  // Units of `currency` per 1 EXCHANGE_RATE_BASE
+  @Prop({ type: Number, required: true, min: 0 })
+  rate: number;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  updatedBy?: Types.ObjectId;
+}
+
+export const ExchangeRateSchema = SchemaFactory.createForClass(ExchangeRate);
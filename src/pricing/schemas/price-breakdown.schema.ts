@@ -0,0 +1,35 @@
+import { Prop, Schema } from '@nestjs/mongoose';
+
+/**
+ * What the client pays, in integer minor units of `currency` (cents for USD).
+ */
+@Schema({ _id: false })
+export class PriceBreakdown {
+  @Prop({ type: String, required: true, uppercase: true })
+  currency: string;
+
+  // Sum of the service prices
+  @Prop({ type: Number, required: true, min: 0 })
+  subtotal: number;
+
+  // Coupon discount taken off the subtotal; fee and tax apply to what is left and influencers are paid on it
+  @Prop({ type: Number, default: 0, min: 0 })
+  discount: number;
+
+  @Prop({ type: Number, required: true, min: 0 })
+  platformFeeRate: number;
+
+  // Service fee charged to the client on top of the subtotal
+  @Prop({ type: Number, required: true, min: 0 })
+  platformFee: number;
+
+  // VAT / sales tax percentage for the client's country
+  @Prop({ type: Number, required: true, min: 0 })
+  taxRate: number;
+
+  @Prop({ type: Number, required: true, min: 0 })
+  tax: number;
+
+  @Prop({ type: Number, required: true, min: 0 })
+  total: number;
+}
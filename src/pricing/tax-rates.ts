@@ -0,0 +1,28 @@
+/**
+ * Standard VAT / sales tax percentage by client country (ISO 3166-1 alpha-2).
+ * Countries missing here use DEFAULT_TAX_PERCENT.
+ */
+export const TAX_RATES_BY_COUNTRY: Record<string, number> = {
+  AE: 5,
+  AT: 20,
+  AU: 10,
+  BE: 21,
+  CA: 5,
+  CH: 8.1,
+  DE: 19,
+  DK: 25,
+  EG: 14,
+  ES: 21,
+  FR: 20,
+  GB: 20,
+  IE: 23,
+  IN: 18,
+  IT: 22,
+  NL: 21,
+  PL: 23,
+  PT: 23,
+  SA: 15,
+  SE: 25,
+  // Sales tax depends on the state and is settled outside the platform
+  US: 0,
+};
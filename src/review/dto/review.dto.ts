@@ -0,0 +1,67 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsEnum, IsInt, IsMongoId, IsNotEmpty, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+import { PaginationQueryDto } from 'src/favorites/dto/pagination-query.dto';
+import { ReviewStatus } from '../schemas/review.schema';
+
+export class CreateReviewDto {
+  @ApiProperty({ description: 'Completed order to review' })
+  @IsMongoId()
+  orderId: string;
+
+  @ApiProperty({ description: 'Star rating', minimum: 1, maximum: 5, example: 5 })
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  rating: number;
+
+  @ApiPropertyOptional({ description: 'Written review', example: 'Great content, delivered ahead of time' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  comment?: string;
+}
+
+export class ReplyToReviewDto {
+  @ApiProperty({ description: 'Public answer of the influencer' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  message: string;
+}
+
+export class ModerateReviewDto {
+  @ApiProperty({ description: 'Hide the review from the public and the ratings, or show it again' })
+  @IsBoolean()
+  hidden: boolean;
+
+  @ApiPropertyOptional({ description: 'Why the review was hidden' })
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+export class ReviewQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({ description: 'Reviews of orders for this service' })
+  @IsOptional()
+  @IsMongoId()
+  serviceId?: string;
+
+  @ApiPropertyOptional({ description: 'Reviews of orders delivered by this influencer' })
+  @IsOptional()
+  @IsMongoId()
+  influencerId?: string;
+
+  @ApiPropertyOptional({ description: 'Only reviews with at least this rating', minimum: 1, maximum: 5 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  minRating?: number;
+}
+
+export class AdminReviewQueryDto extends ReviewQueryDto {
+  @ApiPropertyOptional({ enum: ReviewStatus, description: 'Filter by moderation status' })
+  @IsOptional()
+  @IsEnum(ReviewStatus)
+  status?: ReviewStatus;
+}
@@ -0,0 +1,56 @@
+import { Body, Controller, Get, Param, Post, Put, Query, Req } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Request } from 'express';
+import { Public } from 'src/common/decorators/public.decorator';
+import { Roles } from 'src/common/decorators/role.decorator';
+import { UserRole } from 'src/user/schemas/user.schema';
+import { ReviewService } from './review.service';
+import { AdminReviewQueryDto, CreateReviewDto, ModerateReviewDto, ReplyToReviewDto, ReviewQueryDto } from './dto/review.dto';
+
+@ApiTags('Reviews')
+@ApiBearerAuth('access-token')
+@Controller('reviews')
+export class ReviewController {
+  constructor(private readonly reviewService: ReviewService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Rate and review a completed order (client)' })
+  @ApiResponse({ status: 201, description: 'Review created, ratings of the service and influencers updated' })
+  @ApiResponse({ status: 400, description: 'The order is not completed' })
+  @ApiResponse({ status: 409, description: 'The order has already been reviewed' })
+  @Roles(UserRole.USER)
+  async createReview(@Req() req: Request, @Body() data: CreateReviewDto) {
+    return this.reviewService.createReview(req?.user?.userId!, data);
+  }
+
+  @Get()
+  @Public()
+  @ApiOperation({ summary: 'List reviews of a service or an influencer', description: 'Newest first, hidden reviews excluded' })
+  async getReviews(@Query() query: ReviewQueryDto) {
+    return this.reviewService.getReviews(query);
+  }
+
+  @Get('moderation')
+  @ApiOperation({ summary: 'List all reviews including hidden ones (admin)' })
+  @Roles(UserRole.ADMIN)
+  async getReviewsForModeration(@Query() query: AdminReviewQueryDto) {
+    return this.reviewService.getReviewsForModeration(query);
+  }
+
+  @Post(':id/reply')
+  @ApiOperation({ summary: 'Reply to a review of your order (influencer, once)' })
+  @ApiParam({ name: 'id', description: 'Review ID' })
+  @ApiResponse({ status: 400, description: 'The review already has a reply' })
+  @Roles(UserRole.INFLUENCER)
+  async replyToReview(@Req() req: Request, @Param('id') id: string, @Body() data: ReplyToReviewDto) {
+    return this.reviewService.replyToReview(id, req?.user?.userId!, data);
+  }
+
+  @Put(':id/moderation')
+  @ApiOperation({ summary: 'Hide or restore a review (admin)' })
+  @ApiParam({ name: 'id', description: 'Review ID' })
+  @Roles(UserRole.ADMIN)
+  async moderateReview(@Req() req: Request, @Param('id') id: string, @Body() data: ModerateReviewDto) {
+    return this.reviewService.moderateReview(id, req?.user?.userId!, data);
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Review Module
+ *
+ * Feedback on completed orders:
+ * - 1-5 star ratings and written reviews by clients
+ * - One reply per review by the influencer
+ * - Admin moderation
+ * - Rating average and review count on influencers and services
+ */
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ReviewController } from './review.controller';
+import { ReviewService } from './review.service';
+import { Review, ReviewSchema } from './schemas/review.schema';
+import { Order, OrderSchema } from 'src/order/schemas/order.schema';
+import { User, UserSchema } from 'src/user/schemas/user.schema';
+import { InfluencerServices, InfluencerServicesSchema } from 'src/influencer-service/schemas/influencer-service.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Review.name, schema: ReviewSchema },
+      { name: Order.name, schema: OrderSchema },
+      { name: User.name, schema: UserSchema },
+      { name: InfluencerServices.name, schema: InfluencerServicesSchema },
+    ]),
+  ],
+  controllers: [ReviewController],
+  providers: [ReviewService],
+  exports: [ReviewService],
+})
+export class ReviewModule {}
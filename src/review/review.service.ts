@@ -0,0 +1,169 @@
+import { BadRequestException, ConflictException, ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { isValidObjectId, Model, Types } from 'mongoose';
+import { PaginationResponse } from 'src/@types/pagination-response.interface';
+import { Order, OrderStatus } from 'src/order/schemas/order.schema';
+import { User, UserDocument } from 'src/user/schemas/user.schema';
+import { InfluencerServiceDocument, InfluencerServices } from 'src/influencer-service/schemas/influencer-service.schema';
+import { Review, ReviewStatus } from './schemas/review.schema';
+import { AdminReviewQueryDto, CreateReviewDto, ModerateReviewDto, ReplyToReviewDto, ReviewQueryDto } from './dto/review.dto';
+
+@Injectable()
+export class ReviewService {
+  constructor(
+    @InjectModel(Review.name) private reviewModel: Model<Review>,
+    @InjectModel(Order.name) private orderModel: Model<Order>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    @InjectModel(InfluencerServices.name) private influencerServiceModel: Model<InfluencerServiceDocument>,
+  ) {}
+
+  async createReview(clientId: string, { orderId, rating, comment }: CreateReviewDto): Promise<Review> {
+    const order = await this.orderModel.findById(orderId);
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+    if (order.userId.toString() !== clientId) {
+      throw new ForbiddenException('You can only review your own orders');
+    }
+    if (order.item.status !== OrderStatus.COMPLETED) {
+      throw new BadRequestException('Only completed orders can be reviewed');
+    }
+    if (await this.reviewModel.exists({ orderId: order._id })) {
+      throw new ConflictException('This order has already been reviewed');
+    }
+
+    let review: Review;
+    try {
+      review = await this.reviewModel.create({
+        orderId: order._id,
+        serviceId: order.item.serviceId,
+        clientId: new Types.ObjectId(clientId),
+        influencerIds: order.item.influencerIds,
+        rating,
+        comment,
+      });
+    } catch (error) {
+      // Another submission for the same order won the race
+      if (error?.code === 11000) throw new ConflictException('This order has already been reviewed');
+      throw error;
+    }
+    await this.refreshRatings(review);
+    return review;
+  }
+
+  // Public listing, hidden reviews are left out
+  async getReviews(query: ReviewQueryDto): Promise<PaginationResponse<Review>> {
+    return this.paginate({ ...query, status: ReviewStatus.VISIBLE });
+  }
+
+  async getReviewsForModeration(query: AdminReviewQueryDto): Promise<PaginationResponse<Review>> {
+    return this.paginate(query);
+  }
+
+  async replyToReview(reviewId: string, influencerId: string, { message }: ReplyToReviewDto): Promise<Review> {
+    const review = await this.getReview(reviewId);
+    if (!review.influencerIds.some((id) => id.toString() === influencerId)) {
+      throw new ForbiddenException('You can only reply to reviews of your own orders');
+    }
+    if (review.reply) {
+      throw new BadRequestException('This review already has a reply');
+    }
+
+    review.reply = { message, repliedBy: new Types.ObjectId(influencerId), repliedAt: new Date() };
+    return review.save();
+  }
+
+  async moderateReview(reviewId: string, adminId: string, { hidden, reason }: ModerateReviewDto): Promise<Review> {
+    const review = await this.getReview(reviewId);
+    const status = hidden ? ReviewStatus.HIDDEN : ReviewStatus.VISIBLE;
+    if (review.status === status) return review;
+
+    review.status = status;
+    review.moderation = { moderatedBy: new Types.ObjectId(adminId), reason, moderatedAt: new Date() };
+    await review.save();
+    await this.refreshRatings(review);
+    return review;
+  }
+
+  private async getReview(reviewId: string): Promise<Review> {
+    if (!isValidObjectId(reviewId)) throw new BadRequestException('Invalid review ID');
+    const review = await this.reviewModel.findById(reviewId);
+    if (!review) throw new NotFoundException('Review not found');
+    return review;
+  }
+
+  private async paginate({
+    page = 1,
+    limit = 10,
+    serviceId,
+    influencerId,
+    minRating,
+    status,
+  }: AdminReviewQueryDto): Promise<PaginationResponse<Review>> {
+    const skip = (page - 1) * limit;
+    const match: Record<string, unknown> = {};
+    if (serviceId) match.serviceId = new Types.ObjectId(serviceId);
+    if (influencerId) match.influencerIds = new Types.ObjectId(influencerId);
+    if (minRating) match.rating = { $gte: minRating };
+    if (status) match.status = status;
+
+    const result = await this.reviewModel.aggregate<PaginationResponse<Review>>([
+      { $match: match },
+      { $sort: { createdAt: -1 } },
+      {
+        $facet: {
+          metadata: [{ $count: 'totalDocs' }],
+          data: [
+            { $skip: skip },
+            { $limit: limit },
+            {
+              $lookup: {
+                from: 'users',
+                localField: 'clientId',
+                foreignField: '_id',
+                as: 'client',
+                pipeline: [{ $project: { name: 1, profileImage: 1 } }],
+              },
+            },
+            { $unwind: { path: '$client', preserveNullAndEmptyArrays: true } },
+          ],
+        },
+      },
+      {
+        $project: {
+          totalDocs: { $ifNull: [{ $arrayElemAt: ['$metadata.totalDocs', 0] }, 0] },
+          page: { $literal: page },
+          limit: { $literal: limit },
+          docs: '$data',
+        },
+      },
+    ]);
+
+    return result[0];
+  }
+
+  /**
+   * Recomputes the average rating and review count of the reviewed service and its influencers
+   * from their visible reviews.
+   */
+  private async refreshRatings(review: Review) {
+    const summarize = async (match: Record<string, unknown>) => {
+      const [summary] = await this.reviewModel.aggregate<{ average: number; count: number }>([
+        { $match: { ...match, status: ReviewStatus.VISIBLE } },
+        { $group: { _id: null, average: { $avg: '$rating' }, count: { $sum: 1 } } },
+      ]);
+      return {
+        ratingAverage: summary ? Math.round(summary.average * 100) / 100 : 0,
+        reviewCount: summary?.count || 0,
+      };
+    };
+
+    await this.influencerServiceModel.updateOne(
+      { _id: review.serviceId },
+      { $set: await summarize({ serviceId: review.serviceId }) },
+    );
+    for (const influencerId of review.influencerIds) {
+      await this.userModel.updateOne({ _id: influencerId }, { $set: await summarize({ influencerIds: influencerId }) });
+    }
+  }
+}
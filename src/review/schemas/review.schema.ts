@@ -0,0 +1,69 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export enum ReviewStatus {
+  VISIBLE = 'VISIBLE',
+  // Hidden by an admin; not shown publicly and left out of the ratings
+  HIDDEN = 'HIDDEN',
+}
+
+@Schema({ _id: false })
+export class ReviewReply {
+  @Prop({ type: String, required: true })
+  message: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  repliedBy: Types.ObjectId;
+
+  @Prop({ type: Date, required: true })
+  repliedAt: Date;
+}
+
+@Schema({ _id: false })
+export class ReviewModeration {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  moderatedBy: Types.ObjectId;
+
+  @Prop({ type: String })
+  reason?: string;
+
+  @Prop({ type: Date, required: true })
+  moderatedAt: Date;
+}
+
+@Schema({ timestamps: true })
+export class Review extends Document {
+  // One review per order
+  @Prop({ type: Types.ObjectId, ref: 'Order', required: true, unique: true })
+  orderId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'InfluencerServices', required: true })
+  serviceId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  clientId: Types.ObjectId;
+
+  @Prop({ type: [{ type: Types.ObjectId, ref: 'User' }], required: true })
+  influencerIds: Types.ObjectId[];
+
+  @Prop({ type: Number, required: true, min: 1, max: 5 })
+  rating: number;
+
+  @Prop({ type: String })
+  comment?: string;
+
+  @Prop({ type: String, enum: ReviewStatus, default: ReviewStatus.VISIBLE })
+  status: ReviewStatus;
+
+  // Influencers can answer once
+  @Prop({ type: SchemaFactory.createForClass(ReviewReply) })
+  reply?: ReviewReply;
+
+  @Prop({ type: SchemaFactory.createForClass(ReviewModeration) })
+  moderation?: ReviewModeration;
+}
+
+export const ReviewSchema = SchemaFactory.createForClass(Review);
+
+ReviewSchema.index({ serviceId: 1, status: 1, createdAt: -1 });
+ReviewSchema.index({ influencerIds: 1, status: 1, createdAt: -1 });
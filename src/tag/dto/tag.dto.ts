@@ -0,0 +1,47 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ArrayMaxSize, IsArray, IsMongoId, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { PaginationQueryDto } from 'src/favorites/dto/pagination-query.dto';
+
+export class CreateTagDto {
+  @ApiProperty({ description: 'Display name of the tag', example: 'Fitness' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  name: string;
+
+  @ApiPropertyOptional({ type: [String], description: 'Other names resolving to this tag', example: ['workout', 'gym'] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  synonyms?: string[];
+}
+
+export class UpdateTagDto {
+  @ApiPropertyOptional({ description: 'New display name; the previous one keeps resolving as a synonym', example: 'Fitness' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  name?: string;
+
+  @ApiPropertyOptional({ type: [String], description: 'Replaces the synonyms of the tag', example: ['workout', 'gym'] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  synonyms?: string[];
+}
+
+export class MergeTagDto {
+  @ApiProperty({ description: 'Tag that replaces this one everywhere' })
+  @IsMongoId()
+  targetTagId: string;
+}
+
+export class TagQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({ description: 'Autocomplete: tags whose name or a synonym starts with it', example: 'fit' })
+  @IsOptional()
+  @IsString()
+  prefix?: string;
+}
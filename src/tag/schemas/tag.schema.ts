@@ -0,0 +1,28 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+@Schema({ timestamps: true })
+export class Tag extends Document {
+  @Prop({ type: String, required: true, trim: true })
+  name: string;
+
+  // Normalised name, unique across slugs and synonyms of all tags
+  @Prop({ type: String, required: true, unique: true })
+  slug: string;
+
+  // Alternative slugs resolving to this tag, e.g. former names and merged tags
+  @Prop({ type: [String], default: [] })
+  synonyms: string[];
+
+  // Influencers and services tagged with it
+  @Prop({ type: Number, default: 0, min: 0 })
+  usageCount: number;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  createdBy?: Types.ObjectId;
+}
+
+export const TagSchema = SchemaFactory.createForClass(Tag);
+
+TagSchema.index({ synonyms: 1 });
+TagSchema.index({ usageCount: -1 });
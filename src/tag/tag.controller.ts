@@ -0,0 +1,81 @@
+import { Body, Controller, Delete, Get, Param, Post, Put, Query, Req } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Request } from 'express';
+import { Public } from 'src/common/decorators/public.decorator';
+import { Roles } from 'src/common/decorators/role.decorator';
+import { UserRole } from 'src/user/schemas/user.schema';
+import { TagService } from './tag.service';
+import { CreateTagDto, MergeTagDto, TagQueryDto, UpdateTagDto } from './dto/tag.dto';
+
+@ApiTags('Tags')
+@Controller('tags')
+export class TagController {
+  constructor(private readonly tagService: TagService) {}
+
+  @Get()
+  @Public()
+  @ApiOperation({ summary: 'List tags', description: 'Most used first. Pass `prefix` for autocomplete' })
+  async getTags(@Query() query: TagQueryDto) {
+    return this.tagService.getTags(query);
+  }
+
+  @Get(':id')
+  @Public()
+  @ApiOperation({ summary: 'Get a tag' })
+  @ApiParam({ name: 'id', description: 'Tag ID' })
+  @ApiResponse({ status: 404, description: 'Tag not found' })
+  async getTag(@Param('id') id: string) {
+    return this.tagService.getTag(id);
+  }
+
+  @Post()
+  @ApiBearerAuth('access-token')
+  @ApiOperation({ summary: 'Create a tag (admin)' })
+  @ApiResponse({ status: 409, description: 'The name or a synonym already resolves to another tag' })
+  @Roles(UserRole.ADMIN)
+  async createTag(@Req() req: Request, @Body() data: CreateTagDto) {
+    return this.tagService.createTag(req?.user?.userId!, data);
+  }
+
+  @Post('migrate-legacy')
+  @ApiBearerAuth('access-token')
+  @ApiOperation({
+    summary: 'Convert free-form string tags of influencers and services into managed tags (admin)',
+    description: 'Safe to run more than once; only documents still holding string tags are changed',
+  })
+  @Roles(UserRole.ADMIN)
+  async migrateLegacyTags(@Req() req: Request) {
+    return this.tagService.migrateLegacyTags(req?.user?.userId!);
+  }
+
+  @Put(':id')
+  @ApiBearerAuth('access-token')
+  @ApiOperation({ summary: 'Rename a tag or replace its synonyms (admin)' })
+  @ApiParam({ name: 'id', description: 'Tag ID' })
+  @ApiResponse({ status: 409, description: 'The name or a synonym already resolves to another tag' })
+  @Roles(UserRole.ADMIN)
+  async updateTag(@Param('id') id: string, @Body() data: UpdateTagDto) {
+    return this.tagService.updateTag(id, data);
+  }
+
+  @Post(':id/merge')
+  @ApiBearerAuth('access-token')
+  @ApiOperation({
+    summary: 'Merge a tag into another one (admin)',
+    description: 'Influencers and services are retagged with the target and the merged tag becomes one of its synonyms',
+  })
+  @ApiParam({ name: 'id', description: 'ID of the tag to merge away' })
+  @Roles(UserRole.ADMIN)
+  async mergeTag(@Param('id') id: string, @Body() data: MergeTagDto) {
+    return this.tagService.mergeTag(id, data.targetTagId);
+  }
+
+  @Delete(':id')
+  @ApiBearerAuth('access-token')
+  @ApiOperation({ summary: 'Delete a tag and untag everything using it (admin)' })
+  @ApiParam({ name: 'id', description: 'Tag ID' })
+  @Roles(UserRole.ADMIN)
+  async deleteTag(@Param('id') id: string) {
+    return this.tagService.deleteTag(id);
+  }
+}
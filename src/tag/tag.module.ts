@@ -1,4 +1,29 @@
+/**
+ * Tag Module
+ *
+ * Managed taxonomy for influencers and influencer services:
+ * - Tags with slugs, synonyms and usage counts
+ * - Autocomplete
+ * - Admin rename, merge and delete
+ */
 import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { TagController } from './tag.controller';
+import { TagService } from './tag.service';
+import { Tag, TagSchema } from './schemas/tag.schema';
+import { User, UserSchema } from 'src/user/schemas/user.schema';
+import { InfluencerServices, InfluencerServicesSchema } from 'src/influencer-service/schemas/influencer-service.schema';
 
-@Module({})
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Tag.name, schema: TagSchema },
+      { name: User.name, schema: UserSchema },
+      { name: InfluencerServices.name, schema: InfluencerServicesSchema },
+    ]),
+  ],
+  controllers: [TagController],
+  providers: [TagService],
+  exports: [TagService],
+})
 export class TagModule {}
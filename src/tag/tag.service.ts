@@ -0,0 +1,226 @@
+import { BadRequestException, ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { isValidObjectId, Model, Types } from 'mongoose';
+import { PaginationResponse } from 'src/@types/pagination-response.interface';
+import { User, UserDocument } from 'src/user/schemas/user.schema';
+import { InfluencerServiceDocument, InfluencerServices } from 'src/influencer-service/schemas/influencer-service.schema';
+import { Tag } from './schemas/tag.schema';
+import { CreateTagDto, TagQueryDto, UpdateTagDto } from './dto/tag.dto';
+import { slugifyTag } from './tag.utils';
+
+@Injectable()
+export class TagService {
+  constructor(
+    @InjectModel(Tag.name) private tagModel: Model<Tag>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    @InjectModel(InfluencerServices.name) private influencerServiceModel: Model<InfluencerServiceDocument>,
+  ) {}
+
+  async createTag(adminId: string, { name, synonyms }: CreateTagDto): Promise<Tag> {
+    const slug = this.toSlug(name);
+    const synonymSlugs = this.toSynonyms(synonyms || [], slug);
+    await this.assertSlugsAvailable([slug, ...synonymSlugs]);
+    return this.tagModel.create({ name: name.trim(), slug, synonyms: synonymSlugs, createdBy: new Types.ObjectId(adminId) });
+  }
+
+  /**
+   * Lists tags, most used first. With a prefix it doubles as autocomplete over names and synonyms.
+   */
+  async getTags({ page = 1, limit = 10, prefix }: TagQueryDto): Promise<PaginationResponse<Tag>> {
+    const skip = (page - 1) * limit;
+    const match: Record<string, unknown> = {};
+    const slugPrefix = prefix ? slugifyTag(prefix) : '';
+    if (slugPrefix) {
+      const startsWith = { $regex: `^${slugPrefix}` };
+      match.$or = [{ slug: startsWith }, { synonyms: startsWith }];
+    }
+
+    const result = await this.tagModel.aggregate<PaginationResponse<Tag>>([
+      { $match: match },
+      { $sort: { usageCount: -1, name: 1 } },
+      {
+        $facet: {
+          metadata: [{ $count: 'totalDocs' }],
+          data: [{ $skip: skip }, { $limit: limit }],
+        },
+      },
+      {
+        $project: {
+          totalDocs: { $ifNull: [{ $arrayElemAt: ['$metadata.totalDocs', 0] }, 0] },
+          page: { $literal: page },
+          limit: { $literal: limit },
+          docs: '$data',
+        },
+      },
+    ]);
+
+    return result[0];
+  }
+
+  async getTag(tagId: string): Promise<Tag> {
+    if (!isValidObjectId(tagId)) throw new BadRequestException('Invalid tag ID');
+    const tag = await this.tagModel.findById(tagId);
+    if (!tag) throw new NotFoundException('Tag not found');
+    return tag;
+  }
+
+  /**
+   * Renames a tag and/or replaces its synonyms. The previous name keeps resolving to the tag.
+   */
+  async updateTag(tagId: string, { name, synonyms }: UpdateTagDto): Promise<Tag> {
+    const tag = await this.getTag(tagId);
+    const slug = name ? this.toSlug(name) : tag.slug;
+    let synonymSlugs = synonyms ? synonyms.map((synonym) => slugifyTag(synonym)) : tag.synonyms;
+    if (slug !== tag.slug) synonymSlugs = [...synonymSlugs, tag.slug];
+    synonymSlugs = this.toSynonyms(synonymSlugs, slug);
+    await this.assertSlugsAvailable([slug, ...synonymSlugs], tag._id as Types.ObjectId);
+
+    if (name) tag.name = name.trim();
+    tag.slug = slug;
+    tag.synonyms = synonymSlugs;
+    return tag.save();
+  }
+
+  /**
+   * Replaces a tag with another one on every influencer and service, then removes it.
+   * Its name and synonyms become synonyms of the target.
+   */
+  async mergeTag(sourceTagId: string, targetTagId: string): Promise<Tag> {
+    if (sourceTagId === targetTagId) throw new BadRequestException('A tag cannot be merged into itself');
+    const [source, target] = await Promise.all([this.getTag(sourceTagId), this.getTag(targetTagId)]);
+
+    for (const model of [this.userModel, this.influencerServiceModel] as Model<unknown>[]) {
+      await model.updateMany({ tags: source._id }, { $addToSet: { tags: target._id } });
+      await model.updateMany({ tags: source._id }, { $pull: { tags: source._id } });
+    }
+
+    await source.deleteOne();
+    target.synonyms = this.toSynonyms([...target.synonyms, source.slug, ...source.synonyms], target.slug);
+    await target.save();
+    await this.refreshUsage([target._id as Types.ObjectId]);
+    return (await this.tagModel.findById(target._id))!;
+  }
+
+  async deleteTag(tagId: string): Promise<Tag> {
+    const tag = await this.getTag(tagId);
+    for (const model of [this.userModel, this.influencerServiceModel] as Model<unknown>[]) {
+      await model.updateMany({ tags: tag._id }, { $pull: { tags: tag._id } });
+    }
+    await tag.deleteOne();
+    return tag;
+  }
+
+  /**
+   * Validates tag ids sent to tag an influencer or a service.
+   */
+  async resolveTagIds(tagIds: string[]): Promise<Types.ObjectId[]> {
+    const ids = [...new Set(tagIds)].map((id) => new Types.ObjectId(id));
+    const found = await this.tagModel.countDocuments({ _id: { $in: ids } });
+    if (found !== ids.length) {
+      throw new BadRequestException('Unknown tag');
+    }
+    return ids;
+  }
+
+  // Tags matching free text search, through their slug or a synonym
+  async findMatchingTagIds(search: string): Promise<Types.ObjectId[]> {
+    const slug = slugifyTag(search);
+    if (!slug) return [];
+    const startsWith = { $regex: `^${slug}` };
+    const tags = await this.tagModel
+      .find({ $or: [{ slug: startsWith }, { synonyms: startsWith }] })
+      .select('_id')
+      .limit(50)
+      .lean();
+    return tags.map((tag) => tag._id as Types.ObjectId);
+  }
+
+  /**
+   * Recounts the influencers and services using each tag.
+   */
+  async refreshUsage(tagIds: (Types.ObjectId | string)[]): Promise<void> {
+    const ids = [...new Set(tagIds.map((id) => id.toString()))].map((id) => new Types.ObjectId(id));
+    if (!ids.length) return;
+
+    const count = async (model: Model<unknown>, filter: Record<string, unknown> = {}) => {
+      const counts = await model.aggregate<{ _id: Types.ObjectId; count: number }>([
+        { $match: { ...filter, tags: { $in: ids } } },
+        { $unwind: '$tags' },
+        { $match: { tags: { $in: ids } } },
+        { $group: { _id: '$tags', count: { $sum: 1 } } },
+      ]);
+      return new Map(counts.map((entry) => [entry._id.toString(), entry.count]));
+    };
+    const [users, services] = await Promise.all([
+      count(this.userModel as Model<unknown>, { deleted: false }),
+      count(this.influencerServiceModel as Model<unknown>),
+    ]);
+
+    await this.tagModel.bulkWrite(
+      ids.map((id) => ({
+        updateOne: {
+          filter: { _id: id },
+          update: { $set: { usageCount: (users.get(id.toString()) || 0) + (services.get(id.toString()) || 0) } },
+        },
+      })),
+    );
+  }
+
+  /**
+   * One-off conversion of free-form string tags stored before the taxonomy existed.
+   * Every string resolves to the tag with that slug or synonym, or becomes a new tag.
+   */
+  async migrateLegacyTags(adminId: string) {
+    const touched = new Set<string>();
+    const resolve = async (value: unknown): Promise<Types.ObjectId | null> => {
+      if (value instanceof Types.ObjectId) return value;
+      const slug = typeof value === 'string' ? slugifyTag(value) : '';
+      if (!slug) return null;
+      let tag = await this.tagModel.findOne({ $or: [{ slug }, { synonyms: slug }] });
+      tag ??= await this.tagModel.create({ name: String(value).trim(), slug, createdBy: new Types.ObjectId(adminId) });
+      touched.add(String(tag._id));
+      return tag._id as Types.ObjectId;
+    };
+
+    const migrated = { users: 0, services: 0 };
+    const collections = { users: this.userModel.collection, services: this.influencerServiceModel.collection };
+    for (const [key, collection] of Object.entries(collections) as [keyof typeof migrated, typeof collections.users][]) {
+      const documents = await collection
+        .find({ tags: { $elemMatch: { $type: 'string' } } }, { projection: { tags: 1 } })
+        .toArray();
+      for (const document of documents) {
+        const ids: Types.ObjectId[] = [];
+        for (const value of document.tags as unknown[]) {
+          const id = await resolve(value);
+          if (id && !ids.some((existing) => existing.equals(id))) ids.push(id);
+        }
+        await collection.updateOne({ _id: document._id }, { $set: { tags: ids } });
+        migrated[key]++;
+      }
+    }
+
+    await this.refreshUsage([...touched]);
+    return { ...migrated, tags: touched.size };
+  }
+
+  private toSlug(name: string): string {
+    const slug = slugifyTag(name);
+    if (!slug) throw new BadRequestException('Tag name must contain letters or digits');
+    return slug;
+  }
+
+  private toSynonyms(synonyms: string[], slug: string): string[] {
+    return [...new Set(synonyms.map((synonym) => slugifyTag(synonym)))].filter((synonym) => synonym && synonym !== slug);
+  }
+
+  // A slug may only resolve to one tag, whether as its slug or as a synonym
+  private async assertSlugsAvailable(slugs: string[], excludeTagId?: Types.ObjectId) {
+    const existing = await this.tagModel.findOne({
+      ...(excludeTagId ? { _id: { $ne: excludeTagId } } : {}),
+      $or: [{ slug: { $in: slugs } }, { synonyms: { $in: slugs } }],
+    });
+    if (existing) {
+      throw new ConflictException(`Already used by the tag "${existing.name}"`);
+    }
+  }
+}
@@ -0,0 +1,13 @@
+import { slugifyTag } from './tag.utils';
+
+describe('slugifyTag', () => {
+  it('should normalise case, accents and separators', () => {
+    expect(slugifyTag('  Café & Food ')).toBe('cafe-food');
+    expect(slugifyTag('Fitness')).toBe('fitness');
+    expect(slugifyTag('#Travel_Vlog 2025')).toBe('travel-vlog-2025');
+  });
+
+  it('should return an empty slug when nothing is left', () => {
+    expect(slugifyTag('!!!')).toBe('');
+  });
+});
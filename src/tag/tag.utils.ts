@@ -0,0 +1,12 @@
+/**
+ * Normalises a tag name for matching: lowercase ASCII words joined by dashes,
+ * e.g. "  Café & Food " -> "cafe-food".
+ */
+export function slugifyTag(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
@@ -68,12 +68,12 @@ export class CreateInfluencerDto extends CreateUserDto {
 
   @ApiPropertyOptional({
     type: [String],
-    description: 'Custom tags associated with the influencer’s content or niche.',
-    example: ['fitness', 'lifestyle'],
+    description: 'IDs of managed tags describing the influencer content or niche (see GET /tags)',
+    example: ['665f1b2f9f1b14670c52fdef'],
   })
   @IsOptional()
   @IsArray()
-  @IsString({ each: true })
+  @IsMongoId({ each: true })
   tags?: string[];
 
   @ApiPropertyOptional({
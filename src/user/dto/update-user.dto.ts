@@ -1,5 +1,18 @@
 import { ApiPropertyOptional } from '@nestjs/swagger';
-import { IsArray, IsBoolean, IsEmail, IsMongoId, IsNumber, IsOptional, IsString, IsUrl, ValidateNested } from 'class-validator';
+import {
+  IsArray,
+  IsBoolean,
+  IsEmail,
+  IsISO31661Alpha2,
+  IsISO4217CurrencyCode,
+  IsMongoId,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsTimeZone,
+  IsUrl,
+  ValidateNested,
+} from 'class-validator';
 import { Types } from 'mongoose';
 import { Type } from 'class-transformer';
 
@@ -38,12 +51,18 @@ class SocialMediaEntry {
 }
 
 export class UpdateUserDto {
-  @ApiPropertyOptional({ description: 'User email address', example: 'user@example.com' })
+  @ApiPropertyOptional({
+    description: 'User email address; must match the current one, it is changed with /auth/change-email',
+    example: 'user@example.com',
+  })
   @IsEmail()
   @IsOptional()
   email?: string;
 
-  @ApiPropertyOptional({ description: 'Phone number with country code', example: '+919999999999' })
+  @ApiPropertyOptional({
+    description: 'Phone number with country code; must match the current one, it is changed with /auth/change-phone',
+    example: '+919999999999',
+  })
   @IsString()
   @IsOptional()
   phoneNumber?: string;
@@ -86,12 +105,12 @@ export class UpdateUserDto {
 
   @ApiPropertyOptional({
     type: [String],
-    description: 'Custom tags associated with the influencer content or niche',
-    example: ['fitness', 'lifestyle'],
+    description: 'IDs of managed tags describing the influencer content or niche (see GET /tags)',
+    example: ['665f1b2f9f1b14670c52fdef'],
   })
   @IsOptional()
   @IsArray()
-  @IsString({ each: true })
+  @IsMongoId({ each: true })
   tags?: string[];
 
   @ApiPropertyOptional({
@@ -102,6 +121,30 @@ export class UpdateUserDto {
   @IsString()
   location?: string;
 
+  @ApiPropertyOptional({
+    description: 'Country (ISO 3166-1 alpha-2), used for the tax rate at checkout',
+    example: 'US',
+  })
+  @IsOptional()
+  @IsISO31661Alpha2()
+  country?: string;
+
+  @ApiPropertyOptional({
+    description: 'Currency (ISO 4217) to display prices in. Payments are still charged in the currency of the service',
+    example: 'EUR',
+  })
+  @IsOptional()
+  @IsISO4217CurrencyCode()
+  preferredCurrency?: string;
+
+  @ApiPropertyOptional({
+    description: 'IANA time zone. Availability of influencers is kept in it, times are shown in it',
+    example: 'Europe/Paris',
+  })
+  @IsOptional()
+  @IsTimeZone()
+  timeZone?: string;
+
   @ApiPropertyOptional({
     description: 'Engagement rate calculated from the influencer content',
     example: 4.3,
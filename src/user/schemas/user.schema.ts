@@ -30,6 +30,13 @@ export class User {
   @Prop({ unique: [true, 'A user with this phone number already exists'], sparse: true })
   phoneNumber?: string;
 
+  // Set once an OTP sent to the address is confirmed; changing the address keeps it only for the confirmed new one
+  @Prop({ type: Boolean, default: false })
+  emailVerified?: boolean;
+
+  @Prop({ type: Boolean, default: false })
+  phoneVerified?: boolean;
+
   @Prop({ minlength: 6 })
   password?: string;
 
@@ -81,8 +88,8 @@ export class User {
   @Prop({ type: Number, default: 0 })
   following?: number;
 
-  @Prop([String])
-  tags?: string[];
+  @Prop({ type: [{ type: Types.ObjectId, ref: 'Tag' }], default: [] })
+  tags?: Types.ObjectId[];
 
   @Prop()
   bio?: string;
@@ -90,9 +97,51 @@ export class User {
   @Prop()
   location?: string;
 
+  // ISO 3166-1 alpha-2, decides the tax rate applied at checkout
+  @Prop({ type: String, uppercase: true })
+  country?: string;
+
+  // ISO 4217, prices are shown converted to it; payments stay in the service currency
+  @Prop({ type: String, uppercase: true })
+  preferredCurrency?: string;
+
+  // IANA name, e.g. Europe/Paris; UTC when unset
+  @Prop({ type: String })
+  timeZone?: string;
+
+  // TOTP two-factor authentication; the secrets are never selected by default
+  @Prop({ type: Boolean, default: false })
+  twoFactorEnabled?: boolean;
+
+  @Prop({ type: String, select: false })
+  twoFactorSecret?: string;
+
+  // Generated by setup, becomes the secret once a code from it was verified
+  @Prop({ type: String, select: false })
+  twoFactorPendingSecret?: string;
+
+  // SHA-256 of the unused backup codes
+  @Prop({ type: [String], select: false, default: undefined })
+  twoFactorBackupCodes?: string[];
+
+  // Time step of the last accepted code, so a code cannot be used twice
+  @Prop({ type: Number, select: false })
+  twoFactorLastStep?: number;
+
+  // SHA-256 of the secret token of the influencer's calendar feed
+  @Prop({ type: String, select: false })
+  calendarFeedTokenHash?: string;
+
   @Prop()
   engagementRate?: number;
 
+  // Visible reviews of the influencer's orders, kept up to date by the review module
+  @Prop({ type: Number, default: 0 })
+  ratingAverage?: number;
+
+  @Prop({ type: Number, default: 0 })
+  reviewCount?: number;
+
   @Prop([String])
   images?: string[];
 
@@ -24,6 +24,7 @@ import { ApiBearerAuth, ApiOperation, ApiParam, ApiQuery, ApiTags } from '@nestj
 import { Roles } from 'src/common/decorators/role.decorator';
 import { Public } from 'src/common/decorators/public.decorator';
 import { ServiceType } from 'src/influencer-service/schemas/influencer-service.schema';
+import { TagService } from 'src/tag/tag.service';
 
 @ApiTags('User management')
 @ApiBearerAuth('access-token')
@@ -32,6 +33,7 @@ export class UserController {
   constructor(
     private readonly usersService: UserService,
     private readonly authService: AuthService,
+    private readonly tagService: TagService,
   ) {}
 
   // TODO: Remove on prod
@@ -68,11 +70,13 @@ export class UserController {
       ...reqData,
       role: UserRole.INFLUENCER,
       category: reqData?.category as unknown as mongoose.Types.ObjectId[],
+      tags: reqData?.tags ? await this.tagService.resolveTagIds(reqData.tags) : undefined,
     };
 
     if (reqData?.password) dataToSave.password = await this.authService.createPasswordHash(reqData.password);
 
     const user = await this.usersService.createUserSudo(dataToSave);
+    await this.tagService.refreshUsage(dataToSave.tags || []);
 
     delete user.password;
     delete user.meta;
@@ -101,6 +105,14 @@ export class UserController {
   @ApiQuery({ name: 'search', required: false })
   @ApiQuery({ name: 'category', required: false })
   @ApiQuery({ name: 'platform', required: false })
+  @ApiQuery({ name: 'tags', required: false, description: 'Comma separated tag IDs, influencers must have all of them' })
+  @ApiQuery({ name: 'minRating', required: false, type: Number, description: 'Minimum average rating (1-5)' })
+  @ApiQuery({
+    name: 'sortBy',
+    required: false,
+    enum: ['name', 'rating'],
+    description: 'Sort by name (default) or best rated first',
+  })
   @ApiQuery({ name: 'page', required: false })
   @ApiQuery({ name: 'limit', required: false })
   @ApiQuery({
@@ -128,6 +140,9 @@ export class UserController {
     @Query('search') search: string,
     @Query('category') category: string,
     @Query('platform') platform: string,
+    @Query('tags') tags: string,
+    @Query('minRating') minRating: number,
+    @Query('sortBy') sortBy: string,
     @Query('hasService') hasService: boolean,
     @Query('page') page: number,
     @Query('limit') limit: number,
@@ -136,9 +151,16 @@ export class UserController {
     @Req() req: Request,
   ) {
     const isSudo = req.user?.role == UserRole.ADMIN;
+    const tagIds = tags ? tags.split(',').map((id) => id.trim()) : [];
+    if (tagIds.some((id) => !Types.ObjectId.isValid(id))) throw new BadRequestException('Invalid tag ID');
+
     return await this.usersService.getInfluencerSearchPaginated(search, {
       category,
       platform,
+      tagIds,
+      searchTagIds: search ? await this.tagService.findMatchingTagIds(search) : [],
+      minRating,
+      sortByRating: sortBy === 'rating',
       page,
       limit,
       hasService,
@@ -169,7 +191,17 @@ export class UserController {
     if (req.user?.role == UserRole.USER && req.user?.userId != userId) {
       throw new ForbiddenException('Unauthorized to update this user');
     }
-    return this.usersService.updateUser(userId, { ...reqData, category: reqData?.category as unknown as Types.ObjectId[] });
+    const tags = reqData.tags ? await this.tagService.resolveTagIds(reqData.tags) : undefined;
+    const previousTags = tags ? (await this.usersService.getUserByIdSudo(userId))?.tags || [] : [];
+
+    const user = await this.usersService.updateUser(userId, {
+      ...reqData,
+      category: reqData?.category as unknown as Types.ObjectId[],
+      tags,
+    });
+    // Tags dropped by the update are recounted as well
+    if (tags) await this.tagService.refreshUsage([...previousTags.map((tag) => tag._id), ...tags]);
+    return user;
   }
 
   @ApiOperation({ summary: 'Delete user by ID (Admin only)' })
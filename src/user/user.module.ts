@@ -4,9 +4,10 @@ import { UserController } from './user.controller';
 import { UserService } from './user.service';
 import { User, UserSchema } from './schemas/user.schema';
 import { AuthModule } from 'src/auth/auth.module';
+import { TagModule } from 'src/tag/tag.module';
 
 @Module({
-  imports: [MongooseModule.forFeature([{ name: User.name, schema: UserSchema }]), AuthModule],
+  imports: [MongooseModule.forFeature([{ name: User.name, schema: UserSchema }]), AuthModule, TagModule],
   controllers: [UserController],
   providers: [UserService],
 })
@@ -75,6 +75,15 @@ export class UserService {
             { $skip: (page - 1) * limit },
             { $limit: limit },
             { $lookup: { from: 'categories', localField: 'category', foreignField: '_id', as: 'category' } },
+            {
+              $lookup: {
+                from: 'tags',
+                localField: 'tags',
+                foreignField: '_id',
+                as: 'tags',
+                pipeline: [{ $project: { name: 1, slug: 1 } }],
+              },
+            },
             {
               $lookup: {
                 from: 'platforms', // The collection where platforms are stored
@@ -157,9 +166,25 @@ export class UserService {
   async updateUser(id: string, data: Partial<User>): Promise<Partial<User> | null> {
     delete data._id;
     delete data.role;
+    delete data.emailVerified;
+    delete data.phoneVerified;
 
     if (!this.isValidObjectId(id)) throw new NotFoundException('Invalid user ID');
 
+    // Email address and phone number only change through the auth flows that confirm the new one first
+    if (data.email !== undefined || data.phoneNumber !== undefined) {
+      const current = await this.userModel.findById(id, { email: 1, phoneNumber: 1 }).lean();
+      const emailChanged = data.email !== undefined && data.email.trim().toLowerCase() !== (current?.email ?? '');
+      const phoneChanged = data.phoneNumber !== undefined && data.phoneNumber !== (current?.phoneNumber ?? '');
+      if (emailChanged || phoneChanged) {
+        throw new BadRequestException(
+          'Email address and phone number are changed with /auth/change-email and /auth/change-phone',
+        );
+      }
+      delete data.email;
+      delete data.phoneNumber;
+    }
+
     const user = await this.userModel.findOneAndUpdate(
       { _id: new mongoose.Types.ObjectId(id), role: { $ne: UserRole.ADMIN }, deleted: false },
       { $set: data },
@@ -187,6 +212,7 @@ export class UserService {
     return this.userModel
       .findOne({ _id: new Types.ObjectId(id), deleted: false })
       .populate('category')
+      .populate('tags', 'name slug')
       .populate('socialMedia.platform')
       .lean();
   }
@@ -198,6 +224,7 @@ export class UserService {
     const user = await this.userModel
       .findOne({ _id: new Types.ObjectId(id), role: { $ne: UserRole.ADMIN }, ...this.defaultQuery }, this.projection)
       .populate('category')
+      .populate('tags', 'name slug')
       .populate('socialMedia.platform');
 
     return this.toUserSafe(user);
@@ -208,6 +235,14 @@ export class UserService {
     options: {
       category?: string;
       platform?: string;
+      // Influencers must have all of them
+      tagIds?: string[];
+      // Tags matching the search text
+      searchTagIds?: Types.ObjectId[];
+      // Minimum average rating
+      minRating?: number;
+      // Best rated first instead of by name
+      sortByRating?: boolean;
       page?: number;
       limit?: number;
       hasService?: boolean;
@@ -234,7 +269,7 @@ export class UserService {
         $or: [
           { name: { $regex: search, $options: 'i' } },
           { bio: { $regex: search, $options: 'i' } },
-          { tags: { $regex: search, $options: 'i' } },
+          { tags: { $in: options?.searchTagIds || [] } },
           { 'socialMedia.platform': { $regex: search, $options: 'i' } },
         ],
       };
@@ -246,9 +281,11 @@ export class UserService {
         $match: {
           ...(options?.category ? { category: new Types.ObjectId(options?.category) } : {}),
           ...(options?.platform ? { 'socialMedia.platform': new Types.ObjectId(options?.platform) } : {}),
+          ...(options?.tagIds?.length ? { tags: { $all: options.tagIds.map((id) => new Types.ObjectId(id)) } } : {}),
+          ...(options?.minRating ? { ratingAverage: { $gte: options.minRating } } : {}),
         },
       },
-      { $sort: { name: 1, createdAt: 1 } },
+      { $sort: options?.sortByRating ? { ratingAverage: -1, reviewCount: -1, name: 1 } : { name: 1, createdAt: 1 } },
       { $project: this.projection },
       ...(hasService
         ? [
@@ -280,6 +317,15 @@ export class UserService {
             { $skip: (page - 1) * limit },
             { $limit: limit },
             { $lookup: { from: 'categories', localField: 'category', foreignField: '_id', as: 'category' } },
+            {
+              $lookup: {
+                from: 'tags',
+                localField: 'tags',
+                foreignField: '_id',
+                as: 'tags',
+                pipeline: [{ $project: { name: 1, slug: 1 } }],
+              },
+            },
             {
               $lookup: {
                 from: 'platforms', // The collection where platforms are stored
@@ -364,6 +410,7 @@ export class UserService {
     const user = await this.userModel
       .findOne({ _id: new Types.ObjectId(id), role: { $ne: UserRole.ADMIN }, deleted: { $ne: true } }, this.projection)
       .populate('category')
+      .populate('tags', 'name slug')
       .populate('socialMedia.platform');
 
     return this.toUserSafe(user);